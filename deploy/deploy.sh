@@ -87,6 +87,7 @@ gcloud run deploy ${SERVICE_NAME} \
     --region ${REGION} \
     "${ENV_VARS_FLAGS[@]}" \
     --allow-unauthenticated \
+    --no-cpu-throttling \
     --port 3000
 
 echo "--- Deployment to Cloud Run initiated ---"
@@ -0,0 +1,195 @@
+/**
+ * @file access.ts
+ * @description This module decides who may use the bot. With `ACCESS_MODE=restricted`, only these
+ * senders are served:
+ * - admins, listed in `ADMIN_NUMBERS`;
+ * - senders on the allowlist: the numbers in `ALLOWED_NUMBERS`, or any number with a country code
+ *   in `ALLOWED_COUNTRY_CODES`;
+ * - senders an admin approved with `/approve`, or who redeemed an invite code created with `/invite`.
+ * Anyone else is politely refused before anything is sent to Gemini. With `ACCESS_MODE=open` (the
+ * default), everyone is served. Either way, admins can `/block` a sender, which overrides the
+ * allowlist; blocked senders get no reply at all.
+ * Numbers are written in international format, e.g. "+5511999999999".
+ */
+
+import crypto from 'crypto';
+import { AccessLevel, AccessRecord, ExpiringState, InviteCode } from '../types/chat';
+import { deleteDocument, getDocument, setDocument, sweepExpiredDocuments, updateDocument } from './storage';
+
+// --- CONSTANTS ---
+const USER_ACCESS_COLLECTION = 'user-access';
+const INVITE_CODES_COLLECTION = 'invite-codes';
+const ACCESS_REFUSALS_COLLECTION = 'access-refusals';
+
+const WHATSAPP_PREFIX = 'whatsapp:';
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Without look-alikes such as 0/O and 1/I.
+const INVITE_CODE_LENGTH = 8;
+const MAX_INVITE_USES = 50;
+
+// How long an invite code can be redeemed.
+const getInviteCodeTtlMs = () => (Number(process.env.INVITE_CODE_TTL_HOURS) || 72) * 60 * 60 * 1000;
+
+// A refused sender is told why at most this often, so a stranger's every message doesn't get a reply.
+const REFUSAL_NOTICE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Who may use the bot: everyone, or only the senders let in by the access policy.
+ */
+export type AccessMode = 'open' | 'restricted';
+
+/**
+ * A private helper that reads a comma-separated list from the environment.
+ * @param name The name of the environment variable.
+ * @returns The trimmed, non-empty items.
+ */
+function readList(name: string): string[] {
+    return (process.env[name] || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Returns the configured access mode.
+ * @returns 'restricted' if `ACCESS_MODE` says so, 'open' otherwise.
+ */
+export function getAccessMode(): AccessMode {
+    return process.env.ACCESS_MODE?.toLowerCase() === 'restricted' ? 'restricted' : 'open';
+}
+
+/**
+ * Normalizes a phone number written by a person ("+55 11 99999-9999") to international format.
+ * @param input The phone number, with or without the "whatsapp:" prefix.
+ * @returns The number (e.g. "+5511999999999"), or null if it isn't a valid international number.
+ */
+export function normalizePhoneNumber(input: string): string | null {
+    const number = input.trim().replace(WHATSAPP_PREFIX, '').replace(/[\s().-]/g, '');
+    return /^\+\d{6,15}$/.test(number) ? number : null;
+}
+
+/**
+ * Turns a phone number into the sender ID Twilio uses for it.
+ * @param phoneNumber The number, in international format.
+ * @returns The sender ID, e.g. "whatsapp:+5511999999999".
+ */
+export function toSenderId(phoneNumber: string): string {
+    return `${WHATSAPP_PREFIX}${phoneNumber}`;
+}
+
+/**
+ * A private helper that checks whether a number is on the allowlist, by itself or by its country code.
+ * @param phoneNumber The number, in international format.
+ * @returns True if the number is allowed by configuration.
+ */
+function isAllowlisted(phoneNumber: string): boolean {
+    const allowedNumbers = readList('ALLOWED_NUMBERS').map(normalizePhoneNumber);
+    const countryCodes = readList('ALLOWED_COUNTRY_CODES').map(code => `+${code.replace(/^\+/, '')}`);
+    return allowedNumbers.includes(phoneNumber) || countryCodes.some(code => phoneNumber.startsWith(code));
+}
+
+/**
+ * Decides whether a sender may use the bot. If the admins' decisions can't be read, the configured
+ * policy is applied alone.
+ * @param senderId The sender's unique identifier.
+ * @returns A promise resolving to the sender's access level.
+ */
+export async function getAccessLevel(senderId: string): Promise<AccessLevel> {
+    const phoneNumber = normalizePhoneNumber(senderId);
+    if (phoneNumber && readList('ADMIN_NUMBERS').map(normalizePhoneNumber).includes(phoneNumber)) {
+        return 'admin';
+    }
+
+    let record: AccessRecord | null = null;
+    try {
+        record = await getDocument<AccessRecord>(USER_ACCESS_COLLECTION, senderId);
+    } catch (error) {
+        // The configured policy still applies; only the admins' decisions are unknown.
+        console.error(`access.ts: Error reading the access record of [${senderId}]. Falling back to the configured policy.`, error);
+    }
+    if (record?.status === 'blocked') {
+        return 'blocked';
+    }
+    if (record?.status === 'approved' || getAccessMode() === 'open' || (phoneNumber && isAllowlisted(phoneNumber))) {
+        return 'allowed';
+    }
+    return 'unknown';
+}
+
+/**
+ * Approves or blocks a sender, or removes the decision so the configured policy applies again.
+ * @param senderId The sender's unique identifier.
+ * @param status The new status, or null to remove the decision.
+ * @param decidedBy Who made the decision.
+ */
+export async function setAccessStatus(senderId: string, status: AccessRecord['status'] | null, decidedBy: string): Promise<void> {
+    if (status === null) {
+        await deleteDocument(USER_ACCESS_COLLECTION, senderId);
+    } else {
+        await setDocument<AccessRecord>(USER_ACCESS_COLLECTION, senderId, { status, decidedBy, decidedAt: Date.now() });
+    }
+    console.log(`access.ts: [${decidedBy}] set the access of [${senderId}] to ${status ?? 'the configured policy'}.`);
+}
+
+/**
+ * Creates an invite code that lets new senders in.
+ * @param createdBy The sender ID of the admin who created it.
+ * @param uses How many senders can redeem it (capped at 50).
+ * @returns A promise resolving to the code, when it expires and how many senders can redeem it.
+ */
+export async function createInviteCode(createdBy: string, uses: number = 1): Promise<{ code: string; expiresAt: number; usesLeft: number }> {
+    const code = Array.from({ length: INVITE_CODE_LENGTH }, () => INVITE_CODE_ALPHABET[crypto.randomInt(INVITE_CODE_ALPHABET.length)]).join('');
+    const invite: InviteCode = { createdBy, expiresAt: Date.now() + getInviteCodeTtlMs(), usesLeft: Math.min(Math.max(1, Math.floor(uses)), MAX_INVITE_USES) };
+    await setDocument(INVITE_CODES_COLLECTION, code, invite);
+    console.log(`access.ts: [${createdBy}] created an invite code for ${invite.usesLeft} sender(s).`);
+    return { code, expiresAt: invite.expiresAt, usesLeft: invite.usesLeft };
+}
+
+/**
+ * Redeems an invite code, approving the sender. The use is taken in a transaction, so a code can't
+ * be redeemed more times than it allows.
+ * @param senderId The sender's unique identifier.
+ * @param code The code the sender typed (case-insensitive).
+ * @returns A promise resolving to true if the sender was approved.
+ */
+export async function redeemInviteCode(senderId: string, code: string): Promise<boolean> {
+    const normalizedCode = code.trim().toUpperCase();
+    if (!/^[A-Z0-9]+$/.test(normalizedCode)) {
+        return false;
+    }
+
+    const now = Date.now();
+    const previous = await updateDocument<InviteCode>(INVITE_CODES_COLLECTION, normalizedCode, (current) => {
+        if (!current || current.expiresAt <= now || current.usesLeft <= 1) {
+            return null; // Expired, or this is its last use.
+        }
+        return { ...current, usesLeft: current.usesLeft - 1 };
+    });
+    if (!previous || previous.expiresAt <= now || previous.usesLeft <= 0) {
+        console.warn(`access.ts: [${senderId}] tried an invalid or expired invite code.`);
+        return false;
+    }
+
+    await setAccessStatus(senderId, 'approved', `invite:${normalizedCode}`);
+    return true;
+}
+
+/**
+ * Records that a refused sender is being told why, unless they were told recently.
+ * @param senderId The sender's unique identifier.
+ * @returns A promise resolving to true if the refusal should be sent now.
+ */
+export async function claimRefusalNotice(senderId: string): Promise<boolean> {
+    const now = Date.now();
+    const previous = await updateDocument<ExpiringState<number>>(ACCESS_REFUSALS_COLLECTION, senderId, (current) =>
+        current && current.expiresAt > now ? current : { value: now, expiresAt: now + REFUSAL_NOTICE_INTERVAL_MS });
+    return !previous || previous.expiresAt <= now;
+}
+
+/**
+ * Removes the invite codes that expired before all of their uses were redeemed, and the refusal
+ * notices of strangers who have stopped writing.
+ * @returns A promise resolving to the number of documents removed.
+ */
+export async function sweepExpiredAccessState(): Promise<number> {
+    const now = Date.now();
+    const isExpired = (doc: { expiresAt: number }) => doc.expiresAt <= now;
+    return (await sweepExpiredDocuments<InviteCode>(INVITE_CODES_COLLECTION, isExpired))
+        + (await sweepExpiredDocuments<ExpiringState<number>>(ACCESS_REFUSALS_COLLECTION, isExpired));
+}
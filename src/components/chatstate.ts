@@ -0,0 +1,299 @@
+/**
+ * @file chatstate.ts
+ * @description This module manages each user's conversation state: their chat history with
+ * Gemini, any prompt the bot is waiting on ("what should I do with this file?", "which task
+ * should I delete/complete?", "reply 'more' for the next page"), and what their last message was
+ * about. Everything is persisted through `storage.ts` with a time-to-live, so the conversation
+ * survives restarts and every instance of the service gives the same answer.
+ */
+
+import { ChatHistoryItem, ChatMemory, ChatMessagePart, ExpiringState, FileDataSource, MessageIntent, PendingMedia, PendingTaskPage, PendingTaskSelection } from '../types/chat';
+import { getDocument, setDocument, deleteDocument, updateDocument, listDocumentIds, sweepExpiredDocuments } from './storage';
+
+// --- CONSTANTS ---
+const CHAT_HISTORIES_COLLECTION = 'chat-histories';
+const PENDING_MEDIA_COLLECTION = 'pending-media';
+const PENDING_TASK_SELECTIONS_COLLECTION = 'pending-task-selections';
+const PENDING_TASK_PAGES_COLLECTION = 'pending-task-pages';
+const LAST_INTENTS_COLLECTION = 'last-intents';
+
+const MINUTE_IN_MS = 60 * 1000;
+
+// The time-to-lives are read when they are used, so `dotenv` has loaded the configuration by then.
+
+// Chat histories expire after a period of inactivity. The default matches the 48-hour
+// retention of the Gemini Files API, after which file references in the history are dead anyway.
+const getChatHistoryTtlMs = () => (Number(process.env.CHAT_HISTORY_TTL_HOURS) || 48) * 60 * MINUTE_IN_MS;
+
+// Pending prompts are short-lived: a reply that arrives hours later is most likely about something else.
+const getPendingPromptTtlMs = () => (Number(process.env.PENDING_PROMPT_TTL_MINUTES) || 30) * MINUTE_IN_MS;
+
+/**
+ * Checks whether a persisted piece of state is still valid.
+ * @param state The persisted state, or null if there is none.
+ * @returns True if the state exists and hasn't expired.
+ */
+function isAlive<T>(state: ExpiringState<T> | null): state is ExpiringState<T> {
+    return !!state && state.expiresAt > Date.now();
+}
+
+/**
+ * Reads a piece of expiring state and removes it in the same transaction.
+ * @param collection The collection that holds the state.
+ * @param senderId The user's unique identifier.
+ * @returns The state's value, or null if there was none or it had expired.
+ */
+async function consumeState<T>(collection: string, senderId: string): Promise<T | null> {
+    const previous = await updateDocument<ExpiringState<T>>(collection, senderId, () => null);
+    return isAlive(previous) ? previous.value : null;
+}
+
+/**
+ * A private helper that reads a persisted chat memory. Histories saved before summaries existed
+ * were a plain list of turns.
+ * @param value The persisted value.
+ * @returns The chat memory.
+ */
+function toChatMemory(value: ChatMemory | ChatHistoryItem[]): ChatMemory {
+    return Array.isArray(value) ? { summary: null, turns: value } : value;
+}
+
+// --- CHAT HISTORY FUNCTIONS ---
+
+/**
+ * Loads what the bot remembers of a user's conversation, discarding it if it has expired.
+ * @param senderId The user's unique identifier.
+ * @returns The user's chat memory, empty if there is none.
+ */
+export async function getChatMemory(senderId: string): Promise<ChatMemory> {
+    try {
+        const state = await getDocument<ExpiringState<ChatMemory | ChatHistoryItem[]>>(CHAT_HISTORIES_COLLECTION, senderId);
+        if (isAlive(state)) {
+            return toChatMemory(state.value);
+        }
+        if (state) {
+            console.log(`chatstate.ts: Chat history for [${senderId}] has expired. Starting fresh.`);
+            await deleteDocument(CHAT_HISTORIES_COLLECTION, senderId);
+        }
+        return { summary: null, turns: [] };
+    } catch (error) {
+        // A broken history shouldn't stop the conversation; the model simply starts without context.
+        console.error(`chatstate.ts: Error loading chat history for [${senderId}]. Starting fresh.`, error);
+        return { summary: null, turns: [] };
+    }
+}
+
+/**
+ * Appends a user/model exchange to the user's chat history and renews its expiry.
+ * The append is transactional, so turns written concurrently by other instances are preserved.
+ * @param senderId The user's unique identifier.
+ * @param userParts The parts of the user's message, as they should be remembered.
+ * @param modelResponseText The model's reply.
+ */
+export async function appendChatTurn(senderId: string, userParts: ChatMessagePart[], modelResponseText: string): Promise<void> {
+    try {
+        await updateDocument<ExpiringState<ChatMemory | ChatHistoryItem[]>>(CHAT_HISTORIES_COLLECTION, senderId, (current) => {
+            const memory = isAlive(current) ? toChatMemory(current.value) : { summary: null, turns: [] };
+            return {
+                value: {
+                    summary: memory.summary,
+                    turns: [
+                        ...memory.turns,
+                        { role: 'user', parts: userParts },
+                        { role: 'model', parts: [{ text: modelResponseText }] },
+                    ],
+                },
+                expiresAt: Date.now() + getChatHistoryTtlMs(),
+            };
+        });
+    } catch (error) {
+        console.error(`chatstate.ts: Error saving chat turn for [${senderId}].`, error);
+    }
+}
+
+/**
+ * Replaces the oldest turns of the user's chat history with a new summary. The replacement is
+ * transactional and only applies if the history still starts with the folded turns, so a fold
+ * computed from a history that changed in the meantime (e.g. folded by another instance, or reset)
+ * is dropped rather than losing turns.
+ * @param senderId The user's unique identifier.
+ * @param foldedTurns The oldest turns of the history, as they were summarized.
+ * @param summary The summary of the previous summary and the folded turns.
+ * @returns A promise resolving to true if the history was updated.
+ */
+export async function foldChatTurns(senderId: string, foldedTurns: ChatHistoryItem[], summary: string): Promise<boolean> {
+    let folded = false;
+    await updateDocument<ExpiringState<ChatMemory | ChatHistoryItem[]>>(CHAT_HISTORIES_COLLECTION, senderId, (current) => {
+        folded = false;
+        if (!isAlive(current)) {
+            return current;
+        }
+        const memory = toChatMemory(current.value);
+        if (JSON.stringify(memory.turns.slice(0, foldedTurns.length)) !== JSON.stringify(foldedTurns)) {
+            return current;
+        }
+        folded = true;
+        return { value: { summary, turns: memory.turns.slice(foldedTurns.length) }, expiresAt: current.expiresAt };
+    });
+    return folded;
+}
+
+/**
+ * A private helper that lists the media files referenced by some history turns.
+ * @param turns The history turns.
+ * @returns The files, in order.
+ */
+function getReferencedFiles(turns: ChatHistoryItem[]): FileDataSource[] {
+    return turns.flatMap(item => item.parts.flatMap(part => (part.fileData ? [part.fileData] : [])));
+}
+
+/**
+ * Forgets the user's conversation: their chat history and summary, and every prompt the bot is
+ * waiting on, so the next message starts from a clean slate.
+ * @param senderId The user's unique identifier.
+ * @returns A promise resolving to the media files the forgotten conversation referenced, which
+ * are no longer needed.
+ */
+export async function clearConversation(senderId: string): Promise<FileDataSource[]> {
+    const { turns } = await getChatMemory(senderId);
+    const pendingMedia = (await consumePendingMedia(senderId)) || [];
+    await Promise.all([
+        CHAT_HISTORIES_COLLECTION,
+        PENDING_TASK_SELECTIONS_COLLECTION,
+        PENDING_TASK_PAGES_COLLECTION,
+        LAST_INTENTS_COLLECTION,
+    ].map(collection => deleteDocument(collection, senderId)));
+    return [...getReferencedFiles(turns), ...pendingMedia];
+}
+
+// --- PENDING PROMPT FUNCTIONS ---
+
+/**
+ * Remembers the media files the user sent without instructions, until they reply.
+ * @param senderId The user's unique identifier.
+ * @param media The uploaded media files awaiting instructions.
+ */
+export async function setPendingMedia(senderId: string, media: PendingMedia): Promise<void> {
+    await setDocument<ExpiringState<PendingMedia>>(PENDING_MEDIA_COLLECTION, senderId, {
+        value: media,
+        expiresAt: Date.now() + getPendingPromptTtlMs(),
+    });
+}
+
+/**
+ * Retrieves and clears the media files awaiting the user's instructions, if any.
+ * Only one instance can consume given pending files.
+ * @param senderId The user's unique identifier.
+ * @returns The pending media, or null if there is none or it has expired.
+ */
+export async function consumePendingMedia(senderId: string): Promise<PendingMedia | null> {
+    // Pending media saved before several files per message were supported is a single file.
+    const media = await consumeState<PendingMedia | FileDataSource>(PENDING_MEDIA_COLLECTION, senderId);
+    return media && !Array.isArray(media) ? [media] : media;
+}
+
+/**
+ * Removes every pending media that expired before the user replied with instructions. Each removal
+ * is transactional, so media is only reported once even when several instances sweep at the same time.
+ * @returns A promise resolving to the expired media, by user.
+ */
+export async function sweepExpiredPendingMedia(): Promise<{ senderId: string; media: PendingMedia }[]> {
+    const expired: { senderId: string; media: PendingMedia }[] = [];
+    for (const senderId of await listDocumentIds(PENDING_MEDIA_COLLECTION)) {
+        try {
+            const previous = await updateDocument<ExpiringState<PendingMedia | FileDataSource>>(
+                PENDING_MEDIA_COLLECTION, senderId, (current) => (isAlive(current) ? current : null));
+            if (previous && previous.expiresAt <= Date.now()) {
+                expired.push({ senderId, media: Array.isArray(previous.value) ? previous.value : [previous.value] });
+            }
+        } catch (error) {
+            console.error(`chatstate.ts: Error sweeping the pending media of [${senderId}].`, error);
+        }
+    }
+    return expired;
+}
+
+/**
+ * Remembers a "which task?" prompt: the action to apply and the tasks presented to the user.
+ * @param senderId The user's unique identifier.
+ * @param selection The pending action and the tasks, in the order they were presented.
+ */
+export async function setPendingTaskSelection(senderId: string, selection: PendingTaskSelection): Promise<void> {
+    await setDocument<ExpiringState<PendingTaskSelection>>(PENDING_TASK_SELECTIONS_COLLECTION, senderId, {
+        value: selection,
+        expiresAt: Date.now() + getPendingPromptTtlMs(),
+    });
+}
+
+/**
+ * Retrieves and clears the "which task?" prompt awaiting the user's choice, if any.
+ * @param senderId The user's unique identifier.
+ * @returns The pending selection, or null if there is no pending prompt or it has expired.
+ */
+export async function consumePendingTaskSelection(senderId: string): Promise<PendingTaskSelection | null> {
+    const selection = await consumeState<PendingTaskSelection>(PENDING_TASK_SELECTIONS_COLLECTION, senderId);
+    // Prompts saved before tasks were picked by ID only hold titles, which can't be acted on safely.
+    return selection && Array.isArray(selection.tasks) ? selection : null;
+}
+
+/**
+ * Remembers that a task listing has more pages, so the user can reply "more" to see the next one.
+ * @param senderId The user's unique identifier.
+ * @param pendingPage The listing and the page to show next.
+ */
+export async function setPendingTaskPage(senderId: string, pendingPage: PendingTaskPage): Promise<void> {
+    await setDocument<ExpiringState<PendingTaskPage>>(PENDING_TASK_PAGES_COLLECTION, senderId, {
+        value: pendingPage,
+        expiresAt: Date.now() + getPendingPromptTtlMs(),
+    });
+}
+
+/**
+ * Retrieves and clears the next page of the user's last task listing, if any.
+ * @param senderId The user's unique identifier.
+ * @returns The pending page, or null if the last listing had no more pages or it has expired.
+ */
+export async function consumePendingTaskPage(senderId: string): Promise<PendingTaskPage | null> {
+    return consumeState<PendingTaskPage>(PENDING_TASK_PAGES_COLLECTION, senderId);
+}
+
+// --- INTENT FUNCTIONS ---
+
+/**
+ * Remembers what the user's last message was about, so an unclear follow-up ("make it Friday")
+ * can be routed like the message before it.
+ * @param senderId The user's unique identifier.
+ * @param intent The intent the message was routed to.
+ */
+export async function setLastIntent(senderId: string, intent: MessageIntent): Promise<void> {
+    await setDocument<ExpiringState<MessageIntent>>(LAST_INTENTS_COLLECTION, senderId, {
+        value: intent,
+        expiresAt: Date.now() + getPendingPromptTtlMs(),
+    });
+}
+
+/**
+ * Retrieves what the user's last message was about, without clearing it.
+ * @param senderId The user's unique identifier.
+ * @returns The last intent, or null if there is none or it has expired.
+ */
+export async function getLastIntent(senderId: string): Promise<MessageIntent | null> {
+    const state = await getDocument<ExpiringState<MessageIntent>>(LAST_INTENTS_COLLECTION, senderId);
+    return isAlive(state) ? state.value : null;
+}
+
+// --- MAINTENANCE FUNCTIONS ---
+
+/**
+ * Removes the expired chat histories, pending prompts and last intents, which are otherwise only
+ * discarded when their user writes again. Pending media is swept by `sweepExpiredPendingMedia`,
+ * as its files must be deleted too.
+ * @returns A promise resolving to the number of documents removed.
+ */
+export async function sweepExpiredConversationState(): Promise<number> {
+    let removed = 0;
+    for (const collection of [CHAT_HISTORIES_COLLECTION, PENDING_TASK_SELECTIONS_COLLECTION, PENDING_TASK_PAGES_COLLECTION, LAST_INTENTS_COLLECTION]) {
+        removed += await sweepExpiredDocuments<ExpiringState<unknown>>(collection, (state) => !isAlive(state));
+    }
+    return removed;
+}
@@ -0,0 +1,131 @@
+/**
+ * @file dates.ts
+ * @description This module centralizes calendar-date handling. Task due dates are plain calendar
+ * days ("YYYY-MM-DD"), so they are always computed in the user's time zone and never go through
+ * a UTC timestamp, which would shift them by a day for users far from UTC.
+ */
+
+import { DefaultDueDateRule } from '../types/chat';
+
+/**
+ * Returns the time zone used when nothing more specific is known about a user.
+ * It is read from `DEFAULT_TIMEZONE` (an IANA name such as "America/Sao_Paulo"), falling back
+ * to the server's own time zone.
+ * @returns An IANA time zone name.
+ */
+export function getDefaultTimeZone(): string {
+    return process.env.DEFAULT_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Checks whether a string is a valid IANA time zone name.
+ * @param timeZone The candidate time zone.
+ * @returns True if the runtime recognizes the time zone.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Checks whether a string is a real calendar date in "YYYY-MM-DD" format.
+ * @param isoDate The candidate date.
+ * @returns True if the string is well-formed and the date exists (e.g. not February 30th).
+ */
+export function isValidIsoDate(isoDate: string): boolean {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(isoDate)) return false;
+    const [year, month, day] = isoDate.split('-').map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Returns the calendar date of an instant, as seen in a given time zone.
+ * @param timeZone An IANA time zone name.
+ * @param now The instant to convert. Defaults to the current time.
+ * @returns The date in "YYYY-MM-DD" format.
+ */
+export function getTodayIsoDate(timeZone: string, now: Date = new Date()): string {
+    // The 'en-CA' locale formats dates as YYYY-MM-DD.
+    return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(now);
+}
+
+/**
+ * Returns the hour of the day of an instant, as seen in a given time zone.
+ * @param timeZone An IANA time zone name.
+ * @param now The instant to convert. Defaults to the current time.
+ * @returns The hour, from 0 to 23.
+ */
+export function getLocalHour(timeZone: string, now: Date = new Date()): number {
+    return Number(new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', hourCycle: 'h23' }).format(now));
+}
+
+/**
+ * Adds a number of days to a calendar date.
+ * @param isoDate The date in "YYYY-MM-DD" format.
+ * @param days The number of days to add (may be negative).
+ * @returns The resulting date in "YYYY-MM-DD" format.
+ */
+export function addDaysToIsoDate(isoDate: string, days: number): string {
+    const [year, month, day] = isoDate.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day + days)).toISOString().substring(0, 10);
+}
+
+/**
+ * Returns the day of the week of a calendar date.
+ * @param isoDate The date in "YYYY-MM-DD" format.
+ * @returns 0 for Sunday, 1 for Monday, ..., 6 for Saturday.
+ */
+export function getDayOfWeek(isoDate: string): number {
+    const [year, month, day] = isoDate.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Calculates the next business day (Monday-Friday) after today in the given time zone.
+ * @param timeZone An IANA time zone name.
+ * @param now The current instant. Defaults to the current time.
+ * @returns The date in "YYYY-MM-DD" format.
+ */
+export function getNextBusinessDay(timeZone: string, now: Date = new Date()): string {
+    const today = getTodayIsoDate(timeZone, now);
+    const dayOfWeek = getDayOfWeek(today); // Sunday = 0, Monday = 1, ..., Saturday = 6
+
+    if (dayOfWeek === 5) return addDaysToIsoDate(today, 3); // Friday -> Monday
+    if (dayOfWeek === 6) return addDaysToIsoDate(today, 2); // Saturday -> Monday
+    return addDaysToIsoDate(today, 1); // Sunday to Thursday -> Tomorrow
+}
+
+/**
+ * Formats a calendar date for display, including the day of the week (e.g. "Friday, 2026-03-06").
+ * @param isoDate The date in "YYYY-MM-DD" format.
+ * @returns The formatted date.
+ */
+export function formatIsoDate(isoDate: string): string {
+    const weekday = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][getDayOfWeek(isoDate)];
+    return `${weekday}, ${isoDate}`;
+}
+
+/**
+ * Computes the due date of a new task for which the user didn't mention one.
+ * @param rule The user's default due-date rule.
+ * @param timeZone An IANA time zone name.
+ * @param now The current instant. Defaults to the current time.
+ * @returns The date in "YYYY-MM-DD" format, or null if the task should have no due date.
+ */
+export function resolveDefaultDueDate(rule: DefaultDueDateRule, timeZone: string, now: Date = new Date()): string | null {
+    switch (rule) {
+        case 'today':
+            return getTodayIsoDate(timeZone, now);
+        case 'tomorrow':
+            return addDaysToIsoDate(getTodayIsoDate(timeZone, now), 1);
+        case 'next_business_day':
+            return getNextBusinessDay(timeZone, now);
+        case 'none':
+            return null;
+    }
+}
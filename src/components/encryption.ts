@@ -0,0 +1,153 @@
+/**
+ * @file encryption.ts
+ * @description This module provides envelope encryption for sensitive values kept in storage,
+ * such as users' Google OAuth tokens. Each value is encrypted with its own random data key
+ * (AES-256-GCM), and that data key is wrapped with a key-encryption key from configuration.
+ *
+ * Keys are configured with the `TOKEN_ENCRYPTION_KEYS` environment variable, a comma-separated
+ * list of `<keyId>:<base64 32-byte key>` entries. The first entry is the active key used for all
+ * new encryptions; the others are only used to decrypt values written before a key rotation.
+ */
+
+import crypto from 'crypto';
+import { EncryptedEnvelope } from '../types/storage';
+
+// --- CONSTANTS ---
+const CIPHER_ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH_BYTES = 32;
+const IV_LENGTH_BYTES = 12;
+const AUTH_TAG_LENGTH_BYTES = 16;
+
+/**
+ * The parsed key-encryption keys: the active key ID plus every known key, by ID.
+ */
+interface KeyRing {
+    /**
+     * The value of `TOKEN_ENCRYPTION_KEYS` the keys were parsed from.
+     */
+    source: string;
+    activeKeyId: string;
+    keys: Map<string, Buffer>;
+}
+
+let keyRing: KeyRing | null = null;
+
+/**
+ * Parses `TOKEN_ENCRYPTION_KEYS` on first use, and again whenever it has changed.
+ * @returns The key ring.
+ * @throws {Error} If the variable is missing or malformed.
+ */
+function getKeyRing(): KeyRing {
+    const source = process.env.TOKEN_ENCRYPTION_KEYS || '';
+    if (keyRing && keyRing.source === source) {
+        return keyRing;
+    }
+
+    const entries = source.split(',').map(entry => entry.trim()).filter(Boolean);
+    if (entries.length === 0) {
+        throw new Error('TOKEN_ENCRYPTION_KEYS is not configured.');
+    }
+
+    const keys = new Map<string, Buffer>();
+    for (const entry of entries) {
+        const separatorIndex = entry.indexOf(':');
+        const keyId = entry.slice(0, separatorIndex).trim();
+        const key = Buffer.from(entry.slice(separatorIndex + 1).trim(), 'base64');
+        if (separatorIndex <= 0 || key.length !== KEY_LENGTH_BYTES) {
+            throw new Error(`Invalid TOKEN_ENCRYPTION_KEYS entry "${keyId || entry.slice(0, 8)}...". Expected "<keyId>:<base64 ${KEY_LENGTH_BYTES}-byte key>".`);
+        }
+        if (keys.has(keyId)) {
+            throw new Error(`Duplicate key ID "${keyId}" in TOKEN_ENCRYPTION_KEYS.`);
+        }
+        keys.set(keyId, key);
+    }
+
+    keyRing = { source, activeKeyId: entries[0].split(':')[0].trim(), keys };
+    console.log(`encryption.ts: Loaded ${keys.size} key(s). Active key is "${keyRing.activeKeyId}".`);
+    return keyRing;
+}
+
+/**
+ * Encrypts a buffer with AES-256-GCM.
+ * @param key The 32-byte key.
+ * @param plaintext The data to encrypt.
+ * @param associatedData Data that isn't encrypted but must match at decryption time.
+ * @returns base64 of IV + auth tag + ciphertext.
+ */
+function seal(key: Buffer, plaintext: Buffer, associatedData: string): string {
+    const iv = crypto.randomBytes(IV_LENGTH_BYTES);
+    const cipher = crypto.createCipheriv(CIPHER_ALGORITHM, key, iv, { authTagLength: AUTH_TAG_LENGTH_BYTES });
+    cipher.setAAD(Buffer.from(associatedData, 'utf-8'));
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+/**
+ * Decrypts a value produced by `seal`.
+ * @throws {Error} If the data was tampered with or the key/associated data don't match.
+ */
+function unseal(key: Buffer, sealed: string, associatedData: string): Buffer {
+    const data = Buffer.from(sealed, 'base64');
+    const iv = data.subarray(0, IV_LENGTH_BYTES);
+    const authTag = data.subarray(IV_LENGTH_BYTES, IV_LENGTH_BYTES + AUTH_TAG_LENGTH_BYTES);
+    const ciphertext = data.subarray(IV_LENGTH_BYTES + AUTH_TAG_LENGTH_BYTES);
+    const decipher = crypto.createDecipheriv(CIPHER_ALGORITHM, key, iv, { authTagLength: AUTH_TAG_LENGTH_BYTES });
+    decipher.setAAD(Buffer.from(associatedData, 'utf-8'));
+    decipher.setAuthTag(authTag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+// --- PUBLIC FUNCTIONS ---
+
+/**
+ * Makes sure encryption keys are configured and valid, so misconfiguration fails at startup
+ * rather than on a user's first token save.
+ * @throws {Error} If `TOKEN_ENCRYPTION_KEYS` is missing or malformed.
+ */
+export function assertEncryptionConfigured(): void {
+    getKeyRing();
+}
+
+/**
+ * Envelope-encrypts a JSON-serializable value with the active key.
+ * @param value The value to encrypt.
+ * @param context A string the value is bound to (e.g. the document ID). Decryption with a
+ * different context fails, so an encrypted value can't be copied onto another document.
+ * @returns The encrypted envelope.
+ */
+export function encryptJson(value: unknown, context: string): EncryptedEnvelope {
+    const { activeKeyId, keys } = getKeyRing();
+    const dataKey = crypto.randomBytes(KEY_LENGTH_BYTES);
+    return {
+        version: 1,
+        keyId: activeKeyId,
+        wrappedKey: seal(keys.get(activeKeyId)!, dataKey, activeKeyId),
+        ciphertext: seal(dataKey, Buffer.from(JSON.stringify(value), 'utf-8'), context),
+    };
+}
+
+/**
+ * Decrypts an envelope produced by `encryptJson`.
+ * @param envelope The encrypted envelope.
+ * @param context The same context string that was used for encryption.
+ * @returns The decrypted value.
+ * @throws {Error} If the key is unknown or the envelope was tampered with.
+ */
+export function decryptJson<T>(envelope: EncryptedEnvelope, context: string): T {
+    const key = getKeyRing().keys.get(envelope.keyId);
+    if (!key) {
+        throw new Error(`Unknown encryption key "${envelope.keyId}". Was it removed from TOKEN_ENCRYPTION_KEYS too early?`);
+    }
+    const dataKey = unseal(key, envelope.wrappedKey, envelope.keyId);
+    return JSON.parse(unseal(dataKey, envelope.ciphertext, context).toString('utf-8'));
+}
+
+/**
+ * Checks whether an envelope was wrapped with a key other than the active one,
+ * meaning it should be re-encrypted to complete a key rotation.
+ * @param envelope The encrypted envelope.
+ * @returns True if the envelope should be re-encrypted.
+ */
+export function needsReEncryption(envelope: EncryptedEnvelope): boolean {
+    return envelope.keyId !== getKeyRing().activeKeyId;
+}
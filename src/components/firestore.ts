@@ -1,133 +1,95 @@
 /**
  * @file firestore.ts
- * @description This module centralizes all interactions with Google Cloud Firestore.
- * It provides a clean, reusable interface for other components to interact with the database
- * without needing to know the implementation details (collection names, etc.).
+ * @description This module implements the storage backend on top of Google Cloud Firestore.
+ * It is the production backend, used on Cloud Run where every instance shares the same database.
+ * Other components never use it directly; they go through `storage.ts`.
  */
 
 import { Firestore } from '@google-cloud/firestore';
-import { StoredToken, UserTokens } from '../types/chat';
+import { StorageBackend } from '../types/storage';
 
 // --- CONSTANTS ---
-const GOOGLE_TOKENS_COLLECTION = 'google-tokens';
-const RETURNING_USERS_COLLECTION = 'returning-users';
-
-// --- FIRESTORE INITIALIZATION ---
-// Initialize the Firestore client. The `databaseId` points to our specific database.
-const firestore = new Firestore({
-    databaseId: 'voicetasks-db',
-});
-console.log('firestore.ts: Firestore client initialized for database "voicetasks-db".');
+const DEFAULT_DATABASE_ID = 'voicetasks-db';
 
 /**
- * Removes properties with 'undefined' values from an object.
- * Firestore throws an error if you try to save 'undefined'.
- * @param obj The object to clean.
- * @returns A new object with 'undefined' properties removed.
+ * Removes properties with 'undefined' values from a document, at every level of nesting.
+ * Firestore throws an error if you try to save 'undefined', even deep inside a map, so this
+ * mirrors what the local backends get from their JSON copy: undefined properties are dropped
+ * and undefined array elements become null. Values that aren't plain objects or arrays
+ * (timestamps, field values, ...) are kept as they are.
+ * @param value The document, or a value inside it, to clean.
+ * @returns A copy of the value without 'undefined' properties.
  */
-function cleanupObject(obj: any): any {
+export function removeUndefinedProperties(value: any): any {
+    if (Array.isArray(value)) {
+        return value.map(item => (item === undefined ? null : removeUndefinedProperties(item)));
+    }
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype !== Object.prototype && prototype !== null) {
+        return value;
+    }
     const newObj: any = {};
-    for (const key in obj) {
-        if (obj[key] !== undefined) {
-            newObj[key] = obj[key];
+    for (const key in value) {
+        if (value[key] !== undefined) {
+            newObj[key] = removeUndefinedProperties(value[key]);
         }
     }
     return newObj;
 }
 
-// --- TOKEN MANAGEMENT FUNCTIONS ---
-
 /**
- * Saves a user's Google OAuth2 token to Firestore.
- * @param senderId The user's unique identifier.
- * @param token The StoredToken object to save.
+ * Creates a storage backend backed by Google Cloud Firestore.
+ * @param databaseId The Firestore database to use. Defaults to "voicetasks-db".
+ * @returns A StorageBackend that reads and writes Firestore documents.
  */
-export async function saveToken(senderId: string, token: StoredToken): Promise<void> {
-    console.log(`firestore.ts: Saving token for user [${senderId}] to Firestore.`);
-    try {
-        const docRef = firestore.collection(GOOGLE_TOKENS_COLLECTION).doc(senderId);
-        const cleanToken = cleanupObject(token);
-        await docRef.set(cleanToken);
-        console.log(`firestore.ts: Successfully saved token for user [${senderId}].`);
-    } catch (error) {
-        console.error(`firestore.ts: Error saving token for user [${senderId}].`, error);
-        throw error; // Re-throw to allow the caller to handle it.
-    }
-}
+export function createFirestoreBackend(databaseId: string = DEFAULT_DATABASE_ID): StorageBackend {
+    // Initialize the Firestore client. The `databaseId` points to our specific database.
+    const firestore = new Firestore({ databaseId });
+    console.log(`firestore.ts: Firestore client initialized for database "${databaseId}".`);
 
-/**
- * Loads a single user's token from Firestore.
- * @param senderId The user's identifier.
- * @returns The user's token object, or null if it's not found.
- */
-export async function loadToken(senderId: string): Promise<StoredToken | null> {
-    console.log(`firestore.ts: Fetching token for user [${senderId}] from Firestore.`);
-    try {
-        const docRef = firestore.collection(GOOGLE_TOKENS_COLLECTION).doc(senderId);
-        const doc = await docRef.get();
-        if (doc.exists) {
-            console.log(`firestore.ts: Found token for user [${senderId}].`);
-            return doc.data() as StoredToken;
-        }
-        console.log(`firestore.ts: No token found for user [${senderId}].`);
-        return null;
-    } catch (error) {
-        console.error(`firestore.ts: Error fetching token for user [${senderId}].`, error);
-        throw error;
-    }
-}
+    return {
+        name: `firestore (${databaseId})`,
 
-/**
- * Deletes a user's token from Firestore.
- * @param senderId The user's identifier.
- */
-export async function deleteToken(senderId: string): Promise<void> {
-    console.log(`firestore.ts: Deleting token for user [${senderId}] from Firestore.`);
-    try {
-        const docRef = firestore.collection(GOOGLE_TOKENS_COLLECTION).doc(senderId);
-        await docRef.delete();
-        console.log(`firestore.ts: Successfully deleted token for user [${senderId}].`);
-    } catch (error) {
-        console.error(`firestore.ts: Error deleting token for user [${senderId}].`, error);
-        throw error;
-    }
-}
+        async getDocument<T>(collection: string, docId: string): Promise<T | null> {
+            const doc = await firestore.collection(collection).doc(docId).get();
+            return doc.exists ? (doc.data() as T) : null;
+        },
 
-// --- USER MANAGEMENT FUNCTIONS ---
+        async setDocument<T extends object>(collection: string, docId: string, data: T): Promise<void> {
+            await firestore.collection(collection).doc(docId).set(removeUndefinedProperties(data));
+        },
 
-/**
- * Checks if a user exists in the 'returning-users' collection in Firestore.
- * This is used to identify new vs. returning users.
- * @param senderId The unique ID of the user.
- * @returns A boolean indicating if the user is a returning user.
- */
-export async function isReturningUser(senderId: string): Promise<boolean> {
-    try {
-        const userDocRef = firestore.collection(RETURNING_USERS_COLLECTION).doc(senderId);
-        const doc = await userDocRef.get();
-        return doc.exists;
-    } catch (error) {
-        // If the database check fails, we conservatively assume it's a new user
-        // to avoid blocking the welcome message flow.
-        console.error(`firestore.ts: Error checking for returning user [${senderId}]. Assuming new user.`, error);
-        return false;
-    }
-}
+        async deleteDocument(collection: string, docId: string): Promise<void> {
+            await firestore.collection(collection).doc(docId).delete();
+        },
 
-/**
- * Adds a new user's ID to the 'returning-users' collection in Firestore.
- * This is typically called on a user's first interaction.
- * @param senderId The unique ID of the new user to add.
- */
-export async function addNewUser(senderId: string): Promise<void> {
-    try {
-        const userDocRef = firestore.collection(RETURNING_USERS_COLLECTION).doc(senderId);
-        // We use .set() with a timestamp. The existence of the document is what matters for
-        // the isReturningUser check, but storing the join date could be useful later.
-        await userDocRef.set({ joinedAt: new Date().toISOString() });
-        console.log(`firestore.ts: Successfully added new user [${senderId}] to collection '${RETURNING_USERS_COLLECTION}'.`);
-    } catch (error) {
-        console.error(`firestore.ts: Failed to add new user [${senderId}] to Firestore.`, error);
-        throw error;
-    }
-} 
\ No newline at end of file
+        async updateDocument<T extends object>(
+            collection: string,
+            docId: string,
+            updater: (current: T | null) => T | null
+        ): Promise<T | null> {
+            // A Firestore transaction guarantees that concurrent writers (e.g. several Cloud Run
+            // instances) never overwrite each other's changes. The updater may be retried.
+            const docRef = firestore.collection(collection).doc(docId);
+            return firestore.runTransaction(async (transaction) => {
+                const doc = await transaction.get(docRef);
+                const current = doc.exists ? (doc.data() as T) : null;
+                const next = updater(current);
+                if (next === null) {
+                    if (doc.exists) transaction.delete(docRef);
+                } else {
+                    transaction.set(docRef, removeUndefinedProperties(next));
+                }
+                return current;
+            });
+        },
+
+        async listDocumentIds(collection: string): Promise<string[]> {
+            const docRefs = await firestore.collection(collection).listDocuments();
+            return docRefs.map(docRef => docRef.id);
+        },
+    };
+}
@@ -3,12 +3,35 @@
  * @description This module centralizes all Google authentication and token management.
  * It provides a clean interface for other components to get an authenticated OAuth2 client
  * without needing to know the details of the OAuth2 flow or token storage.
- * It uses Firestore for all token persistence.
+ * It uses the configured storage backend (see `storage.ts`) for all token persistence.
  */
 
-import { OAuth2Client } from 'google-auth-library';
-import { StoredToken } from '../types/chat';
-import { saveToken, deleteToken, loadToken } from './firestore';
+import crypto from 'crypto';
+import { OAuth2Client, CodeChallengeMethod } from 'google-auth-library';
+import { StoredToken, OAuthStateRecord } from '../types/chat';
+import { saveToken, deleteToken, loadToken, getDocument, setDocument, deleteDocument, updateDocument, sweepExpiredDocuments } from './storage';
+
+// --- CONSTANTS ---
+const OAUTH_STATES_COLLECTION = 'oauth-states';
+const OAUTH_STATE_TTL_MS = 15 * 60 * 1000; // Connection links are valid for 15 minutes.
+
+/**
+ * The reasons an OAuth 'state' token can be rejected.
+ * - `invalid`: the token is malformed, forged, or unknown.
+ * - `expired`: the token was genuine but is too old.
+ * - `used`: the token was genuine but has already completed a callback.
+ */
+export type AuthStateFailureReason = 'invalid' | 'expired' | 'used';
+
+/**
+ * Thrown when an OAuth 'state' token cannot be accepted, so the caller can show a specific message.
+ */
+export class AuthStateError extends Error {
+    constructor(public readonly reason: AuthStateFailureReason) {
+        super(`The Google authentication link is ${reason}.`);
+        this.name = 'AuthStateError';
+    }
+}
 
 /**
  * Creates and configures an OAuth2Client instance using environment variables.
@@ -26,41 +49,137 @@ function getOAuthClient(): OAuth2Client {
     return new OAuth2Client(GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET, GOOGLE_REDIRECT_URI);
 }
 
+// --- OAUTH STATE FUNCTIONS ---
+
+/**
+ * Computes the HMAC signature of a state nonce. The key is `OAUTH_STATE_SECRET`, falling back
+ * to the OAuth client secret, which is equally private to the server.
+ * @param nonce The random nonce identifying a stored OAuthStateRecord.
+ * @returns The base64url-encoded signature.
+ */
+function signStateNonce(nonce: string): string {
+    const key = process.env.OAUTH_STATE_SECRET || process.env.GOOGLE_CLIENT_SECRET;
+    if (!key) {
+        throw new Error("No key available to sign OAuth state. Set OAUTH_STATE_SECRET.");
+    }
+    return crypto.createHmac('sha256', key).update(nonce).digest('base64url');
+}
+
+/**
+ * Checks the signature of a state token and extracts its nonce.
+ * @param stateToken The token, in the form `<nonce>.<signature>`.
+ * @returns The nonce.
+ * @throws {AuthStateError} If the token is malformed or its signature doesn't match.
+ */
+function verifyStateToken(stateToken: string): string {
+    const [nonce, signature, ...rest] = stateToken.split('.');
+    if (!nonce || !signature || rest.length > 0) {
+        throw new AuthStateError('invalid');
+    }
+    const expected = Buffer.from(signStateNonce(nonce));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+        throw new AuthStateError('invalid');
+    }
+    return nonce;
+}
+
+/**
+ * Ensures a stored state record can still be used.
+ * @param record The stored record, or null if none was found.
+ * @returns The same record, narrowed to non-null.
+ * @throws {AuthStateError} If the record is missing, already used, or expired.
+ */
+function assertUsableState(record: OAuthStateRecord | null): OAuthStateRecord {
+    if (!record) throw new AuthStateError('invalid');
+    if (record.usedAt) throw new AuthStateError('used');
+    if (record.expiresAt <= Date.now()) throw new AuthStateError('expired');
+    return record;
+}
+
+/**
+ * Starts a new authorization flow for a user. This must only be called in response to the user's
+ * own `/connect_google_tasks` command, since whoever completes the flow is linked to this senderId.
+ * @param senderId The user's unique identifier.
+ * @returns A signed, single-use, expiring token to be passed as the 'state' of the flow.
+ */
+export async function createAuthState(senderId: string): Promise<string> {
+    const nonce = crypto.randomBytes(24).toString('base64url');
+    const record: OAuthStateRecord = {
+        senderId,
+        codeVerifier: crypto.randomBytes(48).toString('base64url'),
+        expiresAt: Date.now() + OAUTH_STATE_TTL_MS,
+    };
+    await setDocument(OAUTH_STATES_COLLECTION, nonce, record);
+    console.log(`gauth.ts: Created OAuth state for [${senderId}].`);
+    return `${nonce}.${signStateNonce(nonce)}`;
+}
+
+/**
+ * Removes the state of connection links that expired without completing the flow, e.g. because
+ * they were never opened.
+ * @returns A promise resolving to the number of states removed.
+ */
+export async function sweepExpiredAuthStates(): Promise<number> {
+    const now = Date.now();
+    return sweepExpiredDocuments<OAuthStateRecord>(OAUTH_STATES_COLLECTION, record => record.expiresAt <= now);
+}
+
 // --- PUBLIC AUTHENTICATION FUNCTIONS ---
 
 /**
  * Generates the Google authentication URL for the user to visit.
- * @param senderId The user's unique identifier, used as the 'state' parameter for security.
+ * @param stateToken A token created by `createAuthState`, which ties the flow to the requesting user.
  * @returns The generated authentication URL.
+ * @throws {AuthStateError} If the state token is invalid, expired, or already used.
  */
-export function initiateGoogleAuth(senderId: string): string {
+export async function initiateGoogleAuth(stateToken: string): Promise<string> {
+    const nonce = verifyStateToken(stateToken);
+    const record = assertUsableState(await getDocument<OAuthStateRecord>(OAUTH_STATES_COLLECTION, nonce));
+
     const oauth2Client = getOAuthClient();
     const scopes = [
         'https://www.googleapis.com/auth/tasks' // Scope for Google Tasks API
     ];
     
-    // The 'state' parameter is crucial for linking the auth flow back to the correct user.
+    // The 'state' parameter links the auth flow back to the correct user, and PKCE binds the
+    // authorization code to this flow so an intercepted code is useless on its own.
     const url = oauth2Client.generateAuthUrl({
         access_type: 'offline', // Required to get a refresh_token
         scope: scopes,
-        state: senderId,
+        state: stateToken,
         prompt: 'consent',      // Ensures the user is prompted for consent every time
+        code_challenge: crypto.createHash('sha256').update(record.codeVerifier).digest('base64url'),
+        code_challenge_method: CodeChallengeMethod.S256,
     });
     
-    console.log(`gauth.ts: Generated Auth URL for [${senderId}].`);
+    console.log(`gauth.ts: Generated Auth URL for [${record.senderId}].`);
     return url;
 }
 
 /**
  * Handles the callback from Google after the user grants permission.
- * It exchanges the authorization code for tokens and saves them to Firestore.
+ * It consumes the state token, exchanges the authorization code for tokens and saves them to storage.
  * @param code The authorization code from Google.
- * @param senderId The user's identifier from the 'state' parameter.
+ * @param stateToken The 'state' parameter returned by Google.
+ * @returns A promise resolving to the senderId of the user who started the flow.
+ * @throws {AuthStateError} If the state token is invalid, expired, or already used.
  */
-export async function handleGoogleAuthCallback(code: string, senderId: string): Promise<void> {
+export async function handleGoogleAuthCallback(code: string, stateToken: string): Promise<string> {
+    const nonce = verifyStateToken(stateToken);
+
+    // Mark the state as used in the same transaction that reads it, so it can only succeed once.
+    const previous = await updateDocument<OAuthStateRecord>(OAUTH_STATES_COLLECTION, nonce, (current) =>
+        current && !current.usedAt ? { ...current, usedAt: Date.now() } : current
+    );
+    if (previous && !previous.usedAt && previous.expiresAt <= Date.now()) {
+        await deleteDocument(OAUTH_STATES_COLLECTION, nonce).catch(() => {});
+    }
+    const { senderId, codeVerifier } = assertUsableState(previous);
+
     const oauth2Client = getOAuthClient();
     try {
-        const { tokens } = await oauth2Client.getToken(code);
+        const { tokens } = await oauth2Client.getToken({ code, codeVerifier });
         oauth2Client.setCredentials(tokens);
 
         if (!tokens.access_token || !tokens.expiry_date) {
@@ -79,7 +198,10 @@ export async function handleGoogleAuthCallback(code: string, senderId: string):
         };
 
         await saveToken(senderId, tokenToStore);
-        
+        // The record has served its purpose; a replay of the callback is rejected without it.
+        await deleteDocument(OAUTH_STATES_COLLECTION, nonce).catch(error =>
+            console.error(`gauth.ts: Error deleting the OAuth state of [${senderId}].`, error));
+        return senderId;
     } catch (error) {
         console.error(`gauth.ts: Error exchanging auth code for tokens for [${senderId}]:`, error);
         throw new Error(`Failed to get Google access token for [${senderId}].`);
@@ -137,7 +259,7 @@ export async function getAuthenticatedClient(senderId: string): Promise<OAuth2Cl
 // --- USER STATUS FUNCTIONS ---
 
 /**
- * Checks if a user is authenticated by verifying the existence of a refresh token in Firestore.
+ * Checks if a user is authenticated by verifying the existence of a stored refresh token.
  * @param senderId The user's identifier.
  * @returns A promise resolving to true if the user is authenticated, otherwise false.
  */
@@ -160,7 +282,7 @@ export async function getAuthStatus(senderId: string): Promise<string> {
 }
 
 /**
- * Deletes a user's token from Firestore, effectively disconnecting them.
+ * Deletes a user's stored token, effectively disconnecting them.
  * @param senderId The user's identifier.
  * @returns A promise resolving to true if a token was found and deleted, false otherwise.
  */
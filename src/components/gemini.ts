@@ -2,57 +2,174 @@
  * @file gemini.ts
  * @description This module encapsulates all interactions with the Google Gemini API.
  * It provides functions to handle text-only chats and multimodal chats (text with media),
- * manage conversation history, and conditionally apply system instructions.
+ * manage conversation history, and conditionally apply system instructions and the user's preferences.
+ * The history is kept within a token budget by folding its oldest turns into a rolling summary, and
+ * media it references is replaced with a note once the Gemini Files API has deleted it.
+ * Task requests run with the task functions declared in `tools.ts`: the calls the model makes are
+ * handed to an executor, and their results are sent back for the model to write the final reply.
+ * It also asks Gemini to break ties when matching a user's words to one of their tasks, and to
+ * classify what a message is about. The tokens of every response count against the user's daily quota.
  */
 
-import { GoogleGenAI, createPartFromUri, Part } from "@google/genai";
-import { ChatHistoryItem, ChatHistories, ChatMessagePart } from "../types/chat";
-import { systemInstruction } from "./prompts";
+import { GoogleGenAI, GenerateContentResponse, createPartFromUri, Part } from "@google/genai";
+import { ChatHistoryItem, ChatMemory, ChatMessagePart, FileDataSource, IntentClassification, MessageIntent } from "../types/chat";
+import {
+    buildSystemInstruction, buildLanguageInstruction, buildTaskMatchingPrompt, TASK_MATCHING_INSTRUCTION,
+    buildIntentClassificationPrompt, INTENT_CLASSIFICATION_INSTRUCTION,
+    buildHistorySummaryPrompt, buildConversationSummaryInstruction, HISTORY_SUMMARY_INSTRUCTION, UNAVAILABLE_MEDIA_NOTE,
+} from "./prompts";
+import { getUserPreferences } from "./preferences";
+import { getChatMemory, appendChatTurn, foldChatTurns } from "./chatstate";
+import { TASK_TOOL_DECLARATIONS } from "./tools";
+import { recordUsage } from "./quotas";
+
+const GEMINI_MODEL = "gemini-2.5-flash";
+const LIGHTWEIGHT_MODEL = "gemini-2.5-flash-lite"; // A cheaper model is enough to route messages and summarize history.
+const MAX_TOOL_ROUNDS = 5; // The most rounds of function calls answered before the model must reply.
+
+// The chat history sent with each request is kept within a token budget. Past it, the oldest turns
+// are folded into a rolling summary until the history is down to the given share of the budget.
+const getHistoryTokenBudget = () => Number(process.env.CHAT_HISTORY_TOKEN_BUDGET) || 8000;
+const HISTORY_FOLD_TARGET = 0.5;
+const CHARS_PER_TOKEN = 4; // A rough estimate for text; it errs on the side of folding early.
+const FILE_PART_TOKENS = 1000; // A rough allowance for a media file; the real cost depends on its length.
+const UPLOADED_FILE_TTL_MS = 48 * 60 * 60 * 1000; // How long the Gemini Files API keeps uploaded files.
+
+/**
+ * Executes a task function call made by the model and returns its result, which is sent back to
+ * the model so it can write the reply to the user. The outcome for the user is given as text in
+ * `reply` (or `error`), which is relayed as it is if the model can't be reached afterwards.
+ */
+export type TaskToolExecutor = (name: string, args: Record<string, unknown>) => Promise<Record<string, unknown>>;
 
 /**
  * Defines the standardized response structure from Gemini interactions.
  */
+export interface GeminiChatResponse {
+    responseText: string;
+    googleSearchUsed: boolean;
+    /**
+     * Whether the model called any task function while producing the response.
+     */
+    taskToolsUsed: boolean;
+}
+
+/**
+ * Defines the result of the core chat interaction with the Gemini API.
+ */
 interface GeminiChatInteractionResult {
     modelResponseText: string;
     googleSearchUsed: boolean;
+    taskToolsUsed: boolean;
+}
+
+/**
+ * A private helper that counts the tokens of a response against the user's daily quota.
+ * @param senderId The user's unique identifier.
+ * @param response The response from Gemini.
+ */
+async function recordTokenUsage(senderId: string, response: GenerateContentResponse): Promise<void> {
+    await recordUsage(senderId, 'tokens', response.usageMetadata?.totalTokenCount || 0);
 }
 
 /**
  * A private helper function to perform the core chat interaction with the Gemini API.
+ * When a task tool executor is given, the task functions are declared to the model, and every call
+ * it makes is executed and answered until it replies with text.
  * @param aiClient The initialized GoogleGenAI client.
  * @param senderId A unique identifier for the user, used for logging.
- * @param currentHistoryForUser The user's current chat history.
+ * @param memory What the bot remembers of the conversation: the recent turns and the summary of older ones.
  * @param messageContentToSend The content to send (string for text, Part[] for multimodal).
  * @param userHistoryPartsToLog The representation of the user's message to be saved in history.
  * @param useSystemInstruction A flag to control whether to use the main system instruction.
+ * The user's language preference applies either way.
+ * @param taskToolExecutor Executes the model's task function calls, or undefined to declare no task functions.
  * @returns A promise resolving to a GeminiChatInteractionResult.
  */
 async function _performGeminiChatInteraction(
     aiClient: GoogleGenAI,
     senderId: string, 
-    currentHistoryForUser: ChatHistoryItem[],
+    memory: ChatMemory,
     messageContentToSend: string | Part[],
     userHistoryPartsToLog: ChatMessagePart[],
-    useSystemInstruction: boolean = true
+    useSystemInstruction: boolean = true,
+    taskToolExecutor?: TaskToolExecutor
 ): Promise<GeminiChatInteractionResult> {
-    console.log(`gemini.ts_internal: Starting a new chat session for [${senderId}] with model gemini-2.5-flash.`);
+    console.log(`gemini.ts_internal: Starting a new chat session for [${senderId}] with model ${GEMINI_MODEL}.`);
     
+    const preferences = await getUserPreferences(senderId);
     const config: any = {
-        tools: [{ googleSearch: {} }],
+        // Google Search can't be combined with function declarations, so task requests go without it.
+        tools: taskToolExecutor
+            ? [{ functionDeclarations: TASK_TOOL_DECLARATIONS }]
+            : preferences.googleSearchEnabled ? [{ googleSearch: {} }] : [],
     };
 
+    const instructions: string[] = [];
     if (useSystemInstruction) {
-        config.systemInstruction = systemInstruction;
+        instructions.push(buildSystemInstruction(preferences));
+    } else if (preferences.locale) {
+        instructions.push(buildLanguageInstruction(preferences.locale));
+    }
+    if (memory.summary) {
+        instructions.push(buildConversationSummaryInstruction(memory.summary));
+    }
+    if (instructions.length > 0) {
+        config.systemInstruction = instructions.join('\n\n');
     }
 
-    const chat = aiClient.chats.create({
-        model: "gemini-2.5-flash",
-        history: currentHistoryForUser,
+    const startChat = (history: ChatHistoryItem[]) => aiClient.chats.create({
+        model: GEMINI_MODEL,
+        history,
         config: config,
     });
+    let chat = startChat(toRequestHistory(memory.turns));
 
     console.log(`gemini.ts_internal: Sending message to Gemini for [${senderId}]. Content type: ${typeof messageContentToSend === 'string' ? 'text' : 'multimodal'}`);
-    const response = await chat.sendMessage({ message: messageContentToSend });
+    let response;
+    try {
+        response = await chat.sendMessage({ message: messageContentToSend });
+        await recordTokenUsage(senderId, response);
+    } catch (error) {
+        // A file in the history may be gone without us knowing (e.g. uploaded before expiries were
+        // recorded, or deleted elsewhere). The conversation carries on without the history's media.
+        if (!memory.turns.some(item => item.parts.some(part => part.fileData))) {
+            throw error;
+        }
+        console.warn(`gemini.ts_internal: Request failed for [${senderId}]; retrying without the media in the history.`, error);
+        chat = startChat(toRequestHistory(memory.turns, true));
+        response = await chat.sendMessage({ message: messageContentToSend });
+        await recordTokenUsage(senderId, response);
+    }
+
+    let taskToolsUsed = false;
+    const toolOutcomes: string[] = [];
+    for (let round = 0; taskToolExecutor && response.functionCalls?.length; round++) {
+        if (round === MAX_TOOL_ROUNDS) {
+            console.warn(`gemini.ts_internal: Gemini kept calling functions after ${MAX_TOOL_ROUNDS} rounds for [${senderId}]. Giving up.`);
+            break;
+        }
+        taskToolsUsed = true;
+        const functionResponses: Part[] = [];
+        for (const call of response.functionCalls) {
+            const name = call.name || '';
+            console.log(`gemini.ts_internal: Gemini called ${name} for [${senderId}].`);
+            const result = await taskToolExecutor(name, call.args || {});
+            functionResponses.push({ functionResponse: { id: call.id, name, response: result } });
+            const outcome = result.reply ?? result.error;
+            if (typeof outcome === 'string' && outcome) toolOutcomes.push(outcome);
+        }
+        try {
+            response = await chat.sendMessage({ message: functionResponses });
+        } catch (error) {
+            // The calls already changed the user's tasks, so the user is told what was done rather than
+            // that their message failed (which would invite them to send it, and run the calls, again).
+            if (toolOutcomes.length === 0) throw error;
+            console.error(`gemini.ts_internal: Error sending the function results to Gemini for [${senderId}]. Replying with the results instead.`, error);
+            return { modelResponseText: toolOutcomes.join('\n\n'), googleSearchUsed: false, taskToolsUsed };
+        }
+        await recordTokenUsage(senderId, response);
+    }
 
     const modelResponseText = response.text ? response.text.trim() : '';
     let googleSearchUsed = false;
@@ -70,186 +187,362 @@ async function _performGeminiChatInteraction(
         console.warn(`gemini.ts_internal: Gemini API returned empty text for [${senderId}].`);
     }
 
-    return { modelResponseText, googleSearchUsed };
+    return { modelResponseText, googleSearchUsed, taskToolsUsed };
+}
+
+// --- HISTORY MANAGEMENT ---
+
+/**
+ * A private helper that turns the stored history into the history sent with a request. Media the
+ * Gemini Files API has deleted can't be referenced anymore, so each such file is replaced with a
+ * note saying what it was; the rest of the conversation is kept.
+ * @param turns The stored history turns.
+ * @param withoutMedia Whether to replace every file, expired or not.
+ * @returns The history to send.
+ */
+function toRequestHistory(turns: ChatHistoryItem[], withoutMedia: boolean = false): ChatHistoryItem[] {
+    const now = Date.now();
+    return turns.map(item => ({
+        role: item.role,
+        parts: item.parts.map((part): ChatMessagePart => {
+            if (!part.fileData) {
+                return { text: part.text };
+            }
+            const { fileUri, mimeType, expiresAt } = part.fileData;
+            return withoutMedia || (expiresAt !== undefined && expiresAt <= now)
+                ? { text: UNAVAILABLE_MEDIA_NOTE(mimeType) }
+                : { fileData: { fileUri, mimeType } };
+        }),
+    }));
+}
+
+/**
+ * A private helper that estimates how many tokens some history turns take up in a request.
+ * @param turns The history turns.
+ * @returns The estimated number of tokens.
+ */
+function estimateTokens(turns: ChatHistoryItem[]): number {
+    return turns.reduce((total, item) => total + item.parts.reduce(
+        (sum, part) => sum + (part.text !== undefined ? Math.ceil(part.text.length / CHARS_PER_TOKEN) : FILE_PART_TOKENS), 0), 0);
+}
+
+/**
+ * A private helper that asks Gemini to fold some turns into the rolling summary of a conversation.
+ * @param aiClient The initialized GoogleGenAI client.
+ * @param senderId The user's unique identifier.
+ * @param previousSummary The current summary, or null if there is none yet.
+ * @param turns The turns to fold, oldest first.
+ * @returns A promise resolving to the new summary, or null if Gemini returned none.
+ */
+async function summarizeTurns(aiClient: GoogleGenAI, senderId: string, previousSummary: string | null, turns: ChatHistoryItem[]): Promise<string | null> {
+    const response = await aiClient.models.generateContent({
+        model: LIGHTWEIGHT_MODEL,
+        contents: buildHistorySummaryPrompt(previousSummary, turns),
+        config: { systemInstruction: HISTORY_SUMMARY_INSTRUCTION },
+    });
+    await recordTokenUsage(senderId, response);
+    return response.text?.trim() || null;
+}
+
+/**
+ * Keeps a user's chat history within its token budget. When the history is over budget, its oldest
+ * exchanges are folded into the rolling summary until it is down to a share of the budget; the latest
+ * exchange is always kept verbatim. Failures are logged and leave the history as it was.
+ * @param aiClient The initialized GoogleGenAI client.
+ * @param senderId The user's unique identifier.
+ */
+async function enforceHistoryBudget(aiClient: GoogleGenAI, senderId: string): Promise<void> {
+    const budget = getHistoryTokenBudget();
+    const memory = await getChatMemory(senderId);
+    if (estimateTokens(memory.turns) <= budget) {
+        return;
+    }
+
+    // Fold whole exchanges (a user turn and the model's reply), so the history still starts with the user.
+    let foldedCount = 0;
+    while (foldedCount < memory.turns.length - 2 && estimateTokens(memory.turns.slice(foldedCount)) > budget * HISTORY_FOLD_TARGET) {
+        foldedCount += 2;
+    }
+    const foldedTurns = memory.turns.slice(0, foldedCount);
+    if (foldedTurns.length === 0) {
+        return;
+    }
+
+    try {
+        const summary = await summarizeTurns(aiClient, senderId, memory.summary, foldedTurns);
+        if (!summary) {
+            console.warn(`gemini.ts: Gemini returned an empty summary for [${senderId}]. Keeping the full history.`);
+            return;
+        }
+        const folded = await foldChatTurns(senderId, foldedTurns, summary);
+        console.log(`gemini.ts: ${folded ? `Folded ${foldedTurns.length} turns into the summary` : 'Skipped a fold of a history that changed meanwhile'} for [${senderId}].`);
+        if (folded) {
+            // The summary replaces the folded turns, so the files they referenced are no longer needed.
+            await deleteGeminiFiles(aiClient, senderId, foldedTurns.flatMap(item => item.parts.flatMap(part => (part.fileData ? [part.fileData] : []))));
+        }
+    } catch (error) {
+        console.error(`gemini.ts: Error summarizing the chat history for [${senderId}]:`, error);
+    }
+}
+
+/**
+ * A private helper that saves a user/model exchange to the chat history and keeps the history
+ * within its token budget.
+ * @param aiClient The initialized GoogleGenAI client.
+ * @param senderId The user's unique identifier.
+ * @param userParts The parts of the user's message, as they should be remembered.
+ * @param modelResponseText The model's reply.
+ */
+async function rememberChatTurn(aiClient: GoogleGenAI, senderId: string, userParts: ChatMessagePart[], modelResponseText: string): Promise<void> {
+    await appendChatTurn(senderId, userParts, modelResponseText);
+    await enforceHistoryBudget(aiClient, senderId);
 }
 
 /**
  * Generates a text-based chat response from Gemini and updates the conversation history.
+ * Only the final reply is kept in the history; the function calls made on the way are not.
  * @param aiClient The initialized GoogleGenAI client.
  * @param senderId The unique identifier for the user.
  * @param newUserMessage The new text message from the user.
- * @param chatHistories A record of all user chat histories.
  * @param useSystemInstruction A flag to control whether to use system instructions.
+ * @param taskToolExecutor Executes the model's task function calls, or undefined for plain chat.
  * @returns A promise that resolves to the standardized response object.
  */
 export async function generateGeminiChatResponse(
     aiClient: GoogleGenAI,
     senderId: string,
     newUserMessage: string,
-    chatHistories: ChatHistories,
-    useSystemInstruction: boolean
-): Promise<{responseText: string, googleSearchUsed: boolean}> {
+    useSystemInstruction: boolean,
+    taskToolExecutor?: TaskToolExecutor
+): Promise<GeminiChatResponse> {
     console.log(`gemini.ts: New text message from user [${senderId}]: "${newUserMessage}"`);
-    const currentHistory: ChatHistoryItem[] = chatHistories[senderId] || [];
+    const memory = await getChatMemory(senderId);
 
     try {
         const userHistoryParts: ChatMessagePart[] = [{ text: newUserMessage }];
         
-        const { modelResponseText, googleSearchUsed } = await _performGeminiChatInteraction(
+        const { modelResponseText, googleSearchUsed, taskToolsUsed } = await _performGeminiChatInteraction(
             aiClient,
             senderId,
-            currentHistory,
+            memory,
             newUserMessage,
             userHistoryParts,
-            useSystemInstruction
+            useSystemInstruction,
+            taskToolExecutor
         );
 
         if (modelResponseText) {
-            currentHistory.push({ role: "user", parts: userHistoryParts });
-            currentHistory.push({ role: "model", parts: [{ text: modelResponseText }] });
-            chatHistories[senderId] = currentHistory;
+            await rememberChatTurn(aiClient, senderId, userHistoryParts, modelResponseText);
         }
 
-        return { responseText: modelResponseText, googleSearchUsed };
+        return { responseText: modelResponseText, googleSearchUsed, taskToolsUsed };
 
     } catch (error) {
         console.error(`gemini.ts: Error in generateGeminiChatResponse for [${senderId}]:`, error);
-        return { responseText: "Sorry, I encountered an error while processing your message. Please try again.", googleSearchUsed: false };
+        return { responseText: "Sorry, I encountered an error while processing your message. Please try again.", googleSearchUsed: false, taskToolsUsed: false };
     }
 }
 
 /**
- * A generic, private function to process any media file with Gemini.
- * It uploads the file, sends it to the model with a prompt, and updates chat history.
- * @param mediaType A string descriptor for the media type (e.g., "Audio", "Image") for logging.
+ * Uploads a local media file to the Gemini Files API.
+ * Once uploaded, the file can be referenced by its URI from any instance of the service.
  * @param aiClient The initialized GoogleGenAI client.
- * @param senderId The user's unique identifier.
+ * @param senderId The user's unique identifier, used for logging.
  * @param filePath The local path to the media file.
  * @param mimeType The MIME type of the media file.
+ * @returns A promise that resolves to the URI and MIME type of the uploaded file.
+ * @throws {Error} If the upload fails or returns an incomplete response.
+ */
+export async function uploadMediaToGemini(
+    aiClient: GoogleGenAI,
+    senderId: string,
+    filePath: string,
+    mimeType: string
+): Promise<FileDataSource> {
+    console.log(`gemini.ts: Uploading media for [${senderId}]. File: ${filePath}, Type: ${mimeType}`);
+    const uploadedFile = await aiClient.files.upload({
+        file: filePath,
+        config: { mimeType: mimeType },
+    });
+
+    if (!uploadedFile.uri || !uploadedFile.mimeType) {
+        throw new Error(`Invalid file upload response for [${senderId}].`);
+    }
+
+    // Gemini deletes uploaded files after 48 hours, unless told otherwise.
+    const expiresAt = uploadedFile.expirationTime ? Date.parse(uploadedFile.expirationTime) : Date.now() + UPLOADED_FILE_TTL_MS;
+    return { fileUri: uploadedFile.uri, mimeType: uploadedFile.mimeType, expiresAt };
+}
+
+/**
+ * Deletes uploaded media files from the Gemini Files API once they are no longer needed. Files that
+ * are already gone are skipped; failures are logged, as Gemini deletes every file eventually anyway.
+ * @param aiClient The initialized GoogleGenAI client.
+ * @param senderId The user's unique identifier, used for logging.
+ * @param files The files to delete.
+ * @returns A promise that resolves to the number of files deleted.
+ */
+export async function deleteGeminiFiles(aiClient: GoogleGenAI, senderId: string, files: FileDataSource[]): Promise<number> {
+    let deleted = 0;
+    for (const file of files) {
+        if (file.expiresAt !== undefined && file.expiresAt <= Date.now()) {
+            continue;
+        }
+        try {
+            await aiClient.files.delete({ name: file.fileUri });
+            deleted++;
+        } catch (error: any) {
+            if (error?.status !== 403 && error?.status !== 404) {
+                console.error(`gemini.ts: Error deleting the uploaded file ${file.fileUri} of [${senderId}]:`, error);
+            }
+        }
+    }
+    if (deleted > 0) {
+        console.log(`gemini.ts: Deleted ${deleted} uploaded file(s) of [${senderId}].`);
+    }
+    return deleted;
+}
+
+/**
+ * A private helper that names the media a user sent, for logs and error messages.
+ * @param files The media files.
+ * @returns "audio", "image", "video" or "document" for a single file, or "files" for several.
+ */
+function describeMedia(files: FileDataSource[]): string {
+    if (files.length !== 1) {
+        return 'files';
+    }
+    const [category] = files[0].mimeType.split('/');
+    return ['audio', 'image', 'video'].includes(category) ? category : 'document';
+}
+
+/**
+ * Processes one or more uploaded media files with Gemini. The files (e.g. several photos of a
+ * whiteboard, or a voice note and a screenshot) are sent together with the prompt as a single
+ * multimodal turn, and the chat history is updated.
+ * @param aiClient The initialized GoogleGenAI client.
+ * @param senderId The user's unique identifier.
+ * @param files The media files, already uploaded with `uploadMediaToGemini`, in the order they were sent.
  * @param textPrompt The text prompt to accompany the media.
- * @param chatHistories The collection of all user chat histories.
  * @param useSystemInstruction A flag to control whether to use system instructions.
+ * @param taskToolExecutor Executes the model's task function calls, or undefined for plain chat.
  * @returns A promise that resolves to the standardized response object.
  */
-async function _processMediaWithGemini(
-    mediaType: 'Audio' | 'Image' | 'Video' | 'Document',
+export async function processMediaWithGemini(
     aiClient: GoogleGenAI,
     senderId: string,
-    filePath: string,
-    mimeType: string,
+    files: FileDataSource[],
     textPrompt: string,
-    chatHistories: ChatHistories,
-    useSystemInstruction: boolean
-): Promise<{responseText: string, googleSearchUsed: boolean}> {
-    console.log(`gemini.ts: Processing ${mediaType} for [${senderId}]. File: ${filePath}, Type: ${mimeType}`);
-    const currentHistory: ChatHistoryItem[] = chatHistories[senderId] || [];
+    useSystemInstruction: boolean,
+    taskToolExecutor?: TaskToolExecutor
+): Promise<GeminiChatResponse> {
+    const mediaDescription = describeMedia(files);
+    console.log(`gemini.ts: Processing ${files.length} media file(s) (${mediaDescription}) for [${senderId}]. Files: ${files.map(file => `${file.fileUri} (${file.mimeType})`).join(', ')}`);
+    const memory = await getChatMemory(senderId);
 
     try {
-        const uploadedFile = await aiClient.files.upload({
-            file: filePath,
-            config: { mimeType: mimeType },
-        });
-
-        if (!uploadedFile.uri || !uploadedFile.mimeType) {
-            console.error(`gemini.ts: Invalid file upload response for ${mediaType} from [${senderId}].`);
-            const errorText = `Sorry, there was a problem uploading your ${mediaType.toLowerCase()} file.`;
-            return { responseText: errorText, googleSearchUsed: false };
-        }
-
         const messageContentToSend: Part[] = [
-            createPartFromUri(uploadedFile.uri, uploadedFile.mimeType),
+            ...files.map(file => createPartFromUri(file.fileUri, file.mimeType)),
             { text: textPrompt },
         ];
         
         const userHistoryPartsToLog: ChatMessagePart[] = [
-            { fileData: { mimeType: mimeType, fileUri: uploadedFile.uri } },
+            ...files.map(file => ({ fileData: { mimeType: file.mimeType, fileUri: file.fileUri, expiresAt: file.expiresAt } })),
             { text: textPrompt }
         ];
 
-        const { modelResponseText, googleSearchUsed } = await _performGeminiChatInteraction(
+        const { modelResponseText, googleSearchUsed, taskToolsUsed } = await _performGeminiChatInteraction(
             aiClient,
             senderId,
-            currentHistory,
+            memory,
             messageContentToSend,
             userHistoryPartsToLog,
-            useSystemInstruction
+            useSystemInstruction,
+            taskToolExecutor
         );
         
         if (modelResponseText) {
-            currentHistory.push({ role: "user", parts: userHistoryPartsToLog });
-            currentHistory.push({ role: "model", parts: [{ text: modelResponseText }] });
-            chatHistories[senderId] = currentHistory;
+            await rememberChatTurn(aiClient, senderId, userHistoryPartsToLog, modelResponseText);
         }
         
-        return { responseText: modelResponseText, googleSearchUsed };
+        return { responseText: modelResponseText, googleSearchUsed, taskToolsUsed };
 
     } catch (error) {
-        console.error(`gemini.ts: Error processing ${mediaType} for [${senderId}]:`, error);
-        const errorText = `Sorry, I encountered an error trying to understand your ${mediaType.toLowerCase()}. Please try again later.`;
-        return { responseText: errorText, googleSearchUsed: false };
+        console.error(`gemini.ts: Error processing ${mediaDescription} for [${senderId}]:`, error);
+        const errorText = `Sorry, I encountered an error trying to understand your ${mediaDescription}. Please try again later.`;
+        return { responseText: errorText, googleSearchUsed: false, taskToolsUsed: false };
     }
 }
 
 /**
- * Processes an audio file with Gemini by calling the generic media processor.
- * All parameters are passed to the internal _processMediaWithGemini function.
- */
-export async function processAudioWithGemini(
-    aiClient: GoogleGenAI,
-    senderId: string,
-    audioFilePath: string,
-    audioMimeType: string,
-    textPrompt: string,
-    chatHistories: ChatHistories,
-    useSystemInstruction: boolean
-): Promise<{responseText: string, googleSearchUsed: boolean}> {
-    return _processMediaWithGemini('Audio', aiClient, senderId, audioFilePath, audioMimeType, textPrompt, chatHistories, useSystemInstruction);
-}
-
-/**
- * Processes an image file with Gemini by calling the generic media processor.
- * All parameters are passed to the internal _processMediaWithGemini function.
- */
-export async function processImageWithGemini(
-    aiClient: GoogleGenAI,
-    senderId: string,
-    imageFilePath: string,
-    imageMimeType: string,
-    textPrompt: string,
-    chatHistories: ChatHistories,
-    useSystemInstruction: boolean
-): Promise<{responseText: string, googleSearchUsed: boolean}> {
-    return _processMediaWithGemini('Image', aiClient, senderId, imageFilePath, imageMimeType, textPrompt, chatHistories, useSystemInstruction);
-}
-
-/**
- * Processes a video file with Gemini by calling the generic media processor.
- * All parameters are passed to the internal _processMediaWithGemini function.
+ * Asks Gemini which of several tasks the user meant, for references that words alone can't settle
+ * (e.g. "the dairy one" among "Buy milk" and "Buy bread"). This is a one-off request: it doesn't use
+ * or update the chat history.
+ * @param aiClient The initialized GoogleGenAI client.
+ * @param senderId The user's unique identifier, used for logging and usage quotas.
+ * @param reference How the user referred to the task.
+ * @param taskTitles The titles of the candidate tasks.
+ * @returns A promise that resolves to the index of the chosen title, or null if Gemini isn't sure or fails.
  */
-export async function processVideoWithGemini(
+export async function chooseTaskWithGemini(
     aiClient: GoogleGenAI,
     senderId: string,
-    videoFilePath: string,
-    videoMimeType: string,
-    textPrompt: string,
-    chatHistories: ChatHistories,
-    useSystemInstruction: boolean
-): Promise<{responseText: string, googleSearchUsed: boolean}> {
-    return _processMediaWithGemini('Video', aiClient, senderId, videoFilePath, videoMimeType, textPrompt, chatHistories, useSystemInstruction);
+    reference: string,
+    taskTitles: string[]
+): Promise<number | null> {
+    try {
+        const response = await aiClient.models.generateContent({
+            model: GEMINI_MODEL,
+            contents: buildTaskMatchingPrompt(reference, taskTitles),
+            config: { systemInstruction: TASK_MATCHING_INSTRUCTION, responseMimeType: 'application/json' },
+        });
+        await recordTokenUsage(senderId, response);
+        const { choice } = JSON.parse(response.text || '{}');
+        // The model answers with the 1-based number shown in the prompt.
+        return Number.isInteger(choice) && choice >= 1 && choice <= taskTitles.length ? choice - 1 : null;
+    } catch (error) {
+        console.error(`gemini.ts: Error matching a task reference with Gemini for [${senderId}]:`, error);
+        return null;
+    }
 }
 
 /**
- * Processes a document file with Gemini by calling the generic media processor.
- * All parameters are passed to the internal _processMediaWithGemini function.
+ * Asks Gemini whether a message (and any media sent with it) is about managing the user's tasks.
+ * This is a cheap one-off request: it doesn't use or update the chat history beyond the recent
+ * turns given for context.
+ * @param aiClient The initialized GoogleGenAI client.
+ * @param senderId The user's unique identifier, used for logging and usage quotas.
+ * @param message The user's message (may be empty when only media was sent).
+ * @param files The media files sent with the message, already uploaded with `uploadMediaToGemini`.
+ * @param recentTurns The last turns of the conversation, oldest first.
+ * @returns A promise that resolves to the classification, or null if Gemini fails or answers nonsense.
  */
-export async function processDocumentWithGemini(
+export async function classifyIntentWithGemini(
     aiClient: GoogleGenAI,
     senderId: string,
-    documentFilePath: string,
-    documentMimeType: string,
-    textPrompt: string,
-    chatHistories: ChatHistories,
-    useSystemInstruction: boolean
-): Promise<{responseText: string, googleSearchUsed: boolean}> {
-    return _processMediaWithGemini('Document', aiClient, senderId, documentFilePath, documentMimeType, textPrompt, chatHistories, useSystemInstruction);
+    message: string,
+    files: FileDataSource[],
+    recentTurns: { role: string; text: string }[]
+): Promise<IntentClassification | null> {
+    try {
+        const response = await aiClient.models.generateContent({
+            model: LIGHTWEIGHT_MODEL,
+            contents: [
+                ...files.map(file => createPartFromUri(file.fileUri, file.mimeType)),
+                { text: buildIntentClassificationPrompt(message, recentTurns) },
+            ],
+            config: { systemInstruction: INTENT_CLASSIFICATION_INSTRUCTION, responseMimeType: 'application/json' },
+        });
+        await recordTokenUsage(senderId, response);
+        const { intent, confidence } = JSON.parse(response.text || '{}');
+        const intents: MessageIntent[] = ['task', 'chat'];
+        if (!intents.includes(intent) || typeof confidence !== 'number') {
+            console.warn(`gemini.ts: Unexpected intent classification for [${senderId}]: ${response.text}`);
+            return null;
+        }
+        return { intent, confidence: Math.min(1, Math.max(0, confidence)) };
+    } catch (error) {
+        console.error(`gemini.ts: Error classifying a message with Gemini for [${senderId}]:`, error);
+        return null;
+    }
 }
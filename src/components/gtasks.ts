@@ -1,68 +1,233 @@
 /**
  * @file gtasks.ts
  * @description This module centralizes all interactions with the Google Tasks API.
- * It handles the creation, retrieval, and deletion of tasks, ensuring that all
- * operations occur within a dedicated, application-specific task list.
+ * It handles the creation, retrieval, editing, completion, moving, and deletion of tasks, as well as
+ * the user's task lists. Lists are always referenced by their stable ID; operations that don't name
+ * a list use the user's default list (by default, a dedicated, application-specific list).
  * It relies on `gauth.ts` to obtain a pre-authenticated client.
  */
 
 import { google, tasks_v1 } from 'googleapis';
 import { getAuthenticatedClient } from './gauth';
+import { TaskRef, TaskUpdates } from '../types/chat';
+import { isValidIsoDate } from './dates';
+import { getUserPreferences, updateUserPreferences, DEFAULT_TASK_LIST_NAME } from './preferences';
 
-const DEDICATED_TASK_LIST_NAME = 'GDM DevRel list';
+const RECENTLY_COMPLETED_DAYS = 7; // How far back listings look for completed tasks.
+const API_PAGE_SIZE = 100; // The most items the Tasks API returns per call.
+export const MAX_SUBTASKS = 10; // The most steps a single task is broken into.
+export const TASKS_PER_PAGE = 10; // Top-level tasks (with their subtasks) per WhatsApp listing page.
 
 /**
- * A private helper to find the ID of the application's dedicated task list.
+ * The two states of a Google Task, as named by the Tasks API.
+ */
+export type TaskStatus = 'needsAction' | 'completed';
+
+/**
+ * One page of a task listing, formatted for WhatsApp.
+ */
+export interface FormattedTasksPage {
+    text: string;
+    page: number;
+    totalPages: number;
+}
+
+/**
+ * The result of an action on a single task: whether it succeeded, and a message for the user.
+ */
+export interface TaskActionResult {
+    success: boolean;
+    message: string;
+}
+
+const succeeded = (message: string): TaskActionResult => ({ success: true, message });
+const failed = (message: string): TaskActionResult => ({ success: false, message });
+
+/**
+ * A task list, identified by its stable ID. The title is only for display, as lists can be renamed.
+ */
+export interface TaskListRef {
+    id: string;
+    title: string;
+}
+
+/**
+ * A private helper that converts a task list from the API into a TaskListRef.
+ * @param taskList The task list returned by the API.
+ * @returns The task list's ID and title.
+ */
+const toTaskListRef = (taskList: tasks_v1.Schema$TaskList): TaskListRef => ({
+    id: taskList.id!,
+    title: taskList.title || 'Untitled list',
+});
+
+/**
+ * A private helper that walks every page of a Tasks API listing, following `nextPageToken`.
+ * @param fetchPage Fetches one page, given the token of the page to fetch (undefined for the first one).
+ * @returns A promise that resolves to the items of all pages, in order.
+ */
+async function fetchAllPages<T>(
+    fetchPage: (pageToken?: string) => Promise<{ items?: T[] | null; nextPageToken?: string | null }>
+): Promise<T[]> {
+    const items: T[] = [];
+    let pageToken: string | undefined;
+    do {
+        const page = await fetchPage(pageToken);
+        items.push(...(page.items || []));
+        pageToken = page.nextPageToken || undefined;
+    } while (pageToken);
+    return items;
+}
+
+/**
+ * A private helper to fetch all of the user's task lists.
  * @param tasksService An authenticated Google Tasks service instance.
- * @returns A promise that resolves to the task list ID, or null if not found.
+ * @returns A promise that resolves to the task lists, in the API's order.
  */
-async function findDedicatedTaskListId(tasksService: tasks_v1.Tasks): Promise<string | null> {
-    const response = await tasksService.tasklists.list({ maxResults: 100 });
-    const taskLists = response.data.items || [];
-    const dedicatedList = taskLists.find(list => list.title === DEDICATED_TASK_LIST_NAME);
-    return dedicatedList?.id || null;
+async function fetchTaskLists(tasksService: tasks_v1.Tasks): Promise<tasks_v1.Schema$TaskList[]> {
+    return fetchAllPages(async (pageToken) =>
+        (await tasksService.tasklists.list({ maxResults: API_PAGE_SIZE, pageToken })).data);
 }
 
 /**
- * A private helper that ensures the dedicated task list exists, creating it if necessary.
+ * A private helper to load a task list by its ID.
  * @param tasksService An authenticated Google Tasks service instance.
- * @returns A promise that resolves to the ID of the dedicated task list.
- * @throws An error if the list cannot be found or created.
+ * @param taskListId The ID of the task list.
+ * @returns A promise that resolves to the task list, or null if it doesn't exist (anymore).
  */
-async function ensureDedicatedTaskListExists(tasksService: tasks_v1.Tasks): Promise<string> {
-    let taskListId = await findDedicatedTaskListId(tasksService);
-    if (taskListId) {
-        return taskListId;
+async function getTaskListById(tasksService: tasks_v1.Tasks, taskListId: string): Promise<TaskListRef | null> {
+    try {
+        const response = await tasksService.tasklists.get({ tasklist: taskListId });
+        return toTaskListRef(response.data);
+    } catch (error: any) {
+        if (error.code === 404) return null;
+        throw error;
     }
+}
 
-    console.log(`gtasks.ts: Dedicated task list "${DEDICATED_TASK_LIST_NAME}" not found. Creating it.`);
-    const newList = await tasksService.tasklists.insert({
-        requestBody: { title: DEDICATED_TASK_LIST_NAME },
-    });
+/**
+ * A private helper that returns the user's default task list. The list is remembered by ID in the
+ * user's preferences. The first time, or if that list was deleted, the application's dedicated list
+ * is looked up by title (and created if requested), and its ID is remembered from then on.
+ * @param tasksService An authenticated Google Tasks service instance.
+ * @param senderId The user's unique identifier.
+ * @param createIfMissing Whether to create the dedicated list if it doesn't exist.
+ * @returns A promise that resolves to the default task list, or null if it doesn't exist.
+ * @throws An error if the list cannot be created.
+ */
+async function getDefaultTaskList(tasksService: tasks_v1.Tasks, senderId: string, createIfMissing: boolean): Promise<TaskListRef | null> {
+    const { defaultTaskListId } = await getUserPreferences(senderId);
+    if (defaultTaskListId) {
+        const defaultList = await getTaskListById(tasksService, defaultTaskListId);
+        if (defaultList) {
+            return defaultList;
+        }
+        console.warn(`gtasks.ts: Default task list [${defaultTaskListId}] of [${senderId}] no longer exists. Falling back to "${DEFAULT_TASK_LIST_NAME}".`);
+    }
 
-    taskListId = newList.data.id || null;
-    if (!taskListId) {
-        throw new Error("Failed to create the dedicated task list, received no ID.");
+    let dedicatedList = (await fetchTaskLists(tasksService)).find(list => list.title === DEFAULT_TASK_LIST_NAME);
+    if (!dedicatedList) {
+        if (!createIfMissing) {
+            return null;
+        }
+        console.log(`gtasks.ts: Dedicated task list "${DEFAULT_TASK_LIST_NAME}" not found. Creating it.`);
+        dedicatedList = (await tasksService.tasklists.insert({ requestBody: { title: DEFAULT_TASK_LIST_NAME } })).data;
+        if (!dedicatedList.id) {
+            throw new Error("Failed to create the dedicated task list, received no ID.");
+        }
+        console.log(`gtasks.ts: Created new dedicated task list with ID [${dedicatedList.id}].`);
     }
 
-    console.log(`gtasks.ts: Created new dedicated task list with ID [${taskListId}].`);
-    return taskListId;
+    await updateUserPreferences(senderId, { defaultTaskListId: dedicatedList.id! });
+    return toTaskListRef(dedicatedList);
+}
+
+/**
+ * A private helper that resolves the task list an operation applies to.
+ * @param tasksService An authenticated Google Tasks service instance.
+ * @param senderId The user's unique identifier.
+ * @param taskListId The ID of the task list, or undefined for the user's default list.
+ * @param createIfMissing Whether to create the default list if it doesn't exist yet.
+ * @returns A promise that resolves to the task list, or null if it doesn't exist.
+ */
+async function resolveTaskList(
+    tasksService: tasks_v1.Tasks,
+    senderId: string,
+    taskListId: string | undefined,
+    createIfMissing: boolean = false
+): Promise<TaskListRef | null> {
+    return taskListId ? getTaskListById(tasksService, taskListId) : getDefaultTaskList(tasksService, senderId, createIfMissing);
+}
+
+/**
+ * A private helper that converts a calendar date into the format of the Tasks API 'due' field.
+ * Google Tasks only stores the date part, which it expects at midnight UTC. The date is used
+ * as-is: converting it through a local timestamp would shift it by a day in some time zones.
+ * @param isoDate The due date in YYYY-MM-DD format.
+ * @returns The RFC 3339 timestamp for the 'due' field.
+ */
+function toTasksApiDueDate(isoDate: string): string {
+    return `${isoDate}T00:00:00.000Z`;
+}
+
+/**
+ * A private helper to fetch all the tasks of a list, however many pages they span.
+ * @param tasksService An authenticated Google Tasks service instance.
+ * @param tasklistId The ID of the task list.
+ * @param includeCompleted Whether completed tasks should be returned along with open ones.
+ * @returns A promise that resolves to the tasks, in the API's order.
+ */
+async function fetchTasks(tasksService: tasks_v1.Tasks, tasklistId: string, includeCompleted: boolean): Promise<tasks_v1.Schema$Task[]> {
+    return fetchAllPages(async (pageToken) => (await tasksService.tasks.list({
+        tasklist: tasklistId,
+        showCompleted: includeCompleted,
+        showHidden: includeCompleted, // Tasks completed in the Google Tasks apps are hidden, not just completed.
+        maxResults: API_PAGE_SIZE,
+        pageToken,
+    })).data);
+}
+
+/**
+ * A private helper that orders tasks the way Google Tasks shows them: each top-level task, followed
+ * by its subtasks. Google Tasks only has one level of nesting. A subtask whose parent isn't among
+ * the given tasks (e.g. an open step of a completed task) is treated as a top-level task.
+ * @param tasks The tasks to order.
+ * @returns The same tasks, in display order.
+ */
+function orderByHierarchy(tasks: tasks_v1.Schema$Task[]): tasks_v1.Schema$Task[] {
+    const byPosition = (a: tasks_v1.Schema$Task, b: tasks_v1.Schema$Task) => (a.position || '').localeCompare(b.position || '');
+    const taskIds = new Set(tasks.map(task => task.id));
+    const isTopLevel = (task: tasks_v1.Schema$Task) => !task.parent || !taskIds.has(task.parent);
+
+    return tasks
+        .filter(isTopLevel)
+        .sort(byPosition)
+        .flatMap(parent => [parent, ...tasks.filter(task => !isTopLevel(task) && task.parent === parent.id).sort(byPosition)]);
+}
+
+/**
+ * A private helper that tells whether a task was completed within the last RECENTLY_COMPLETED_DAYS.
+ * @param task The task to check.
+ * @returns True if the task is completed and its completion date is recent.
+ */
+function isRecentlyCompleted(task: tasks_v1.Schema$Task): boolean {
+    if (task.status !== 'completed' || !task.completed) return false;
+    const cutoff = Date.now() - RECENTLY_COMPLETED_DAYS * 24 * 60 * 60 * 1000;
+    return new Date(task.completed).getTime() >= cutoff;
 }
 
 // --- PUBLIC API FUNCTIONS ---
 
 /**
- * Lists all of the authenticated user's available task lists.
- * This is primarily for user-facing commands, not internal logic.
+ * Lists all of the authenticated user's task lists, in the order Google Tasks shows them.
  * @param senderId The user's unique identifier.
  * @returns A promise resolving to an array of task lists or an error message string.
  */
-export async function listTaskLists(senderId: string): Promise<tasks_v1.Schema$TaskList[] | string> {
+export async function listTaskLists(senderId: string): Promise<TaskListRef[] | string> {
     try {
         const oauth2Client = await getAuthenticatedClient(senderId);
         const tasksService = google.tasks({ version: 'v1', auth: oauth2Client });
-        const response = await tasksService.tasklists.list({ maxResults: 25 });
-        return response.data.items || [];
+        return (await fetchTaskLists(tasksService)).map(toTaskListRef);
     } catch (error: any) {
         console.error(`gtasks.ts: Error listing task lists for [${senderId}]:`, error.message);
         return `Error fetching Google Task lists: ${error.message}`;
@@ -70,26 +235,28 @@ export async function listTaskLists(senderId: string): Promise<tasks_v1.Schema$T
 }
 
 /**
- * Lists all tasks within the application's dedicated task list.
+ * A private helper that loads a task list and its tasks, each top-level task followed by its subtasks.
  * @param senderId The user's unique identifier.
- * @returns A promise resolving to an array of tasks or an error message string.
+ * @param includeCompleted Whether to also return tasks completed in the last RECENTLY_COMPLETED_DAYS.
+ * @param taskListId The ID of the task list, or undefined for the user's default list.
+ * @returns A promise resolving to the list (null if it doesn't exist yet) and its tasks, or an error message string.
  */
-export async function getTasksInList(senderId: string): Promise<tasks_v1.Schema$Task[] | string> {
+async function loadTasks(
+    senderId: string,
+    includeCompleted: boolean,
+    taskListId?: string
+): Promise<{ taskList: TaskListRef | null; tasks: tasks_v1.Schema$Task[] } | string> {
     try {
         const oauth2Client = await getAuthenticatedClient(senderId);
         const tasksService = google.tasks({ version: 'v1', auth: oauth2Client });
         
-        const tasklistId = await findDedicatedTaskListId(tasksService);
-        if (!tasklistId) {
-            return []; // If the dedicated list doesn't exist, there are no tasks to list.
+        const taskList = await resolveTaskList(tasksService, senderId, taskListId);
+        if (!taskList) {
+            return { taskList, tasks: [] }; // If the list doesn't exist, there are no tasks to list.
         }
 
-        const response = await tasksService.tasks.list({
-            tasklist: tasklistId,
-            showCompleted: false,
-            maxResults: 100,
-        });
-        return response.data.items || [];
+        const tasks = await fetchTasks(tasksService, taskList.id, includeCompleted);
+        return { taskList, tasks: orderByHierarchy(tasks.filter(task => task.status !== 'completed' || isRecentlyCompleted(task))) };
     } catch (error: any) {
         console.error(`gtasks.ts: Error getting tasks for [${senderId}]:`, error.message);
         return `Error fetching tasks: ${error.message}`;
@@ -97,19 +264,38 @@ export async function getTasksInList(senderId: string): Promise<tasks_v1.Schema$
 }
 
 /**
- * Creates a new task in the user's dedicated Google Tasks list.
+ * Lists all tasks within a task list, each top-level task followed by its subtasks.
  * @param senderId The user's unique identifier.
- * @param taskDetails The details of the task to be created.
+ * @param includeCompleted Whether to also return tasks completed in the last RECENTLY_COMPLETED_DAYS.
+ * @param taskListId The ID of the task list, or undefined for the user's default list.
+ * @returns A promise resolving to an array of tasks or an error message string.
+ */
+export async function getTasksInList(senderId: string, includeCompleted: boolean = false, taskListId?: string): Promise<tasks_v1.Schema$Task[] | string> {
+    const result = await loadTasks(senderId, includeCompleted, taskListId);
+    return typeof result === 'string' ? result : result.tasks;
+}
+
+/**
+ * Creates a new task in a task list, optionally broken into subtasks.
+ * @param senderId The user's unique identifier.
+ * @param taskDetails The details of the task to be created. The due date is a calendar date in YYYY-MM-DD format,
+ * and the subtasks are the titles of its steps, in order.
+ * @param taskListId The ID of the task list, or undefined for the user's default list (created if needed).
  * @returns A promise resolving to the created task object or an error message string.
  */
 export async function createGoogleTask(
     senderId: string,
-    taskDetails: { title: string; description?: string; dueDate?: string },
+    taskDetails: { title: string; description?: string; dueDate?: string; subtasks?: string[] },
+    taskListId?: string,
 ): Promise<tasks_v1.Schema$Task | string> {
     try {
         const oauth2Client = await getAuthenticatedClient(senderId);
         const tasksService = google.tasks({ version: 'v1', auth: oauth2Client });
-        const tasklistId = await ensureDedicatedTaskListExists(tasksService);
+        const taskList = await resolveTaskList(tasksService, senderId, taskListId, true);
+        if (!taskList) {
+            return `Error creating Google Task: the task list doesn't exist anymore.`;
+        }
+        const tasklistId = taskList.id;
 
         const task: tasks_v1.Schema$Task = {
             title: taskDetails.title,
@@ -117,16 +303,35 @@ export async function createGoogleTask(
         };
 
         if (taskDetails.dueDate) {
-            // The dueDate is expected to be an ISO string. The API requires RFC 3339 format.
-            const date = new Date(taskDetails.dueDate);
-            const pad = (num: number) => (num < 10 ? '0' : '') + num;
-            task.due = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}T00:00:00.000Z`;
+            if (!isValidIsoDate(taskDetails.dueDate)) {
+                return `Error creating Google Task: invalid due date "${taskDetails.dueDate}".`;
+            }
+            task.due = toTasksApiDueDate(taskDetails.dueDate);
         }
 
         const response = await tasksService.tasks.insert({
             tasklist: tasklistId,
             requestBody: task,
         });
+
+        const subtaskTitles = (taskDetails.subtasks || []).map(title => title.trim()).filter(Boolean).slice(0, MAX_SUBTASKS);
+        let previousSubtaskId: string | undefined;
+        for (const [index, subtaskTitle] of subtaskTitles.entries()) {
+            try {
+                // New tasks go to the top of their siblings unless 'previous' is set, so each step
+                // is inserted after the one before it to keep the order.
+                const subtask = await tasksService.tasks.insert({
+                    tasklist: tasklistId,
+                    parent: response.data.id!,
+                    previous: previousSubtaskId,
+                    requestBody: { title: subtaskTitle },
+                });
+                previousSubtaskId = subtask.data.id || undefined;
+            } catch (error: any) {
+                console.error(`gtasks.ts: Error creating subtask ${index + 1} of [${response.data.id}] for [${senderId}]:`, error.message);
+                return `Task "${taskDetails.title}" was created, but only ${index} of its ${subtaskTitles.length} steps could be added: ${error.message}`;
+            }
+        }
         
         return response.data;
     } catch (error: any) {
@@ -136,39 +341,95 @@ export async function createGoogleTask(
 }
 
 /**
- * Retrieves just the titles of all tasks in the dedicated list for quick selection.
+ * Retrieves the tasks of a list for quick selection, in the same order (and therefore with the
+ * same numbers) as `getFormattedTasksPage`.
  * @param senderId The user's unique identifier.
- * @returns A promise resolving to an array of task titles, or null if an error occurs.
+ * @param status Which tasks to return: open ones (default) or those completed in the last RECENTLY_COMPLETED_DAYS.
+ * @param taskListId The ID of the task list, or undefined for the user's default list.
+ * @returns A promise resolving to the tasks' IDs and titles (with their parent's title for subtasks), or null if an error occurs.
  */
-export async function getTaskTitles(senderId: string): Promise<string[] | null> {
-    const tasks = await getTasksInList(senderId);
-    if (Array.isArray(tasks)) {
-        return tasks.map(task => task.title || 'Untitled Task');
+export async function getTaskRefs(senderId: string, status: TaskStatus = 'needsAction', taskListId?: string): Promise<TaskRef[] | null> {
+    const tasks = await getTasksInList(senderId, status === 'completed', taskListId);
+    if (!Array.isArray(tasks)) {
+        return null;
     }
-    return null;
+    const titlesById = new Map(tasks.map(task => [task.id, task.title || 'Untitled Task']));
+    return tasks
+        .filter(task => (task.status === 'completed') === (status === 'completed'))
+        .map(task => {
+            const taskRef: TaskRef = { id: task.id!, title: task.title || 'Untitled Task' };
+            const parentTitle = task.parent && titlesById.get(task.parent);
+            if (parentTitle) taskRef.parentTitle = parentTitle;
+            return taskRef;
+        });
 }
 
 /**
- * Fetches all tasks from the dedicated list and formats them into a single, user-friendly string.
+ * Fetches all tasks from a list and formats one page of them into a user-friendly string. Each page
+ * holds up to TASKS_PER_PAGE top-level tasks with their subtasks; numbering continues across pages,
+ * so any task can still be picked by its number.
  * @param senderId The user's unique identifier.
- * @returns A promise resolving to a formatted string of tasks or an error message.
+ * @param includeCompleted Whether to add a section (on the last page) with the tasks completed in the last RECENTLY_COMPLETED_DAYS.
+ * @param taskListId The ID of the task list, or undefined for the user's default list.
+ * @param page The page to format, starting at 1.
+ * @returns A promise resolving to the formatted page or an error message.
  */
-export async function getFormattedTasksString(senderId: string): Promise<string> {
-    const tasks = await getTasksInList(senderId);
+export async function getFormattedTasksPage(
+    senderId: string,
+    includeCompleted: boolean = false,
+    taskListId?: string,
+    page: number = 1
+): Promise<FormattedTasksPage | string> {
+    const result = await loadTasks(senderId, includeCompleted, taskListId);
+
+    if (typeof result === 'string') {
+        return result; // Return the error message directly.
+    }
+    const allTasks = result.tasks;
+    const listName = result.taskList?.title || DEFAULT_TASK_LIST_NAME;
+
+    const tasks = allTasks.filter(task => task.status !== 'completed');
+    // Subtasks of open tasks are shown under their parent, even once completed.
+    const openTaskIds = new Set(tasks.map(task => task.id));
+    const isShownUnderParent = (task: tasks_v1.Schema$Task) => !!task.parent && openTaskIds.has(task.parent);
+    const completedTasks = allTasks
+        .filter(task => task.status === 'completed' && !isShownUnderParent(task))
+        .sort((a, b) => (b.completed || '').localeCompare(a.completed || ''));
 
-    if (typeof tasks === 'string') {
-        return tasks; // Return the error message directly.
+    let completedString = '';
+    if (includeCompleted) {
+        completedString = completedTasks.length > 0
+            ? `\n\n*Completed in the last ${RECENTLY_COMPLETED_DAYS} days:*\n\n` + completedTasks
+                .map(task => `✅ ~${task.title || 'Untitled Task'}~ (${(task.completed || '').substring(0, 10)})`)
+                .join('\n')
+            : `\n\nNo tasks were completed in the last ${RECENTLY_COMPLETED_DAYS} days.`;
     }
     
-    if (!tasks || tasks.length === 0) {
-        return `You have no tasks in your "${DEDICATED_TASK_LIST_NAME}" list.`;
+    if (tasks.length === 0) {
+        return { text: `You have no open tasks in your "${listName}" list.${completedString}`, page: 1, totalPages: 1 };
     }
 
     let hasDueDate = false;
+    const formatDueDate = (task: tasks_v1.Schema$Task): string => {
+        if (!task.due) return '';
+        hasDueDate = true;
+        // The 'due' field is an RFC 3339 timestamp; we just need the date part.
+        return task.due.substring(0, 10);
+    };
 
-    const tasksString = tasks
-        .map((task, index) => {
-            const title = `*${index + 1}. ${task.title || 'Untitled Task'}*`;
+    // Open tasks and subtasks share one numbering, so any of them can be picked by its number.
+    let taskNumber = 0;
+    const taskBlocks: string[] = [];
+    for (const task of allTasks) {
+        const taskTitle = task.title || 'Untitled Task';
+        if (isShownUnderParent(task)) {
+            // Subtasks are listed right below their parent, so they extend the parent's block.
+            const dueDate = formatDueDate(task);
+            taskBlocks[taskBlocks.length - 1] += task.status === 'completed'
+                ? `\n    ✅ ~${taskTitle}~`
+                : `\n    ${++taskNumber}. ↳ ${taskTitle}${dueDate ? ` (due ${dueDate})` : ''}`;
+        } else if (task.status !== 'completed') {
+            const title = `*${++taskNumber}. ${taskTitle}*`;
             
             let notes = '';
             if (task.notes) {
@@ -176,68 +437,384 @@ export async function getFormattedTasksString(senderId: string): Promise<string>
                 notes = `\n  ${task.notes.replace(/\n\n/g, '\n  ')}`;
             }
             
-            let dueDate = '';
-            if (task.due) {
-                hasDueDate = true;
-                // The 'due' field is an RFC 3339 timestamp; we just need the date part.
-                const formattedDate = task.due.substring(0, 10);
-                dueDate = `\n  - Due: ${formattedDate}`;
-            }
+            const dueDate = formatDueDate(task);
+            taskBlocks.push(`${title}${notes}${dueDate ? `\n  - Due: ${dueDate}` : ''}`);
+        }
+    }
 
-            return `${title}${notes}${dueDate}`;
-        })
-        .join('\n\n');
+    const totalPages = Math.ceil(taskBlocks.length / TASKS_PER_PAGE);
+    if (page > totalPages) {
+        return `Your "${listName}" list only has ${totalPages} page(s) of tasks.`;
+    }
+    const tasksString = taskBlocks.slice((page - 1) * TASKS_PER_PAGE, page * TASKS_PER_PAGE).join('\n\n');
 
+    const header = totalPages > 1 ? `*Tasks in "${listName}" (page ${page} of ${totalPages}):*` : `*Tasks in "${listName}":*`;
     const footer = hasDueDate ? '\n\n(Due dates are in YYYY-MM-DD format)' : '';
-    
-    return `*Tasks in "${DEDICATED_TASK_LIST_NAME}":*\n\n${tasksString}${footer}`;
+    // The next page is offered instead of the completed tasks, which only follow the last page.
+    const ending = page < totalPages ? `\n\n_Reply "more" to see the next page._` : completedString;
+
+    return { text: `${header}\n\n${tasksString}${footer}${ending}`, page, totalPages };
 }
 
 /**
- * Deletes a Google Task by its title from the dedicated list.
- * If it's the last task in the list, the list itself is also deleted to keep things clean.
+ * Deletes a Google Task from a task list, along with its subtasks.
+ * The list itself is kept, even once empty.
  * @param senderId The user's unique identifier.
- * @param taskTitle The title of the task to delete.
- * @returns A promise resolving to a success or error message string.
+ * @param task The task to delete.
+ * @param taskListId The ID of the task list, or undefined for the user's default list.
+ * @returns A promise resolving to the result of the action.
  */
-export async function deleteGoogleTask(senderId: string, taskTitle: string): Promise<string> {
+export async function deleteGoogleTask(senderId: string, task: TaskRef, taskListId?: string): Promise<TaskActionResult> {
+    const taskTitle = task.title;
     try {
         const oauth2Client = await getAuthenticatedClient(senderId);
         const tasksService = google.tasks({ version: 'v1', auth: oauth2Client });
-        
-        const tasklistId = await findDedicatedTaskListId(tasksService);
-        if (!tasklistId) {
-            return `Task "${taskTitle}" not found, as the dedicated task list doesn't exist.`;
+        const taskList = await resolveTaskList(tasksService, senderId, taskListId);
+        if (!taskList) {
+            return failed(`Task "${taskTitle}" not found, as the task list doesn't exist.`);
         }
+        const tasklistId = taskList.id;
+        const listName = taskList.title;
 
-        const tasksResult = await tasksService.tasks.list({
-            tasklist: tasklistId,
-            showCompleted: false,
-            maxResults: 100 // Assume user won't have more than 100 active tasks to search.
-        }).then(res => res.data.items || []);
+        // Completed tasks are fetched too, so completed subtasks are deleted along with their parent.
+        const tasksResult = await fetchTasks(tasksService, tasklistId, true);
 
-        const taskToDelete = tasksResult.find(t => t.title?.trim().toLowerCase() === taskTitle.trim().toLowerCase());
+        const taskToDelete = tasksResult.find(t => t.status !== 'completed' && t.id === task.id);
 
         if (!taskToDelete?.id) {
-            return `Task "${taskTitle}" not found in the "${DEDICATED_TASK_LIST_NAME}" list.`;
+            return failed(`Task "${taskTitle}" not found in the "${listName}" list.`);
         }
 
+        // Subtasks are deleted first, so a failure midway never leaves steps without their parent.
+        const subtasks = tasksResult.filter(t => t.parent === taskToDelete.id);
+        for (const subtask of subtasks) {
+            await tasksService.tasks.delete({ tasklist: tasklistId, task: subtask.id! });
+        }
         await tasksService.tasks.delete({
             tasklist: tasklistId,
             task: taskToDelete.id,
         });
-        console.log(`gtasks.ts: Deleted task [${taskToDelete.id}] titled "${taskTitle}" for user [${senderId}].`);
+        console.log(`gtasks.ts: Deleted task [${taskToDelete.id}] titled "${taskTitle}" and ${subtasks.length} subtask(s) for user [${senderId}].`);
+
+        return succeeded(subtasks.length > 0
+            ? `Task "${taskTitle}" and its ${subtasks.length} subtask(s) deleted successfully.`
+            : `Task "${taskTitle}" deleted successfully.`);
+    } catch (error: any) {
+        console.error(`gtasks.ts: Error deleting task for [${senderId}]:`, error.message);
+        return failed(`Error deleting task: ${error.message}`);
+    }
+} 
+
+/**
+ * A private helper that changes the status of a task, keeping parents and subtasks
+ * coherent: completing a task also completes its open subtasks (as the Google Tasks apps do), and
+ * reopening a subtask of a completed task also reopens the parent, where the subtask would otherwise stay hidden.
+ * @param senderId The user's unique identifier.
+ * @param task The task to update.
+ * @param status The new status of the task.
+ * @param taskListId The ID of the task list, or undefined for the user's default list.
+ * @returns A promise resolving to the result of the action.
+ */
+async function setGoogleTaskStatus(senderId: string, task: TaskRef, status: TaskStatus, taskListId?: string): Promise<TaskActionResult> {
+    const action = status === 'completed' ? 'completing' : 'reopening';
+    const taskTitle = task.title;
+    try {
+        const oauth2Client = await getAuthenticatedClient(senderId);
+        const tasksService = google.tasks({ version: 'v1', auth: oauth2Client });
+        const taskList = await resolveTaskList(tasksService, senderId, taskListId);
+        if (!taskList) {
+            return failed(`Task "${taskTitle}" not found, as the task list doesn't exist.`);
+        }
+        const tasklistId = taskList.id;
+        const listName = taskList.title;
 
-        // If that was the last task, delete the now-empty list to avoid clutter.
-        if (tasksResult.length === 1) {
-            console.log(`gtasks.ts: That was the last task. Deleting dedicated task list [${tasklistId}].`);
-            await tasksService.tasklists.delete({ tasklist: tasklistId });
-            return `Task "${taskTitle}" deleted successfully. As it was the last one, the "${DEDICATED_TASK_LIST_NAME}" list was also removed.`;
+        // Only tasks in the opposite state are candidates: you complete open tasks and reopen completed ones.
+        const tasks = await fetchTasks(tasksService, tasklistId, status === 'needsAction');
+        const taskToUpdate = tasks.find(t => t.status !== status && t.id === task.id);
+
+        if (!taskToUpdate?.id) {
+            const state = status === 'completed' ? 'open' : 'completed';
+            return failed(`No ${state} task "${taskTitle}" found in the "${listName}" list.`);
         }
 
-        return `Task "${taskTitle}" deleted successfully.`;
+        const setStatus = (taskId: string) => tasksService.tasks.patch({
+            tasklist: tasklistId,
+            task: taskId,
+            // Reopening requires clearing the completion date as well as the status.
+            requestBody: status === 'completed' ? { status } : { status, completed: null },
+        });
+        await setStatus(taskToUpdate.id);
+        console.log(`gtasks.ts: Marked task [${taskToUpdate.id}] titled "${taskTitle}" as ${status} for user [${senderId}].`);
+
+        const notes: string[] = [];
+        if (status === 'completed') {
+            const openSubtasks = tasks.filter(t => t.parent === taskToUpdate.id && t.status !== 'completed');
+            for (const subtask of openSubtasks) {
+                await setStatus(subtask.id!);
+            }
+            if (openSubtasks.length > 0) {
+                notes.push(`Its ${openSubtasks.length} open subtask(s) were completed too.`);
+            }
+
+            const parent = tasks.find(t => t.id === taskToUpdate.parent);
+            const hasOpenSiblings = tasks.some(t => t.parent === taskToUpdate.parent && t.id !== taskToUpdate.id && t.status !== 'completed');
+            if (parent && !hasOpenSiblings) {
+                notes.push(`That was the last open step of "${parent.title}". Tell me if you want to complete it too.`);
+            }
+        } else {
+            const parent = tasks.find(t => t.id === taskToUpdate.parent);
+            if (parent?.id && parent.status === 'completed') {
+                await setStatus(parent.id);
+                notes.push(`Its parent task "${parent.title}" was reopened too.`);
+            }
+        }
+
+        const message = status === 'completed'
+            ? `✅ Task "${taskTitle}" marked as completed.`
+            : `↩️ Task "${taskTitle}" reopened.`;
+        return succeeded([message, ...notes].join(' '));
     } catch (error: any) {
-        console.error(`gtasks.ts: Error deleting task for [${senderId}]:`, error.message);
-        return `Error deleting task: ${error.message}`;
+        console.error(`gtasks.ts: Error setting task status to ${status} for [${senderId}]:`, error.message);
+        return failed(`Error ${action} task: ${error.message}`);
     }
-} 
\ No newline at end of file
+}
+
+/**
+ * Marks an open Google Task as completed, keeping it as history.
+ * @param senderId The user's unique identifier.
+ * @param task The task to complete.
+ * @param taskListId The ID of the task list, or undefined for the user's default list.
+ * @returns A promise resolving to the result of the action.
+ */
+export async function completeGoogleTask(senderId: string, task: TaskRef, taskListId?: string): Promise<TaskActionResult> {
+    return setGoogleTaskStatus(senderId, task, 'completed', taskListId);
+}
+
+/**
+ * Reopens a completed Google Task.
+ * @param senderId The user's unique identifier.
+ * @param task The task to reopen.
+ * @param taskListId The ID of the task list, or undefined for the user's default list.
+ * @returns A promise resolving to the result of the action.
+ */
+export async function reopenGoogleTask(senderId: string, task: TaskRef, taskListId?: string): Promise<TaskActionResult> {
+    return setGoogleTaskStatus(senderId, task, 'needsAction', taskListId);
+}
+
+/**
+ * Updates the title, notes and/or due date of an open Google Task.
+ * @param senderId The user's unique identifier.
+ * @param task The task to update.
+ * @param updates The changes to apply. Missing or null fields are left unchanged.
+ * @param taskListId The ID of the task list, or undefined for the user's default list.
+ * @returns A promise resolving to the result of the action.
+ */
+export async function updateGoogleTask(senderId: string, task: TaskRef, updates: TaskUpdates, taskListId?: string): Promise<TaskActionResult> {
+    const taskTitle = task.title;
+    try {
+        const patch: tasks_v1.Schema$Task = {};
+        const changes: string[] = [];
+
+        if (updates.newTitle?.trim()) {
+            patch.title = updates.newTitle.trim();
+            changes.push(`title → "${patch.title}"`);
+        }
+        if (updates.dueDate) {
+            if (!isValidIsoDate(updates.dueDate)) {
+                return failed(`I couldn't understand the new due date "${updates.dueDate}". Please try again with a specific date.`);
+            }
+            patch.due = toTasksApiDueDate(updates.dueDate);
+            changes.push(`due date → ${updates.dueDate}`);
+        }
+
+        if (!patch.title && !patch.due && !updates.newNotes?.trim() && !updates.notesToAppend?.trim()) {
+            return failed(`I understood you want to change "${taskTitle}", but not what to change. Please tell me the new title, notes or due date.`);
+        }
+
+        const oauth2Client = await getAuthenticatedClient(senderId);
+        const tasksService = google.tasks({ version: 'v1', auth: oauth2Client });
+        const taskList = await resolveTaskList(tasksService, senderId, taskListId);
+        if (!taskList) {
+            return failed(`Task "${taskTitle}" not found, as the task list doesn't exist.`);
+        }
+        const tasklistId = taskList.id;
+        const listName = taskList.title;
+
+        const taskToUpdate = (await fetchTasks(tasksService, tasklistId, false)).find(t => t.id === task.id);
+        if (!taskToUpdate?.id) {
+            return failed(`Task "${taskTitle}" not found in the "${listName}" list.`);
+        }
+
+        if (updates.newNotes?.trim()) {
+            patch.notes = updates.newNotes.trim();
+            changes.push('notes replaced');
+        }
+        if (updates.notesToAppend?.trim()) {
+            // Appending builds on the replacement above if both were requested.
+            const existingNotes = patch.notes ?? taskToUpdate.notes ?? '';
+            patch.notes = existingNotes ? `${existingNotes}\n${updates.notesToAppend.trim()}` : updates.notesToAppend.trim();
+            changes.push('notes extended');
+        }
+
+        await tasksService.tasks.patch({
+            tasklist: tasklistId,
+            task: taskToUpdate.id,
+            requestBody: patch,
+        });
+        console.log(`gtasks.ts: Updated task [${taskToUpdate.id}] titled "${taskTitle}" for user [${senderId}] (${changes.join(', ')}).`);
+
+        return succeeded(`✏️ Task "${taskTitle}" updated:\n- ${changes.join('\n- ')}`);
+    } catch (error: any) {
+        console.error(`gtasks.ts: Error updating task for [${senderId}]:`, error.message);
+        return failed(`Error updating task: ${error.message}`);
+    }
+}
+
+/**
+ * Moves an open Google Task, along with its subtasks, to another task list.
+ * @param senderId The user's unique identifier.
+ * @param task The task to move.
+ * @param destinationListId The ID of the task list to move the task to.
+ * @param taskListId The ID of the task list the task is in, or undefined for the user's default list.
+ * @returns A promise resolving to the result of the action.
+ */
+export async function moveGoogleTask(senderId: string, task: TaskRef, destinationListId: string, taskListId?: string): Promise<TaskActionResult> {
+    const taskTitle = task.title;
+    try {
+        const oauth2Client = await getAuthenticatedClient(senderId);
+        const tasksService = google.tasks({ version: 'v1', auth: oauth2Client });
+        const taskList = await resolveTaskList(tasksService, senderId, taskListId);
+        if (!taskList) {
+            return failed(`Task "${taskTitle}" not found, as the task list doesn't exist.`);
+        }
+        const destination = await getTaskListById(tasksService, destinationListId);
+        if (!destination) {
+            return failed(`I couldn't move "${taskTitle}", as the destination list doesn't exist anymore.`);
+        }
+        if (destination.id === taskList.id) {
+            return failed(`Task "${taskTitle}" is already in the "${destination.title}" list.`);
+        }
+
+        const tasks = await fetchTasks(tasksService, taskList.id, false);
+        const taskToMove = tasks.find(t => t.id === task.id);
+        if (!taskToMove?.id) {
+            return failed(`No open task "${taskTitle}" found in the "${taskList.title}" list.`);
+        }
+
+        // A subtask moved on its own becomes a top-level task in the destination list.
+        const moved = await tasksService.tasks.move({
+            tasklist: taskList.id,
+            task: taskToMove.id,
+            destinationTasklist: destination.id,
+        });
+        console.log(`gtasks.ts: Moved task [${taskToMove.id}] from list [${taskList.id}] to [${destination.id}] for user [${senderId}].`);
+
+        // Subtasks get a new parent ID in the destination list, so any left behind (completed ones included)
+        // are moved under it one by one, in order.
+        const remaining = await fetchTasks(tasksService, taskList.id, true);
+        const subtasks = orderByHierarchy(remaining).filter(t => t.parent === taskToMove.id);
+        let previousId: string | undefined;
+        for (const subtask of subtasks) {
+            const movedSubtask = await tasksService.tasks.move({
+                tasklist: taskList.id,
+                task: subtask.id!,
+                destinationTasklist: destination.id,
+                parent: moved.data.id!,
+                previous: previousId,
+            });
+            previousId = movedSubtask.data.id || undefined;
+        }
+
+        const subtaskCount = tasks.filter(t => t.parent === taskToMove.id).length;
+        const subtasksNote = subtaskCount > 0 ? ` with its ${subtaskCount} open subtask(s)` : '';
+        return succeeded(`📦 Task "${taskTitle}" moved${subtasksNote} from "${taskList.title}" to "${destination.title}".`);
+    } catch (error: any) {
+        console.error(`gtasks.ts: Error moving task for [${senderId}]:`, error.message);
+        return failed(`Error moving task: ${error.message}`);
+    }
+}
+
+/**
+ * Finds the task lists a user is referring to: by their number in `listTaskLists`, by exact title
+ * (case-insensitive) or, failing that, by a part of the title.
+ * @param senderId The user's unique identifier.
+ * @param reference The number or (part of the) name of the list, as given by the user.
+ * @returns A promise resolving to the matching lists (more than one when ambiguous) or an error message string.
+ */
+export async function findTaskLists(senderId: string, reference: string): Promise<TaskListRef[] | string> {
+    const taskLists = await listTaskLists(senderId);
+    if (typeof taskLists === 'string') {
+        return taskLists;
+    }
+
+    const normalized = reference.trim().toLowerCase();
+    const index = /^\d+$/.test(normalized) ? parseInt(normalized, 10) - 1 : -1;
+    if (index >= 0 && index < taskLists.length) {
+        return [taskLists[index]];
+    }
+
+    const exactMatches = taskLists.filter(list => list.title.toLowerCase() === normalized);
+    if (exactMatches.length > 0) {
+        return exactMatches;
+    }
+    return taskLists.filter(list => list.title.toLowerCase().includes(normalized));
+}
+
+/**
+ * Returns the user's default task list, without creating it: the application's dedicated list is
+ * only created along with the first task added to it.
+ * @param senderId The user's unique identifier.
+ * @returns A promise resolving to the default task list, null if it doesn't exist yet, or an error message string.
+ */
+export async function getDefaultTaskListRef(senderId: string): Promise<TaskListRef | null | string> {
+    try {
+        const oauth2Client = await getAuthenticatedClient(senderId);
+        const tasksService = google.tasks({ version: 'v1', auth: oauth2Client });
+        return await getDefaultTaskList(tasksService, senderId, false);
+    } catch (error: any) {
+        console.error(`gtasks.ts: Error getting the default task list for [${senderId}]:`, error.message);
+        return `Error fetching your default task list: ${error.message}`;
+    }
+}
+
+/**
+ * Creates a new task list.
+ * @param senderId The user's unique identifier.
+ * @param title The title of the new list.
+ * @returns A promise resolving to the created task list or an error message string.
+ */
+export async function createTaskList(senderId: string, title: string): Promise<TaskListRef | string> {
+    try {
+        const oauth2Client = await getAuthenticatedClient(senderId);
+        const tasksService = google.tasks({ version: 'v1', auth: oauth2Client });
+        const response = await tasksService.tasklists.insert({ requestBody: { title: title.trim() } });
+        if (!response.data.id) {
+            throw new Error("Received no ID for the new task list.");
+        }
+        console.log(`gtasks.ts: Created task list [${response.data.id}] for user [${senderId}].`);
+        return toTaskListRef(response.data);
+    } catch (error: any) {
+        console.error(`gtasks.ts: Error creating task list for [${senderId}]:`, error.message);
+        return `Error creating task list: ${error.message}`;
+    }
+}
+
+/**
+ * Renames a task list. As lists are referenced by ID, tasks and preferences keep pointing to it.
+ * @param senderId The user's unique identifier.
+ * @param taskListId The ID of the task list to rename.
+ * @param newTitle The new title of the list.
+ * @returns A promise resolving to the renamed task list or an error message string.
+ */
+export async function renameTaskList(senderId: string, taskListId: string, newTitle: string): Promise<TaskListRef | string> {
+    try {
+        const oauth2Client = await getAuthenticatedClient(senderId);
+        const tasksService = google.tasks({ version: 'v1', auth: oauth2Client });
+        const response = await tasksService.tasklists.patch({ tasklist: taskListId, requestBody: { title: newTitle.trim() } });
+        console.log(`gtasks.ts: Renamed task list [${taskListId}] for user [${senderId}].`);
+        return toTaskListRef(response.data);
+    } catch (error: any) {
+        console.error(`gtasks.ts: Error renaming task list for [${senderId}]:`, error.message);
+        return `Error renaming task list: ${error.message}`;
+    }
+}
@@ -0,0 +1,128 @@
+/**
+ * @file idempotency.ts
+ * @description This module makes the webhook safe against Twilio redelivering a message (e.g. after
+ * a timeout or a network error). Every message is recorded by its `MessageSid` when it arrives, with
+ * a time-to-live, and a message seen before is not processed again: processing it twice could create
+ * duplicate tasks, or apply a reply ("2", "yes") to a prompt the first delivery already consumed.
+ * The replies computed for a message are kept with it, so a redelivery can still get them when
+ * they could not be sent the first time.
+ */
+
+import { ExpiringState } from '../types/chat';
+import { ProcessedMessage } from '../types/jobs';
+import { deleteDocument, listDocumentIds, updateDocument } from './storage';
+
+// --- CONSTANTS ---
+const PROCESSED_MESSAGES_COLLECTION = 'processed-messages';
+
+// Twilio only redelivers a message shortly after it was first sent; a day leaves a wide margin.
+const getProcessedMessageTtlMs = () => (Number(process.env.PROCESSED_MESSAGE_TTL_HOURS) || 24) * 60 * 60 * 1000;
+
+// A reply that can't be sent is tried again a few times, waiting a little longer each time.
+const REPLY_SEND_ATTEMPTS = 3;
+const REPLY_RETRY_DELAY_MS = 500;
+
+/**
+ * Records that a message arrived, unless it was already recorded. The check and the record are a
+ * single transaction, so two deliveries arriving at once on different instances can't both win.
+ * @param messageSid Twilio's unique identifier for the message.
+ * @returns A promise resolving to null for a new message, or to what is known of the earlier delivery.
+ */
+export async function claimMessage(messageSid: string): Promise<ProcessedMessage | null> {
+    const now = Date.now();
+    const previous = await updateDocument<ExpiringState<ProcessedMessage>>(PROCESSED_MESSAGES_COLLECTION, messageSid, (current) =>
+        current && current.expiresAt > now ? current : { value: { delivered: false }, expiresAt: now + getProcessedMessageTtlMs() });
+    return previous && previous.expiresAt > now ? previous.value : null;
+}
+
+/**
+ * Forgets a message, so a redelivery of it is processed. Used when the message could not even be queued.
+ * @param messageSid Twilio's unique identifier for the message.
+ */
+export async function releaseMessage(messageSid: string): Promise<void> {
+    try {
+        await deleteDocument(PROCESSED_MESSAGES_COLLECTION, messageSid);
+    } catch (error) {
+        console.error(`idempotency.ts: Error releasing message ${messageSid}.`, error);
+    }
+}
+
+/**
+ * Records the replies computed for a message, and whether they were sent. Errors are logged rather
+ * than thrown, as the record only matters if the message is redelivered.
+ * @param messageSid Twilio's unique identifier for the message.
+ * @param replies The replies, in order.
+ * @param delivered Whether every reply was sent to the user.
+ */
+export async function recordReplies(messageSid: string, replies: string[], delivered: boolean): Promise<void> {
+    try {
+        await updateDocument<ExpiringState<ProcessedMessage>>(PROCESSED_MESSAGES_COLLECTION, messageSid, (current) =>
+            current ? { ...current, value: { replies, delivered } } : current);
+    } catch (error) {
+        console.error(`idempotency.ts: Error recording the replies to message ${messageSid}.`, error);
+    }
+}
+
+/**
+ * Sends the replies computed for a message, retrying a send that fails. The replies are recorded
+ * before they are sent; if one still can't be sent, it and the ones after it stay recorded as
+ * undelivered, so a redelivery of the message gets them. Delivery failures are logged rather than
+ * thrown: the message was processed, and reporting it as failed would invite the user to send it
+ * (and e.g. create its tasks) again.
+ * @param messageSid Twilio's unique identifier for the message.
+ * @param replies The replies, in order.
+ * @param send Sends one reply to the user.
+ * @returns A promise resolving to true if every reply was sent.
+ */
+export async function deliverReplies(messageSid: string, replies: string[], send: (body: string) => Promise<void>): Promise<boolean> {
+    await recordReplies(messageSid, replies, false);
+    for (let sent = 0; sent < replies.length; sent++) {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                await send(replies[sent]);
+                break;
+            } catch (error) {
+                if (attempt === REPLY_SEND_ATTEMPTS) {
+                    console.error(`idempotency.ts: Giving up on sending the replies to message ${messageSid} after ${attempt} attempts.`, error);
+                    await recordReplies(messageSid, replies.slice(sent), false);
+                    return false;
+                }
+                console.warn(`idempotency.ts: Error sending a reply to message ${messageSid}; trying again.`, error);
+                await new Promise(resolve => setTimeout(resolve, REPLY_RETRY_DELAY_MS * attempt));
+            }
+        }
+    }
+    await recordReplies(messageSid, replies, true);
+    return true;
+}
+
+/**
+ * Tells which replies a redelivery of a message should get: the ones computed the first time, if
+ * they could not all be sent then. Replies that reached the user aren't sent again.
+ * @param earlierDelivery What is known of the earlier delivery, as returned by `claimMessage`.
+ * @returns The replies to send, in order (none while the message is still being processed).
+ */
+export function getRepliesToResend(earlierDelivery: ProcessedMessage): string[] {
+    return earlierDelivery.replies && !earlierDelivery.delivered ? earlierDelivery.replies : [];
+}
+
+/**
+ * Removes the records of messages whose time-to-live has passed.
+ * @returns A promise resolving to the number of records removed.
+ */
+export async function sweepExpiredMessages(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+    for (const messageSid of await listDocumentIds(PROCESSED_MESSAGES_COLLECTION)) {
+        try {
+            const previous = await updateDocument<ExpiringState<ProcessedMessage>>(PROCESSED_MESSAGES_COLLECTION, messageSid, (current) =>
+                current && current.expiresAt > now ? current : null);
+            if (previous && previous.expiresAt <= now) {
+                removed++;
+            }
+        } catch (error) {
+            console.error(`idempotency.ts: Error sweeping the record of message ${messageSid}.`, error);
+        }
+    }
+    return removed;
+}
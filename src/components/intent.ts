@@ -0,0 +1,63 @@
+/**
+ * @file intent.ts
+ * @description This module decides whether a message is about managing the user's tasks, which
+ * selects the task system instruction and functions for the Gemini request. A cheap Gemini call
+ * classifies the message (with any media, in any language) in the light of the last turns of the
+ * conversation. When the classification is missing or unsure, the message is routed like the one
+ * before it, so follow-ups ("make it Friday") stay with the request they continue.
+ */
+
+import { GoogleGenAI } from '@google/genai';
+import { FileDataSource, MessageIntent } from '../types/chat';
+import { classifyIntentWithGemini } from './gemini';
+import { getChatMemory, getLastIntent, setLastIntent } from './chatstate';
+
+// --- CONSTANTS ---
+const CONFIDENT_INTENT = 0.7; // A classification at least this confident is followed as is.
+const RECENT_TURNS = 4; // How many past turns are shown to the classifier for context.
+const MAX_TURN_LENGTH = 300; // Past turns are truncated to this many characters, to keep the call cheap.
+
+/**
+ * A private helper that extracts the last turns of the user's conversation as plain text.
+ * @param senderId The user's unique identifier.
+ * @returns The turns, oldest first. Media parts are left out.
+ */
+async function getRecentTurns(senderId: string): Promise<{ role: string; text: string }[]> {
+    const { turns } = await getChatMemory(senderId);
+    return turns.slice(-RECENT_TURNS)
+        .map(item => ({
+            role: item.role,
+            text: item.parts.map(part => part.text || '').join(' ').trim().slice(0, MAX_TURN_LENGTH),
+        }))
+        .filter(turn => turn.text);
+}
+
+/**
+ * Decides whether a message is about managing the user's tasks, and remembers the decision for
+ * the next message.
+ * @param aiClient The initialized GoogleGenAI client.
+ * @param senderId The user's unique identifier.
+ * @param message The user's message (may be empty when only media was sent).
+ * @param files The media files sent with the message, already uploaded to the Gemini Files API.
+ * @returns A promise resolving to the intent to route the message to.
+ */
+export async function routeMessage(aiClient: GoogleGenAI, senderId: string, message: string, files: FileDataSource[] = []): Promise<MessageIntent> {
+    const classification = await classifyIntentWithGemini(aiClient, senderId, message, files, await getRecentTurns(senderId));
+
+    let intent: MessageIntent;
+    if (classification && classification.confidence >= CONFIDENT_INTENT) {
+        intent = classification.intent;
+    } else {
+        // When unsure, continue the conversation as it was going. Without any clue, task mode is the
+        // safer guess: the model can still just chat when it calls no task function.
+        intent = (await getLastIntent(senderId)) ?? classification?.intent ?? 'task';
+    }
+    console.log(`intent.ts: Routed a message from [${senderId}] to ${intent} (classified as ${classification ? `${classification.intent} at ${classification.confidence}` : 'unknown'}).`);
+
+    try {
+        await setLastIntent(senderId, intent);
+    } catch (error) {
+        console.error(`intent.ts: Error saving the last intent for [${senderId}].`, error);
+    }
+    return intent;
+}
@@ -0,0 +1,341 @@
+/**
+ * @file jobs.ts
+ * @description This module processes incoming messages in the background, so the Twilio webhook can
+ * be acknowledged right away however long a message takes (a long video to download, several Gemini
+ * calls, Google Tasks requests). Replies are then sent through the Twilio REST API by the handlers.
+ *
+ * The queue is chosen with the `JOB_QUEUE` environment variable:
+ * - `in-process` (default): jobs are kept in this process's memory. A message that is being processed
+ *   when the instance stops is lost.
+ * - `durable`: each job is persisted with the storage backend before the webhook is acknowledged, and
+ *   leased by the instance processing it. A job whose instance went away is taken over by another
+ *   instance (or by this one after a restart); a job that never finishes is given up on.
+ *
+ * Either way, messages from one user are processed one at a time, in the order they arrived, so a
+ * caption sent right after a photo finds the photo waiting for it. Each message joins its sender's
+ * line (persisted, so the order holds across instances) when it is enqueued, and is processed once it
+ * reaches the head. Places in line are leases, renewed while the message waits and while it is
+ * processed: a message whose instance went away drops out of line, and a message that waits too long
+ * goes ahead anyway, so a stuck message never blocks a user for good.
+ * The user is told when their message takes a while, and when it could not be processed.
+ */
+
+import crypto from 'crypto';
+import { IncomingMessage, JobQueue, MessageJobHandlers, SenderLine, StoredMessageJob } from '../types/jobs';
+import { deleteDocument, listDocumentIds, setDocument, updateDocument } from './storage';
+
+// --- CONSTANTS ---
+const MESSAGE_JOBS_COLLECTION = 'message-jobs';
+const SENDER_LINES_COLLECTION = 'sender-lines';
+
+// How many messages an instance processes at the same time; the others wait their turn.
+const getMaxConcurrentJobs = () => Number(process.env.MAX_CONCURRENT_JOBS) || 4;
+
+// How long after a message arrives the user is told that it's being worked on.
+const getSlowJobNoticeMs = () => (Number(process.env.SLOW_JOB_NOTICE_SECONDS) || 8) * 1000;
+
+// A durable job is taken over, and a message drops out of its sender's line, if its instance doesn't
+// renew the lease for this long...
+const getJobLeaseMs = () => (Number(process.env.JOB_LEASE_SECONDS) || 60) * 1000;
+const getLeaseRenewalMs = () => getJobLeaseMs() / 3; // ...which it does this often while the job waits or runs.
+const RECOVERY_INTERVAL_MS = 30 * 1000; // How often an instance looks for durable jobs to take over.
+const MAX_JOB_ATTEMPTS = 2; // A job started this many times without finishing is given up on.
+
+// How long a message waits for the messages ahead of it from the same user before going ahead anyway.
+const getSenderTurnTimeoutMs = () => (Number(process.env.SENDER_TURN_TIMEOUT_SECONDS) || 120) * 1000;
+const TURN_POLL_INTERVAL_MS = 500; // How often a waiting message checks whether its turn has come.
+
+// --- SHARED HELPERS ---
+
+/**
+ * A private helper that creates a runner executing at most `concurrency` tasks at a time, and at
+ * most one task per key. Tasks start in the order they were scheduled, skipping those whose key is busy.
+ * @param concurrency The most tasks running at once.
+ * @returns A function that schedules a task under a key.
+ */
+function createLocalRunner(concurrency: number): (key: string, task: () => Promise<void>) => void {
+    const waiting: { key: string; task: () => Promise<void> }[] = [];
+    const runningKeys = new Set<string>();
+
+    const startNext = () => {
+        for (let i = 0; i < waiting.length && runningKeys.size < concurrency;) {
+            const { key, task } = waiting[i];
+            if (runningKeys.has(key)) {
+                i++;
+                continue;
+            }
+            waiting.splice(i, 1);
+            runningKeys.add(key);
+            task()
+                .catch(error => console.error('jobs.ts: Unexpected error in a background job:', error))
+                .finally(() => {
+                    runningKeys.delete(key);
+                    startNext();
+                });
+        }
+    };
+
+    return (key, task) => {
+        waiting.push({ key, task });
+        startNext();
+    };
+}
+
+/**
+ * A private helper that puts a message in its sender's line, or keeps its place there: its lease is
+ * renewed, and the entries whose lease expired are dropped.
+ * @param message The message.
+ * @returns A promise resolving to true if the message is at the head of the line.
+ */
+async function holdPlaceInLine(message: IncomingMessage): Promise<boolean> {
+    let isFirst = false;
+    await updateDocument<SenderLine>(SENDER_LINES_COLLECTION, message.senderId, (current) => {
+        const now = Date.now();
+        const entries = (current?.entries || [])
+            .filter(entry => entry.messageSid === message.messageSid || entry.expiresAt > now)
+            .map(entry => (entry.messageSid === message.messageSid ? { ...entry, expiresAt: now + getJobLeaseMs() } : entry));
+        if (!entries.some(entry => entry.messageSid === message.messageSid)) {
+            entries.push({ messageSid: message.messageSid, expiresAt: now + getJobLeaseMs() });
+        }
+        isFirst = entries[0].messageSid === message.messageSid;
+        return { entries };
+    });
+    return isFirst;
+}
+
+/**
+ * A private helper that keeps a message's place in its sender's line, renewing its lease until the
+ * returned function is called. A message waiting behind another one would otherwise drop out of line
+ * after a lease, and a later message from the same user would be processed before it.
+ * @param message The message.
+ * @returns A function that stops renewing the place.
+ */
+function keepPlaceInLine(message: IncomingMessage): () => void {
+    const placeRenewal = setInterval(() => {
+        holdPlaceInLine(message).catch(error => console.error(`jobs.ts: Error renewing the place in line of message ${message.messageSid}:`, error));
+    }, getLeaseRenewalMs());
+    return () => clearInterval(placeRenewal);
+}
+
+/**
+ * A private helper that removes a message from its sender's line, letting the next one go.
+ * @param message The message.
+ */
+async function leaveLine(message: IncomingMessage): Promise<void> {
+    try {
+        await updateDocument<SenderLine>(SENDER_LINES_COLLECTION, message.senderId, (current) => {
+            const entries = (current?.entries || []).filter(entry => entry.messageSid !== message.messageSid);
+            return entries.length > 0 ? { entries } : null;
+        });
+    } catch (error) {
+        console.error(`jobs.ts: Error removing message ${message.messageSid} from the line of [${message.senderId}]:`, error);
+    }
+}
+
+/**
+ * A private helper that waits until the messages ahead of this one from the same user are processed,
+ * or until the wait times out.
+ * @param message The message.
+ */
+async function waitForTurn(message: IncomingMessage): Promise<void> {
+    const deadline = Date.now() + getSenderTurnTimeoutMs();
+    try {
+        while (!(await holdPlaceInLine(message))) {
+            if (Date.now() >= deadline) {
+                console.warn(`jobs.ts: Message ${message.messageSid} of [${message.senderId}] waited too long for its turn; processing it anyway.`);
+                return;
+            }
+            await new Promise(resolve => setTimeout(resolve, TURN_POLL_INTERVAL_MS));
+        }
+    } catch (error) {
+        // Processing out of order is better than not processing at all.
+        console.error(`jobs.ts: Error waiting for the turn of message ${message.messageSid} of [${message.senderId}]:`, error);
+    }
+}
+
+/**
+ * A private helper that tells the user their message could not be processed.
+ * @param message The message that failed.
+ * @param handlers The queue's handlers.
+ */
+async function notifyFailure(message: IncomingMessage, handlers: MessageJobHandlers): Promise<void> {
+    try {
+        await handlers.onFailure(message);
+    } catch (error) {
+        console.error(`jobs.ts: Error telling [${message.senderId}] that message ${message.messageSid} failed:`, error);
+    }
+}
+
+/**
+ * A private helper that processes one message once its turn has come, telling the user when it
+ * takes a while and when it fails.
+ * @param message The message to process.
+ * @param enqueuedAt When the message was enqueued; the wait counts towards the slow-job notice.
+ * @param handlers The queue's handlers.
+ */
+async function runJob(message: IncomingMessage, enqueuedAt: number, handlers: MessageJobHandlers): Promise<void> {
+    const slowNotice = setTimeout(() => {
+        handlers.onSlow(message).catch(error => console.error(`jobs.ts: Error sending the progress notice to [${message.senderId}]:`, error));
+    }, Math.max(0, enqueuedAt + getSlowJobNoticeMs() - Date.now()));
+
+    const releasePlace = keepPlaceInLine(message);
+    try {
+        await waitForTurn(message);
+        await handlers.process(message);
+        console.log(`jobs.ts: Processed message ${message.messageSid} of [${message.senderId}] in ${Date.now() - enqueuedAt} ms.`);
+    } catch (error) {
+        console.error(`jobs.ts: Error processing message ${message.messageSid} of [${message.senderId}]:`, error);
+        await notifyFailure(message, handlers);
+    } finally {
+        clearTimeout(slowNotice);
+        releasePlace();
+        await leaveLine(message);
+    }
+}
+
+// --- QUEUES ---
+
+/**
+ * A private helper that puts a newly arrived message in its sender's line, and keeps its place there
+ * while the message waits on this instance for its sender's earlier messages. A message that can't
+ * join now joins when it is processed, at the back.
+ * @param message The message.
+ * @returns A function to call once processing starts, which stops keeping the place (processing keeps it from then on).
+ */
+async function joinLine(message: IncomingMessage): Promise<() => void> {
+    try {
+        await holdPlaceInLine(message);
+    } catch (error) {
+        console.error(`jobs.ts: Error adding message ${message.messageSid} to the line of [${message.senderId}]:`, error);
+    }
+    return keepPlaceInLine(message);
+}
+
+/**
+ * Creates a queue that processes messages in this process, without persisting them.
+ * @param handlers What to do with the messages.
+ * @returns The JobQueue.
+ */
+export function createInProcessJobQueue(handlers: MessageJobHandlers): JobQueue {
+    const schedule = createLocalRunner(getMaxConcurrentJobs());
+    return {
+        name: 'in-process',
+
+        async enqueue(message) {
+            const enqueuedAt = Date.now();
+            const releasePlace = await joinLine(message);
+            schedule(message.senderId, () => {
+                releasePlace();
+                return runJob(message, enqueuedAt, handlers);
+            });
+        },
+    };
+}
+
+/**
+ * Creates a queue that persists each message before processing it, so no message is lost when an
+ * instance stops. Jobs are leased while they run; any instance takes over a job whose lease expired.
+ * @param handlers What to do with the messages.
+ * @returns The JobQueue.
+ */
+export function createDurableJobQueue(handlers: MessageJobHandlers): JobQueue {
+    const schedule = createLocalRunner(getMaxConcurrentJobs());
+    // The jobs scheduled on this instance, so the recovery sweep doesn't schedule them twice.
+    const scheduledJobIds = new Set<string>();
+
+    const claimAndRun = async (jobId: string) => {
+        const leaseOwner = crypto.randomUUID();
+        const now = Date.now();
+        const previous = await updateDocument<StoredMessageJob>(MESSAGE_JOBS_COLLECTION, jobId, (current) =>
+            current && current.leaseExpiresAt <= now
+                ? { ...current, attempts: current.attempts + 1, leaseOwner, leaseExpiresAt: now + getJobLeaseMs() }
+                : current);
+        if (!previous || previous.leaseExpiresAt > now) {
+            return; // Already done, or being processed by another instance.
+        }
+
+        if (previous.attempts >= MAX_JOB_ATTEMPTS) {
+            // Every instance that started the job went away: the message itself may be what brings them down.
+            console.error(`jobs.ts: Giving up on message ${jobId} of [${previous.message.senderId}] after ${previous.attempts} attempts.`);
+            await notifyFailure(previous.message, handlers);
+            await leaveLine(previous.message);
+            await deleteDocument(MESSAGE_JOBS_COLLECTION, jobId);
+            return;
+        }
+        if (previous.attempts > 0) {
+            console.warn(`jobs.ts: Taking over message ${jobId} of [${previous.message.senderId}], abandoned by another instance.`);
+        }
+
+        const leaseRenewal = setInterval(() => {
+            updateDocument<StoredMessageJob>(MESSAGE_JOBS_COLLECTION, jobId, (current) =>
+                current && current.leaseOwner === leaseOwner ? { ...current, leaseExpiresAt: Date.now() + getJobLeaseMs() } : current)
+                .catch(error => console.error(`jobs.ts: Error renewing the lease of message ${jobId}:`, error));
+        }, getLeaseRenewalMs());
+        try {
+            await runJob(previous.message, previous.enqueuedAt, handlers);
+        } finally {
+            clearInterval(leaseRenewal);
+            await deleteDocument(MESSAGE_JOBS_COLLECTION, jobId);
+        }
+    };
+
+    // Jobs found by the recovery sweep are scheduled before their sender is known; their place in
+    // the persisted line still keeps them in order.
+    const scheduleJob = (jobId: string, senderId: string = jobId, releasePlace: () => void = () => {}) => {
+        if (scheduledJobIds.has(jobId)) {
+            releasePlace();
+            return;
+        }
+        scheduledJobIds.add(jobId);
+        schedule(senderId, () => {
+            releasePlace();
+            return claimAndRun(jobId).finally(() => scheduledJobIds.delete(jobId));
+        });
+    };
+
+    const recoverJobs = async () => {
+        try {
+            (await listDocumentIds(MESSAGE_JOBS_COLLECTION)).forEach(jobId => scheduleJob(jobId));
+        } catch (error) {
+            console.error('jobs.ts: Error looking for message jobs to take over:', error);
+        }
+    };
+    // Jobs left behind by a previous run of this instance are picked up right away.
+    recoverJobs();
+    setInterval(recoverJobs, RECOVERY_INTERVAL_MS).unref();
+
+    return {
+        name: 'durable',
+
+        async enqueue(message) {
+            const job: StoredMessageJob = { message, enqueuedAt: Date.now(), attempts: 0, leaseOwner: null, leaseExpiresAt: 0 };
+            const releasePlace = await joinLine(message);
+            try {
+                await setDocument(MESSAGE_JOBS_COLLECTION, message.messageSid, job);
+            } catch (error) {
+                releasePlace();
+                await leaveLine(message);
+                throw error;
+            }
+            scheduleJob(message.messageSid, message.senderId, releasePlace);
+        },
+    };
+}
+
+/**
+ * Creates the job queue named by the `JOB_QUEUE` environment variable.
+ * @param handlers What to do with the messages.
+ * @returns The configured JobQueue.
+ * @throws {Error} If the configured queue is unknown.
+ */
+export function createConfiguredJobQueue(handlers: MessageJobHandlers): JobQueue {
+    const queueName = (process.env.JOB_QUEUE || 'in-process').toLowerCase();
+    switch (queueName) {
+        case 'in-process':
+            return createInProcessJobQueue(handlers);
+        case 'durable':
+            return createDurableJobQueue(handlers);
+        default:
+            throw new Error(`Unknown JOB_QUEUE "${queueName}". Use "in-process" or "durable".`);
+    }
+}
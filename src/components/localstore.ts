@@ -0,0 +1,131 @@
+/**
+ * @file localstore.ts
+ * @description This module implements local storage backends that need no cloud project:
+ * an in-memory backend (handy for tests and throwaway sessions) and a JSON-file backend that
+ * persists the same data to disk, so the bot can run fully offline on a developer's machine.
+ * Both are meant for a single process; use the Firestore backend when running several instances.
+ */
+
+import fs from 'fs';
+import { promises as fsPromises } from 'fs';
+import path from 'path';
+import { StorageBackend } from '../types/storage';
+
+/**
+ * The in-memory layout of all collections: collection name -> document ID -> document data.
+ */
+type CollectionsData = Record<string, Record<string, object>>;
+
+/**
+ * Deep-copies a document through JSON, which also drops 'undefined' properties the same way
+ * the Firestore backend does. Callers therefore never hold a reference into the store itself.
+ * @param data The document to copy.
+ * @returns An independent copy of the document.
+ */
+function cloneDocument<T>(data: T): T {
+    return JSON.parse(JSON.stringify(data));
+}
+
+/**
+ * A private helper that builds a backend around an in-memory collections object.
+ * @param name The backend name, used for logging.
+ * @param data The collections object to read and mutate.
+ * @param onChange A callback invoked after every mutation, e.g. to persist the data.
+ * @returns A StorageBackend operating on the given data.
+ */
+function createBackendFromData(name: string, data: CollectionsData, onChange: () => Promise<void>): StorageBackend {
+    const collectionOf = (collection: string) => (data[collection] ??= {});
+
+    return {
+        name,
+
+        async getDocument<T>(collection: string, docId: string): Promise<T | null> {
+            const doc = collectionOf(collection)[docId];
+            return doc ? cloneDocument(doc as T) : null;
+        },
+
+        async setDocument<T extends object>(collection: string, docId: string, doc: T): Promise<void> {
+            collectionOf(collection)[docId] = cloneDocument(doc);
+            await onChange();
+        },
+
+        async deleteDocument(collection: string, docId: string): Promise<void> {
+            if (collectionOf(collection)[docId]) {
+                delete collectionOf(collection)[docId];
+                await onChange();
+            }
+        },
+
+        async updateDocument<T extends object>(
+            collection: string,
+            docId: string,
+            updater: (current: T | null) => T | null
+        ): Promise<T | null> {
+            // The read and the write happen synchronously, so no other operation can interleave.
+            const existing = collectionOf(collection)[docId];
+            const current = existing ? cloneDocument(existing as T) : null;
+            const next = updater(current ? cloneDocument(current) : null);
+            if (next === null) {
+                delete collectionOf(collection)[docId];
+            } else {
+                collectionOf(collection)[docId] = cloneDocument(next);
+            }
+            await onChange();
+            return current;
+        },
+
+        async listDocumentIds(collection: string): Promise<string[]> {
+            return Object.keys(collectionOf(collection));
+        },
+    };
+}
+
+/**
+ * Creates a storage backend that keeps everything in memory. All data is lost on restart.
+ * @returns An in-memory StorageBackend.
+ */
+export function createMemoryBackend(): StorageBackend {
+    console.log('localstore.ts: Using in-memory storage. Data will not survive a restart.');
+    return createBackendFromData('memory', {}, async () => {});
+}
+
+/**
+ * Creates a storage backend that keeps everything in memory and persists it to a JSON file
+ * after every change. The file is loaded once, when the backend is created.
+ * @param filePath The path of the JSON file to load from and save to.
+ * @returns A file-backed StorageBackend.
+ */
+export function createFileBackend(filePath: string): StorageBackend {
+    const resolvedPath = path.resolve(filePath);
+    let data: CollectionsData = {};
+
+    if (fs.existsSync(resolvedPath)) {
+        try {
+            data = JSON.parse(fs.readFileSync(resolvedPath, 'utf-8'));
+        } catch (error) {
+            // Refuse to start rather than silently overwriting the user's data with an empty store.
+            console.error(`localstore.ts: Could not parse storage file "${resolvedPath}".`, error);
+            throw new Error(`Storage file "${resolvedPath}" is corrupted.`);
+        }
+    } else {
+        fs.mkdirSync(path.dirname(resolvedPath), { recursive: true });
+    }
+    console.log(`localstore.ts: Using file storage at "${resolvedPath}".`);
+
+    // Writes are chained so they land on disk in order, and each goes through a temporary file
+    // so a crash mid-write never leaves a truncated storage file behind.
+    let pendingWrite: Promise<void> = Promise.resolve();
+    const persist = (): Promise<void> => {
+        const snapshot = JSON.stringify(data, null, 2);
+        pendingWrite = pendingWrite
+            .catch(() => {})
+            .then(async () => {
+                const tempPath = `${resolvedPath}.tmp`;
+                await fsPromises.writeFile(tempPath, snapshot, 'utf-8');
+                await fsPromises.rename(tempPath, resolvedPath);
+            });
+        return pendingWrite;
+    };
+
+    return createBackendFromData(`file (${resolvedPath})`, data, persist);
+}
@@ -0,0 +1,253 @@
+/**
+ * @file matching.ts
+ * @description This module works out which task a user is referring to ("delete the milk one",
+ * "complete 3", "remove the 3 slides task"). Every candidate title is scored on token overlap and
+ * edit distance; a clear winner is acted on directly. Tasks are told apart by ID, as several can
+ * share a title. When the best candidates are too close to
+ * call, or nothing matches by words at all, Gemini is asked to break the tie semantically. Whatever
+ * remains uncertain is returned as a short list of top candidates for the user to choose from.
+ * It also reads replies that pick several tasks at once ("1, 3 and 5", "2-4", "all"), and replies
+ * that confirm a batch of deletions.
+ */
+
+import { GoogleGenAI } from '@google/genai';
+import { TaskRef } from '../types/chat';
+import { chooseTaskWithGemini } from './gemini';
+
+// --- CONSTANTS ---
+const CONFIDENT_SCORE = 0.8; // A match scoring at least this much can be acted on...
+const CONFIDENT_MARGIN = 0.15; // ...as long as the runner-up is at least this far behind.
+const CANDIDATE_SCORE = 0.4; // Titles scoring less aren't worth offering to the user.
+const MAX_CANDIDATES = 5; // The most candidates offered when the reference is ambiguous.
+const MAX_SEMANTIC_TITLES = 50; // The most titles sent to Gemini when nothing matches by words.
+
+// Words that say nothing about which task is meant (e.g. "the milk one", "a tarefa do relatório").
+const FILLER_WORDS = new Set([
+    'the', 'a', 'an', 'my', 'one', 'task', 'todo', 'to-do', 'item', 'number', 'no', 'please', 'that', 'this', 'about', 'of', 'for',
+    'o', 'os', 'as', 'um', 'uma', 'meu', 'minha', 'tarefa', 'numero', 'de', 'do', 'da', 'sobre', 'essa', 'esse', 'aquela', 'aquele',
+    'el', 'la', 'los', 'las', 'mi', 'tarea', 'del',
+]);
+
+// Words that join positions in a reply ("1, 3 and 5", "1 e 3") or make a range ("2 to 4", "2 a 4").
+const LIST_SEPARATOR_WORDS = new Set(['and', 'e', 'y', 'tasks', 'task', 'tarefas', 'tareas', 'numbers', 'the']);
+const RANGE_WORDS = new Set(['to', 'through', 'a', 'ate', 'hasta']);
+const ALL_WORDS = new Set(['all', 'all of them', 'todas', 'todos', 'todas elas', 'todos eles']);
+// Replies that confirm a batch of deletions, without accents.
+const CONFIRMATION_WORDS = new Set(['yes', 'y', 'confirm', 'ok', 'sim', 's', 'si']);
+
+/**
+ * The outcome of matching a reference against tasks: a single task to act on, several candidates
+ * for the user to choose from, or nothing.
+ */
+export type TaskMatch =
+    | { kind: 'confident'; task: TaskRef }
+    | { kind: 'ambiguous'; candidates: TaskRef[] }
+    | { kind: 'none' };
+
+/**
+ * Names a task the way it is presented to the user (and to Gemini): its title and, for a subtask,
+ * the task it is a step of, so tasks sharing a title can be told apart.
+ * @param task The task to name.
+ * @returns The task's title, followed by its parent's title for a subtask.
+ */
+export function describeTask(task: TaskRef): string {
+    return task.parentTitle ? `${task.title} (step of "${task.parentTitle}")` : task.title;
+}
+
+/**
+ * A private helper that splits text into comparable words: lowercase, without accents or punctuation.
+ * @param text The text to split.
+ * @returns The words, in order.
+ */
+function tokenize(text: string): string[] {
+    return text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+        .split(/\s+/)
+        .filter(Boolean);
+}
+
+/**
+ * A private helper that computes the edit distance between two strings, counting a swap of two
+ * adjacent characters as a single edit (a common typo, as in "reprot").
+ * @param a The first string.
+ * @param b The second string.
+ * @returns The number of single-character insertions, deletions, substitutions or swaps between them.
+ */
+function editDistance(a: string, b: string): number {
+    const distances = Array.from({ length: a.length + 1 }, (_, i) => Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            distances[i][j] = Math.min(distances[i - 1][j] + 1, distances[i][j - 1] + 1, distances[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                distances[i][j] = Math.min(distances[i][j], distances[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return distances[a.length][b.length];
+}
+
+/**
+ * A private helper that scores how alike two strings are, from 0 (nothing in common) to 1 (equal).
+ * @param a The first string.
+ * @param b The second string.
+ * @returns The similarity, based on edit distance.
+ */
+function similarity(a: string, b: string): number {
+    const longest = Math.max(a.length, b.length);
+    return longest === 0 ? 1 : 1 - editDistance(a, b) / longest;
+}
+
+/**
+ * A private helper that scores how alike two words are, tolerating plurals and small typos
+ * ("slide"/"slides", "reprot"/"report") but not unrelated short words.
+ * @param a The first word.
+ * @param b The second word.
+ * @returns The similarity, from 0 to 1.
+ */
+function wordSimilarity(a: string, b: string): number {
+    if (a === b) return 1;
+    if (Math.min(a.length, b.length) >= 3 && (a.startsWith(b) || b.startsWith(a))) return 0.9;
+    const score = similarity(a, b);
+    return score >= 0.75 ? score : 0;
+}
+
+/**
+ * Scores how well a reference describes a task title, from 0 to 1. The score is the better of a
+ * word-level score (how many of the reference's meaningful words appear in the title, allowing
+ * small typos) and the edit-distance similarity of the whole texts.
+ * @param reference How the user referred to the task.
+ * @param title The task title.
+ * @returns The score.
+ */
+export function scoreTaskTitle(reference: string, title: string): number {
+    const referenceWords = tokenize(reference).filter(word => !FILLER_WORDS.has(word));
+    const titleWords = tokenize(title);
+    if (referenceWords.length === 0 || titleWords.length === 0) {
+        return 0;
+    }
+
+    const bestMatches = referenceWords.map(word => Math.max(...titleWords.map(titleWord => wordSimilarity(word, titleWord))));
+    const coverage = bestMatches.reduce((sum, score) => sum + score, 0) / referenceWords.length;
+    // Among titles covering the reference equally well, prefer the one with fewer extra words.
+    const precision = Math.min(1, bestMatches.filter(score => score > 0).length / titleWords.length);
+    const wordScore = coverage * (0.8 + 0.2 * precision);
+
+    return Math.max(wordScore, similarity(referenceWords.join(' '), titleWords.join(' ')));
+}
+
+/**
+ * A private helper that reads a reference that is only a position in the list, such as "3",
+ * "#3", "the 3rd one" or "task 3". A reference with other words ("the 3 slides task") is not a position.
+ * @param reference How the user referred to the task.
+ * @returns The 1-based position, or null if the reference isn't a position.
+ */
+function parsePosition(reference: string): number | null {
+    const words = tokenize(reference.replace(/#/g, ' ')).filter(word => !FILLER_WORDS.has(word));
+    const match = words.length === 1 ? words[0].match(/^(\d+)(?:st|nd|rd|th|o|a)?$/) : null;
+    return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Works out which of the given tasks a reference points to. A position in the list, or a title
+ * that only one task has, wins outright; otherwise titles are scored, and a clear winner is
+ * returned as confident. Tasks sharing a title always score the same, so they are never a clear
+ * winner. When the top candidates are too close to call, or nothing matches by words, Gemini is
+ * asked to pick one; if it can't, the top candidates are returned for the user to choose from.
+ * @param aiClient The initialized GoogleGenAI client, or null to match on words only.
+ * @param senderId The user's unique identifier, used for logging.
+ * @param reference How the user referred to the task: its title, part of it, a description, or its number.
+ * @param tasks The candidate tasks, in the order they were (or would be) presented.
+ * @returns A promise resolving to the match.
+ */
+export async function matchTask(aiClient: GoogleGenAI | null, senderId: string, reference: string, tasks: TaskRef[]): Promise<TaskMatch> {
+    const normalizedReference = reference.trim().toLowerCase();
+    const exactMatches = tasks.filter(task => task.title.trim().toLowerCase() === normalizedReference);
+    if (exactMatches.length === 1) {
+        return { kind: 'confident', task: exactMatches[0] };
+    }
+
+    const position = parsePosition(reference);
+    if (position !== null) {
+        return position > 0 && position <= tasks.length
+            ? { kind: 'confident', task: tasks[position - 1] }
+            : { kind: 'none' };
+    }
+
+    const scored = tasks
+        .map(task => ({ task, score: scoreTaskTitle(reference, task.title) }))
+        .sort((a, b) => b.score - a.score);
+    const [best, runnerUp] = scored;
+    if (best && best.score >= CONFIDENT_SCORE && (!runnerUp || best.score - runnerUp.score >= CONFIDENT_MARGIN)) {
+        return { kind: 'confident', task: best.task };
+    }
+
+    const candidates = scored.filter(candidate => candidate.score >= CANDIDATE_SCORE).slice(0, MAX_CANDIDATES).map(candidate => candidate.task);
+    // With a single lexical candidate there is nothing to break; without any, Gemini may still
+    // recognize a description ("the dairy one" for "Buy milk").
+    const semanticPool = candidates.length > 1 ? candidates : candidates.length === 0 ? scored.slice(0, MAX_SEMANTIC_TITLES).map(candidate => candidate.task) : [];
+    if (aiClient && semanticPool.length > 0) {
+        const choice = await chooseTaskWithGemini(aiClient, senderId, reference, semanticPool.map(describeTask));
+        if (choice !== null) {
+            console.log(`matching.ts: Gemini matched "${reference}" to task [${semanticPool[choice].id}] for [${senderId}].`);
+            return { kind: 'confident', task: semanticPool[choice] };
+        }
+    }
+
+    return candidates.length > 0 ? { kind: 'ambiguous', candidates } : { kind: 'none' };
+}
+
+/**
+ * Reads a reply that picks several tasks from a numbered list by position: lists and ranges such
+ * as "1, 3 and 5", "2-4", "1 3 5" or "2 to 4", or "all" for every task.
+ * @param reply The user's reply.
+ * @param count How many tasks were listed.
+ * @returns The 1-based positions, in the order given and without repeats, or null if the reply
+ * isn't only positions or mentions one that isn't listed.
+ */
+export function parsePositions(reply: string, count: number): number[] | null {
+    const normalized = tokenize(reply.replace(/(\d)\s*-\s*(\d)/g, '$1 to $2')).join(' ');
+    if (ALL_WORDS.has(normalized)) {
+        return Array.from({ length: count }, (_, i) => i + 1);
+    }
+
+    const words = normalized.split(' ').filter(word => !LIST_SEPARATOR_WORDS.has(word));
+    if (words.length === 0 || !words.every(word => /^\d+$/.test(word) || RANGE_WORDS.has(word))) {
+        return null;
+    }
+
+    const positions: number[] = [];
+    for (let i = 0; i < words.length; i++) {
+        if (RANGE_WORDS.has(words[i])) continue;
+        const start = parseInt(words[i], 10);
+        const end = RANGE_WORDS.has(words[i + 1]) && /^\d+$/.test(words[i + 2] || '') ? parseInt(words[i + 2], 10) : start;
+        if (start < 1 || end > count || end < start) {
+            return null;
+        }
+        for (let position = start; position <= end; position++) positions.push(position);
+        if (end !== start || RANGE_WORDS.has(words[i + 1])) i += 2;
+    }
+    return positions.length > 0 ? [...new Set(positions)] : null;
+}
+
+/**
+ * Finds every task a description applies to, for requests like "mark all the demo tasks done".
+ * @param reference The words the target tasks share (e.g. "demo").
+ * @param tasks The tasks to search, in list order.
+ * @returns The matching tasks, in list order.
+ */
+export function findAllMatchingTasks(reference: string, tasks: TaskRef[]): TaskRef[] {
+    return tasks.filter(task => scoreTaskTitle(reference, task.title) >= CONFIDENT_SCORE);
+}
+
+/**
+ * Tells whether a reply confirms a batch of deletions ("yes", "Sim!", "ok").
+ * @param reply The user's reply.
+ * @returns True if the reply is a confirmation and nothing else.
+ */
+export function isConfirmation(reply: string): boolean {
+    return CONFIRMATION_WORDS.has(tokenize(reply).join(' '));
+}
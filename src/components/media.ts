@@ -0,0 +1,184 @@
+/**
+ * @file media.ts
+ * @description This module manages the lifecycle of the media files users send. Attachments are
+ * checked (type and size) before they are downloaded from Twilio, and only kept on local disk until
+ * they are uploaded to the Gemini Files API. A janitor, run periodically, removes local files left
+ * behind (e.g. by a crash) and media that was never given instructions, deleting its uploaded copy.
+ */
+
+import fs from 'fs';
+import { promises as fsPromises } from 'fs';
+import path from 'path';
+import axios from 'axios';
+import { GoogleGenAI } from '@google/genai';
+import { deleteGeminiFiles } from './gemini';
+import { sweepExpiredPendingMedia } from './chatstate';
+
+// --- CONSTANTS ---
+const MEDIA_DIR = path.join('/tmp', 'media');
+const MB_IN_BYTES = 1024 * 1024;
+
+// WhatsApp caps media at 16 MB; anything bigger is refused without being downloaded.
+const getMaxMediaBytes = () => (Number(process.env.MAX_MEDIA_SIZE_MB) || 16) * MB_IN_BYTES;
+
+// Local copies only live for the time of an upload, so any file older than this was left behind.
+const LOCAL_FILE_MAX_AGE_MS = 15 * 60 * 1000;
+
+// Document formats Gemini can read, besides audio, images and videos.
+const DOCUMENT_MIME_TYPES = [
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+/**
+ * Why an attachment was refused.
+ */
+export type MediaRejectionReason = 'unsupported' | 'too_large';
+
+/**
+ * Thrown when an attachment is refused before (or while) it is downloaded, so the caller can tell the user why.
+ */
+export class MediaRejectedError extends Error {
+    constructor(public readonly reason: MediaRejectionReason, public readonly mimeType: string) {
+        super(`The media file (${mimeType}) was refused: ${reason}.`);
+        this.name = 'MediaRejectedError';
+    }
+}
+
+/**
+ * What a janitor run cleaned up, for logging.
+ */
+export interface MediaJanitorSummary {
+    localFilesDeleted: number;
+    pendingMediaExpired: number;
+    remoteFilesDeleted: number;
+}
+
+/**
+ * Returns the largest attachment accepted, in megabytes, for messages to the user.
+ * @returns The size limit in megabytes.
+ */
+export function getMaxMediaSizeMb(): number {
+    return getMaxMediaBytes() / MB_IN_BYTES;
+}
+
+/**
+ * Checks whether Gemini can process a media type.
+ * @param mimeType The MIME type of the media file.
+ * @returns True for audio, images, videos and common document formats.
+ */
+export function isSupportedMediaType(mimeType: string): boolean {
+    return ['audio/', 'image/', 'video/'].some(prefix => mimeType.startsWith(prefix)) || DOCUMENT_MIME_TYPES.includes(mimeType);
+}
+
+/**
+ * Downloads an attachment from Twilio to local disk. Its type is checked before anything is
+ * requested, and its size as soon as the response headers arrive; a download that turns out
+ * bigger than announced is stopped once it passes the limit.
+ * @param mediaUrl The Twilio URL of the attachment.
+ * @param mediaContentType The MIME type Twilio reported for it.
+ * @param senderId The user's unique identifier, used to name the file.
+ * @returns A promise resolving to the path of the local file.
+ * @throws {MediaRejectedError} If the attachment's type isn't supported or it is too large.
+ */
+export async function downloadMedia(mediaUrl: string, mediaContentType: string, senderId: string): Promise<string> {
+    if (!isSupportedMediaType(mediaContentType)) {
+        throw new MediaRejectedError('unsupported', mediaContentType);
+    }
+
+    const maxBytes = getMaxMediaBytes();
+    const response = await axios({
+        method: 'GET',
+        url: mediaUrl,
+        responseType: 'stream',
+        auth: {
+            username: process.env.TWILIO_ACCOUNT_SID!,
+            password: process.env.TWILIO_AUTH_TOKEN!
+        }
+    });
+    if (Number(response.headers['content-length']) > maxBytes) {
+        response.data.destroy();
+        throw new MediaRejectedError('too_large', mediaContentType);
+    }
+
+    await fsPromises.mkdir(MEDIA_DIR, { recursive: true });
+    const fileExtension = mediaContentType.split('/')[1] || 'tmp';
+    const localFilePath = path.join(MEDIA_DIR, `${senderId}-${Date.now()}.${fileExtension}`);
+    const writer = fs.createWriteStream(localFilePath);
+
+    return new Promise((resolve, reject) => {
+        let receivedBytes = 0;
+        let failed = false;
+        const fail = (error: Error) => {
+            if (failed) return;
+            failed = true;
+            response.data.destroy();
+            writer.destroy();
+            fsPromises.unlink(localFilePath).catch(() => undefined).finally(() => reject(error));
+        };
+        response.data.on('data', (chunk: Buffer) => {
+            receivedBytes += chunk.length;
+            if (receivedBytes > maxBytes) {
+                fail(new MediaRejectedError('too_large', mediaContentType));
+            }
+        });
+        response.data.on('error', fail);
+        writer.on('error', fail);
+        writer.on('finish', () => resolve(localFilePath));
+        response.data.pipe(writer);
+    });
+}
+
+/**
+ * A private helper that deletes the local media files older than the given age.
+ * @param maxAgeMs The age past which a file is considered left behind.
+ * @returns A promise resolving to the number of files deleted.
+ */
+async function sweepLocalMediaFiles(maxAgeMs: number): Promise<number> {
+    let deleted = 0;
+    let fileNames: string[];
+    try {
+        fileNames = await fsPromises.readdir(MEDIA_DIR);
+    } catch {
+        return 0; // Nothing was ever downloaded on this instance.
+    }
+    for (const fileName of fileNames) {
+        const filePath = path.join(MEDIA_DIR, fileName);
+        try {
+            const { mtimeMs } = await fsPromises.stat(filePath);
+            if (Date.now() - mtimeMs > maxAgeMs) {
+                await fsPromises.unlink(filePath);
+                deleted++;
+            }
+        } catch (error) {
+            console.error(`media.ts: Error cleaning up local media file ${filePath}:`, error);
+        }
+    }
+    return deleted;
+}
+
+/**
+ * Cleans up media that is no longer needed: local files left behind on this instance, and media
+ * users sent without ever replying with instructions, whose uploaded copies are deleted from Gemini.
+ * Safe to run on several instances at once.
+ * @param aiClient The initialized GoogleGenAI client.
+ * @returns A promise resolving to what was cleaned up.
+ */
+export async function runMediaJanitor(aiClient: GoogleGenAI): Promise<MediaJanitorSummary> {
+    const localFilesDeleted = await sweepLocalMediaFiles(LOCAL_FILE_MAX_AGE_MS);
+
+    const expired = await sweepExpiredPendingMedia();
+    let remoteFilesDeleted = 0;
+    for (const { senderId, media } of expired) {
+        remoteFilesDeleted += await deleteGeminiFiles(aiClient, senderId, media);
+    }
+
+    const summary = { localFilesDeleted, pendingMediaExpired: expired.length, remoteFilesDeleted };
+    if (localFilesDeleted || expired.length) {
+        console.log(`media.ts: Media janitor cleaned up ${JSON.stringify(summary)}.`);
+    }
+    return summary;
+}
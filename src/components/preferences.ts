@@ -0,0 +1,199 @@
+/**
+ * @file preferences.ts
+ * @description This module manages each user's preferences: their time zone, reply language,
+ * task list, default due date, whether the model may use Google Search, and when the bot may send
+ * them reminders and a morning digest. Users change them with the `/settings` command. Only the
+ * values a user has explicitly set are stored; everything else falls back to the application
+ * defaults, so a new default reaches every user who kept the old one.
+ */
+
+import { DefaultDueDateRule, QuietHours, UserPreferences } from '../types/chat';
+import { getDocument, updateDocument, deleteDocument } from './storage';
+import { getDefaultTimeZone, isValidTimeZone } from './dates';
+
+// --- CONSTANTS ---
+const USER_PREFERENCES_COLLECTION = 'user-preferences';
+const DEFAULT_DIGEST_HOUR = 8;
+const DEFAULT_QUIET_HOURS: QuietHours = { start: 22, end: 8 };
+
+export const DEFAULT_TASK_LIST_NAME = 'GDM DevRel list';
+export const DEFAULT_DUE_DATE_RULES: DefaultDueDateRule[] = ['next_business_day', 'today', 'tomorrow', 'none'];
+
+// The names accepted by `/settings <name> <value>`, mapped to the preference they change.
+// The default list (`/settings list <name>`) is not here: it is resolved to a list ID with Google Tasks.
+const SETTING_NAMES: Record<string, keyof UserPreferences> = {
+    timezone: 'timeZone',
+    tz: 'timeZone',
+    language: 'locale',
+    lang: 'locale',
+    locale: 'locale',
+    due: 'defaultDueDate',
+    search: 'googleSearchEnabled',
+    reminders: 'remindersEnabled',
+    digest: 'digestHour',
+    quiet: 'quietHours',
+};
+
+/**
+ * Returns the preferences of a user who hasn't changed anything.
+ * @returns The default preferences.
+ */
+export function getDefaultPreferences(): UserPreferences {
+    return {
+        timeZone: getDefaultTimeZone(),
+        locale: null,
+        defaultTaskListId: null,
+        defaultDueDate: 'next_business_day',
+        googleSearchEnabled: true,
+        remindersEnabled: true,
+        digestHour: null,
+        quietHours: DEFAULT_QUIET_HOURS,
+    };
+}
+
+/**
+ * Loads a user's preferences, filling in defaults for everything they haven't set.
+ * @param senderId The user's unique identifier.
+ * @returns The user's effective preferences.
+ */
+export async function getUserPreferences(senderId: string): Promise<UserPreferences> {
+    try {
+        const stored = await getDocument<Partial<UserPreferences>>(USER_PREFERENCES_COLLECTION, senderId);
+        return { ...getDefaultPreferences(), ...stored };
+    } catch (error) {
+        // Preferences are a convenience; failing to load them must not stop the conversation.
+        console.error(`preferences.ts: Error loading preferences for [${senderId}]. Using defaults.`, error);
+        return getDefaultPreferences();
+    }
+}
+
+/**
+ * Saves changes to a user's preferences, keeping the ones that aren't part of the change.
+ * @param senderId The user's unique identifier.
+ * @param changes The preferences to change.
+ * @returns The user's effective preferences after the change.
+ */
+export async function updateUserPreferences(senderId: string, changes: Partial<UserPreferences>): Promise<UserPreferences> {
+    let updated: Partial<UserPreferences> = {};
+    await updateDocument<Partial<UserPreferences>>(USER_PREFERENCES_COLLECTION, senderId, (current) => {
+        updated = { ...current, ...changes };
+        return updated;
+    });
+    console.log(`preferences.ts: Updated preferences for [${senderId}]: ${Object.keys(changes).join(', ')}.`);
+    return { ...getDefaultPreferences(), ...updated };
+}
+
+/**
+ * Restores all of a user's preferences to the defaults.
+ * @param senderId The user's unique identifier.
+ */
+export async function resetUserPreferences(senderId: string): Promise<void> {
+    await deleteDocument(USER_PREFERENCES_COLLECTION, senderId);
+    console.log(`preferences.ts: Reset preferences for [${senderId}].`);
+}
+
+/**
+ * Describes a language tag in English for display and for the model (e.g. "Portuguese (Brazil)").
+ * @param locale A BCP 47 language tag.
+ * @returns The language name, or the tag itself if the runtime can't name it.
+ */
+export function describeLocale(locale: string): string {
+    try {
+        return new Intl.DisplayNames(['en'], { type: 'language' }).of(locale) || locale;
+    } catch {
+        return locale;
+    }
+}
+
+/**
+ * A private helper that parses an on/off switch.
+ * @param value The value typed by the user.
+ * @returns True for on, false for off, or null if the value is neither.
+ */
+function parseSwitch(value: string): boolean | null {
+    const normalized = value.toLowerCase();
+    if (['on', 'true', 'yes'].includes(normalized)) return true;
+    if (['off', 'false', 'no'].includes(normalized)) return false;
+    return null;
+}
+
+/**
+ * A private helper that parses an hour of the day, such as "8", "08" or "08:00".
+ * @param value The value typed by the user.
+ * @returns The hour (0-23), or null if the value isn't a whole hour.
+ */
+function parseHour(value: string): number | null {
+    const match = value.match(/^(\d{1,2})(?::00)?$/);
+    const hour = match ? Number(match[1]) : NaN;
+    return hour >= 0 && hour <= 23 ? hour : null;
+}
+
+/**
+ * Parses a `/settings <name> <value>` command into a change to the user's preferences.
+ * @param name The setting name, as typed by the user (e.g. "timezone", "due").
+ * @param rawValue The new value, as typed by the user.
+ * @returns The validated change, or an error message string explaining what's wrong.
+ */
+export function parsePreferenceChange(name: string, rawValue: string): Partial<UserPreferences> | string {
+    const key = SETTING_NAMES[name.toLowerCase()];
+    const value = rawValue.trim();
+    if (!key) {
+        return `Unknown setting "${name}". Send /settings to see the available settings.`;
+    }
+    if (!value) {
+        return `Please tell me the new value, e.g. "/settings ${name.toLowerCase()} <value>".`;
+    }
+
+    switch (key) {
+        case 'timeZone':
+            if (!isValidTimeZone(value)) {
+                return `"${value}" is not a time zone I know. Please use a name like "America/Sao_Paulo" or "Europe/Lisbon".`;
+            }
+            // The runtime accepts any casing; store the canonical spelling.
+            return { timeZone: new Intl.DateTimeFormat('en-US', { timeZone: value }).resolvedOptions().timeZone };
+        case 'locale':
+            if (value.toLowerCase() === 'auto') {
+                return { locale: null };
+            }
+            try {
+                return { locale: Intl.getCanonicalLocales(value)[0] };
+            } catch {
+                return `"${value}" is not a language code I know. Please use a code like "en", "pt-BR" or "es", or "auto" to reply in the language you write in.`;
+            }
+        case 'defaultDueDate': {
+            const rule = value.toLowerCase().replace(/[\s-]+/g, '_') as DefaultDueDateRule;
+            if (!DEFAULT_DUE_DATE_RULES.includes(rule)) {
+                return `The default due date must be one of: ${DEFAULT_DUE_DATE_RULES.join(', ')}.`;
+            }
+            return { defaultDueDate: rule };
+        }
+        case 'googleSearchEnabled': {
+            const enabled = parseSwitch(value);
+            return enabled === null ? 'Google Search can only be turned "on" or "off".' : { googleSearchEnabled: enabled };
+        }
+        case 'remindersEnabled': {
+            const enabled = parseSwitch(value);
+            return enabled === null ? 'Reminders can only be turned "on" or "off".' : { remindersEnabled: enabled };
+        }
+        case 'digestHour': {
+            const enabled = parseSwitch(value);
+            if (enabled !== null) {
+                return { digestHour: enabled ? DEFAULT_DIGEST_HOUR : null };
+            }
+            const hour = parseHour(value);
+            return hour === null ? 'Please send the hour of your morning digest (0-23, e.g. "8"), or "off".' : { digestHour: hour };
+        }
+        case 'quietHours': {
+            if (parseSwitch(value) === false) {
+                return { quietHours: null };
+            }
+            const [start, end] = value.split(/\s*-\s*/).map(parseHour);
+            if (start == null || end == null || start === end) {
+                return 'Please send your quiet hours as "<start>-<end>" (e.g. "22-8"), or "off".';
+            }
+            return { quietHours: { start, end } };
+        }
+        default:
+            return `Unknown setting "${name}". Send /settings to see the available settings.`;
+    }
+}
@@ -4,72 +4,177 @@
  * This approach improves organization and makes it easier to manage and update the prompts.
  */
 
+import { ChatHistoryItem, ChatMemory, DefaultDueDateRule, ReminderTask, UsageMetric, UserPreferences } from '../types/chat';
+import { formatIsoDate, getTodayIsoDate } from './dates';
+import { describeLocale } from './preferences';
+
 // =================================================================================================
 // ==                                  GEMINI-SPECIFIC PROMPTS                                    ==
 // =================================================================================================
 
 /**
- * System-level instructions to prime the Gemini model for its role as a task identifier.
+ * System-level instructions to prime the Gemini model for its role as a task assistant. The task
+ * actions themselves are declared as functions in `tools.ts`.
  */
 export const systemInstruction = `
-Your primary role is to be a world-class assistant for identifying and structuring tasks from user messages.
-
-You have four modes of operation:
-1. "Task Creation Mode": If the user's message implies they want to create a task, a to-do, a reminder, or any actionable item.
-2. "Task Listing Mode": If the user's message implies they want to see, list, or check their existing tasks.
-3. "Task Deletion Mode": If the user's message implies they want to delete, remove, or complete a task.
-4. "Normal Chat Mode": For any other type of conversation.
-
-**Rules for Task Creation Mode:**
-- If you determine the user wants to create a task, you MUST respond ONLY with a valid JSON object. Do not include any other text, greetings, or explanations before or after the JSON.
-- The JSON object must have the exact following structure:
-  {
-    "isTask": true,
-    "details": {
-      "objective": "A concise, clear title for the task. (e.g., 'Develop new login page')",
-      "description": "A detailed breakdown of the task requirements. (e.g., 'Create a responsive login page with email/password fields and a Google sign-in button.')",
-      "final_result": "The expected outcome when the task is complete. (e.g., 'A fully functional and tested login page deployed to the staging environment.')",
-      "user_experience": "How this task benefits the end-user. (e.g., 'Users will have a modern, secure, and easy way to access their accounts.')"
-    }
-  }
-- You must infer and populate all four fields in the "details" object from the user's message. If the user is vague, use your reasoning to create a logical structure based on what they provided.
-
-**Rules for Task Listing Mode:**
-- If you determine the user wants to list their tasks, you MUST respond ONLY with the following valid JSON object:
-  {
-    "isTaskListRequest": true
-  }
-- Examples of phrases for this mode: "list my tasks", "what are my reminders?", "show me my to-do list", "liste minhas tarefas", "o que eu tenho pra fazer?".
-
-**Rules for Task Deletion Mode:**
-- If you determine the user wants to delete a task, you MUST extract the title of the task from their message.
-- You MUST then respond ONLY with the following valid JSON object.
-- If the user provides a specific title, populate the "taskTitle" field with it.
-- If the user expresses intent to delete but does NOT provide a title (e.g., "I want to delete a task"), set "taskTitle" to null.
-  {
-    "isTaskDeletionRequest": true,
-    "taskTitle": "The exact title of the task to be deleted, or null if not specified"
-  }
-- Examples of phrases for this mode: "delete my task 'buy milk'", "remove the reminder to call John", "complete the 'finish report' task", "exclua a tarefa 'pagar a conta de luz'".
-- Example of a phrase that should result in a null title: "delete one of my tasks", "I need to remove a to-do".
-
-**Rules for Normal Chat Mode:**
-- If the message is NOT a task creation, listing, or deletion request (e.g., it's a greeting, a question, a random statement), you must respond as a friendly, helpful assistant.
-- Your response in this mode MUST be a simple string.
-- Do NOT use JSON in this mode.
-
-**Response Style (for Normal Chat Mode):**
+Your primary role is to be a world-class assistant that manages the user's tasks in Google Tasks, identifying and structuring tasks from their messages.
+
+You act on the user's tasks by calling functions:
+1. "create_task": The user wants to create a task, a to-do, a reminder, or any actionable item.
+2. "list_tasks": The user wants to see, list, or check their existing tasks.
+3. "complete_tasks": The user has finished a task, or wants to mark it as done or complete.
+4. "reopen_tasks": The user wants to reopen, undo the completion of, or mark as not done a completed task.
+5. "update_task": The user wants to change an existing task: rename it, move its due date, or change or add to its notes.
+6. "delete_tasks": The user wants to delete or remove a task permanently.
+7. "move_tasks": The user wants to move a task from one task list to another.
+8. "manage_task_lists": The user wants to see their task lists, or create or rename a task list.
+For any other type of conversation, do not call a function; just reply as a friendly, helpful assistant.
+
+**Rules for Creating Tasks:**
+- Infer all four of "objective", "description", "final_result" and "user_experience" from the user's message. If the user is vague, use your reasoning to create a logical structure based on what they provided.
+- Only pass "dueDate" if the user mentions when the task is due, explicitly ("on March 3rd", "03/15") or relatively ("tomorrow", "by end of next week", "in 3 days"). Never invent a due date.
+- Resolve relative dates against the current date given at the end of these instructions. "End of the week" means that week's Friday. A date without a year is the next occurrence of that date.
+- Only pass "steps" for bigger ideas that clearly take several distinct actions (e.g., "launch the new website"), or when the user lists steps themselves. Each step must be a short, concrete action title, in the order it should be done, with at most 10 steps. For simple tasks (e.g., "call John"), pass no steps.
+
+**Referring to Tasks:**
+- In "taskTitle", put the task exactly as the user referred to it: its title, part of its title, a description (e.g., "the milk one"), or its number in the last list shown. Never rewrite or guess it.
+- If the user wants to act on a task but does NOT say which one (e.g., "I want to delete a task"), call the function without "taskTitle"; the user will be asked to choose.
+- The user may target several tasks in one message (e.g., "delete 1, 3 and 5", "mark the report and the slides tasks as done"). Then put how the user referred to each task in "taskTitles" (e.g., ["1", "3", "5"] or ["report", "slides"]) instead of "taskTitle".
+- When the user means every task that matches some words (e.g., "mark all the demo tasks done"), put those words in "allMatching" (e.g., "demo").
+- Completing a task is NOT deleting it. Only call "delete_tasks" when the user explicitly wants the task removed. Moving a task's due date is NOT a move between lists; call "update_task" for that.
+
+**Task Lists:**
+- The user's tasks are organized in task lists (e.g., "Work", "Groceries"). Pass "listName" exactly as the user named the list (e.g., "add milk to my groceries list" → "Groceries"). Never guess a list the user did not mention; leaving it out means their default list.
+
+**Replying After a Function Call:**
+- Each function returns a "reply" (or an "error"). The reply is the message for the user: relay it as it is, keeping its numbering, line breaks and formatting, and only translate it if the user writes in another language. Never renumber, reorder or summarize a list of tasks, since the user will answer with those numbers.
+- If a function returns an "error" about its arguments, correct the call if you can; otherwise, ask the user for what is missing.
+- Only call the functions for what the user asked. Never act on tasks the user did not mention.
+
+**Response Style:**
 - As you are a WhatsApp bot, all your responses must be concise and to the point.
 - Avoid long paragraphs. Use line breaks to structure information if needed, but keep the overall message brief.
 - Do not be so brief that you lose important information. The goal is clarity and conciseness, not shortness for its own sake.
 
 **Language Priming:**
-- IMPORTANT: You MUST respond in the exact same language the user uses. If they use Portuguese, you respond in Portuguese (for both chat and the content of the JSON fields). If they use English, you respond in English.
+- IMPORTANT: You MUST respond in the exact same language the user uses. If they use Portuguese, you respond in Portuguese (for both chat and the text you pass to functions, such as task titles). If they use English, you respond in English.
+`.trim();
 
-**Tool Usage:**
-- You have access to a Google Search tool. Use it ONLY if the user asks a question that requires real-time information, specific facts, or data that you wouldn't know otherwise. Do not use it for general conversation.
+/**
+ * System instruction for resolving which task a user means when their words match several tasks, or none exactly.
+ */
+export const TASK_MATCHING_INSTRUCTION = `
+You match a user's reference to one of their tasks. The reference may be a title, part of it, a paraphrase, a description, or a typo-ridden version of it, in any language.
+Respond ONLY with a JSON object: {"choice": <the number of the task the user clearly means>}.
+If the reference could reasonably mean more than one task, or none of them, respond with {"choice": null}. Never guess.
 `.trim();
 
+/**
+ * Builds the request asking Gemini which task a reference points to.
+ * @param reference How the user referred to the task.
+ * @param taskTitles The titles of the candidate tasks, numbered from 1 in the request.
+ * @returns The request text.
+ */
+export function buildTaskMatchingPrompt(reference: string, taskTitles: string[]): string {
+    return `Tasks:\n${taskTitles.map((title, i) => `${i + 1}. ${title}`).join('\n')}\n\nThe user referred to: "${reference}"`;
+}
+
+/**
+ * System instruction for deciding whether a message is about managing the user's tasks.
+ */
+export const INTENT_CLASSIFICATION_INSTRUCTION = `
+You route the messages a user sends to a WhatsApp assistant that manages their tasks in Google Tasks. The message may be in any language, and may come with audio, images, videos or documents.
+Decide what the user wants:
+- "task": to create, see, complete, reopen, change, move or delete their tasks, reminders or to-dos, or to manage their task lists. This includes indirect requests ("don't forget to buy bread", "I have to call John tomorrow"), media whose content the user wants to keep as a task (e.g. a voice note dictating a to-do), and follow-ups to an earlier task request ("make it Friday", "the second one").
+- "chat": anything else, including questions about how to do something ("how do I create a React app?"), greetings and general conversation.
+Respond ONLY with a JSON object: {"intent": "task" or "chat", "confidence": <a number from 0 to 1>}.
+`.trim();
+
+/**
+ * Builds the request asking Gemini what a message is about.
+ * @param message The user's message (may be empty when only media was sent).
+ * @param recentTurns The last turns of the conversation, oldest first, for context.
+ * @returns The request text.
+ */
+export function buildIntentClassificationPrompt(message: string, recentTurns: { role: string; text: string }[]): string {
+    const conversation = recentTurns.length > 0
+        ? `Recent conversation:\n${recentTurns.map(turn => `${turn.role}: ${turn.text}`).join('\n')}\n\n`
+        : '';
+    return `${conversation}The user's new message: "${message.trim() || '(no text, only the attached media)'}"`;
+}
+
+/**
+ * System instruction for folding older turns of a conversation into its rolling summary.
+ */
+export const HISTORY_SUMMARY_INSTRUCTION = `
+You maintain the memory of a WhatsApp assistant that manages the user's tasks in Google Tasks. You receive the current summary of the conversation (if any) and the next turns of it, and write an updated summary.
+Keep what matters for the rest of the conversation: facts the user shared about themselves, their plans and preferences, tasks and lists they talked about, and open questions. Drop greetings, small talk and anything already done with.
+Write it in the user's language, as short plain-text notes in the third person, in at most 150 words. Respond ONLY with the summary.
+`.trim();
+
+/**
+ * A private helper that renders a history turn as plain text, noting media instead of its content.
+ * @param item The history turn.
+ * @returns The turn's text.
+ */
+const describeHistoryItem = (item: ChatHistoryItem): string =>
+    item.parts.map(part => part.text ?? `[${part.fileData?.mimeType.split('/')[0] || 'file'}]`).join(' ').trim();
+
+/**
+ * Builds the request asking Gemini to fold turns into the rolling summary of a conversation.
+ * @param previousSummary The current summary, or null if there is none yet.
+ * @param turns The turns to fold into it, oldest first.
+ * @returns The request text.
+ */
+export function buildHistorySummaryPrompt(previousSummary: string | null, turns: ChatHistoryItem[]): string {
+    const conversation = turns.map(item => `${item.role === 'user' ? 'User' : 'Assistant'}: ${describeHistoryItem(item)}`).join('\n');
+    return `Current summary:\n${previousSummary || '(none yet)'}\n\nNext turns:\n${conversation}`;
+}
+
+/**
+ * Stands in the chat history for a media file that the Gemini Files API no longer has.
+ * @param mimeType The MIME type of the file.
+ * @returns The note.
+ */
+export const UNAVAILABLE_MEDIA_NOTE = (mimeType: string) =>
+    `[The user sent ${mimeType.startsWith('image/') ? 'an image' : mimeType.startsWith('audio/') ? 'an audio message' : mimeType.startsWith('video/') ? 'a video' : 'a document'} here. It is no longer available.]`;
+
+/**
+ * Builds the instruction that gives the model the summary of the older part of the conversation.
+ * @param summary The rolling summary of the folded turns.
+ * @returns The summary instruction.
+ */
+export function buildConversationSummaryInstruction(summary: string): string {
+    return `**Earlier in This Conversation:** The older turns of this conversation are no longer shown. This is a summary of them:\n${summary}`;
+}
+
+/**
+ * Builds the full system instruction for a request, appending the current date in the user's
+ * time zone so the model can resolve relative dates such as "tomorrow" or "next Friday", and the
+ * user's language preference.
+ * @param preferences The user's preferences.
+ * @param now The current date and time.
+ * @returns The system instruction to send to the model.
+ */
+export function buildSystemInstruction(preferences: UserPreferences, now: Date = new Date()): string {
+    const today = formatIsoDate(getTodayIsoDate(preferences.timeZone, now));
+    const sections = [systemInstruction, `**Current Date:** Today is ${today} (time zone: ${preferences.timeZone}).`];
+    if (preferences.locale) {
+        sections.push(buildLanguageInstruction(preferences.locale));
+    }
+    return sections.join('\n\n');
+}
+
+/**
+ * Builds the instruction that pins the model's replies to the user's chosen language.
+ * It is also used on its own for plain chat, which runs without the main system instruction.
+ * @param locale The user's BCP 47 language tag.
+ * @returns The language instruction.
+ */
+export function buildLanguageInstruction(locale: string): string {
+    return `**Reply Language:** The user chose to be answered in ${describeLocale(locale)} (${locale}). Always reply in this language, including the text you pass to functions, even if the user writes in another language. This overrides any other language rule.`;
+}
+
 // --- Standalone Prompts ---
 
 /**
@@ -96,6 +201,16 @@ With me, you can turn your ideas into tasks—whether by text, audio, or even im
 - \`/connect_google_tasks\`: Connect your Google Tasks account.
 - \`/disconnect_google_tasks\`: Disconnect your account.
 - \`/status_google_tasks\`: Check your connection status.
+- \`/get_tasks\`: List your open tasks (\`/get_tasks all\` also shows recently completed ones, \`/get_tasks <list>\` shows another list, and \`/get_tasks 2\` shows page 2).
+- \`more\`: Show the next page of a long task listing.
+- \`/lists\`: Show your task lists.
+
+🧠 *Conversation:*
+- \`/history\`: See what I remember of our conversation.
+- \`/reset\`: Make me forget our conversation and start fresh.
+
+⚙️ *Preferences:*
+- \`/settings\`: View and change your time zone, language, task list, default due date and Google Search.
 - \`/help\` or \`/start\`: Show this welcome message again.
 
 💡 *How can I help you today?*
@@ -108,6 +223,11 @@ Invalid command. Please use one of the available commands:
 • */connect_google_tasks* - Connect your Google Tasks account.
 • */disconnect_google_tasks* - Disconnect your Google Tasks account.
 • */status_google_tasks* - Check the status and expiry of your connection.
+• */get_tasks* - List your open tasks (*/get_tasks all* also shows recently completed ones, */get_tasks <list>* shows another list, */get_tasks 2* shows page 2).
+• */lists* - Show your task lists.
+• */history* - See what I remember of our conversation.
+• */reset* - Make me forget our conversation and start fresh.
+• */settings* - View and change your preferences.
 • */help* or */start* - Show this welcome message again.
 
 Any other message (not starting with /) will be treated as a conversation with the AI.
@@ -115,39 +235,228 @@ Any other message (not starting with /) will be treated as a conversation with t
 
 // --- Google Authentication ---
 export const AUTH_MESSAGES = {
-    ALREADY_AUTHENTICATED: "You are already connected to Google Tasks. You can start using commands like '/list_task_lists'.\n\nIf you want to connect a different account, first disconnect the current one using the command: /disconnect_google_tasks",
+    ALREADY_AUTHENTICATED: "You are already connected to Google Tasks. You can start using commands like '/get_tasks' or '/lists'.\n\nIf you want to connect a different account, first disconnect the current one using the command: /disconnect_google_tasks",
     INITIATE_AUTH_INSTRUCTIONS: `To connect your Google Tasks account, please open this link in your browser:
     
-    {authUrl}`,
+    {authUrl}
+    
+    This link is personal, can only be used once, and expires in 15 minutes.`,
     DISCONNECT_SUCCESS: 'Your Google Tasks account has been disconnected. Your tokens have been cleared.',
     DISCONNECT_FAILURE: 'No active Google Tasks connection found to disconnect.',
     AUTH_SUCCESS_PROACTIVE_MESSAGE: '✅ Authentication with Google Tasks was successful! You can now use task-related commands.',
     TASK_CREATION_AUTH_REQUIRED: "I've structured your task, but you need to connect your Google account first. Please use the command `/connect_google_tasks` and then send your task request again.",
     TASK_LISTING_AUTH_REQUIRED: "To see your tasks, you need to connect your Google account first. Please use the command `/connect_google_tasks` and then try asking me to list your tasks again.",
-    TASK_DELETION_AUTH_REQUIRED: "To delete a task, you need to connect your Google account first. Please use the command `/connect_google_tasks` and then try asking me to delete a task again."
+    TASK_DELETION_AUTH_REQUIRED: "To delete a task, you need to connect your Google account first. Please use the command `/connect_google_tasks` and then try asking me to delete a task again.",
+    TASK_UPDATE_AUTH_REQUIRED: "To update a task, you need to connect your Google account first. Please use the command `/connect_google_tasks` and then try again.",
+    LISTS_AUTH_REQUIRED: "To manage your task lists, you need to connect your Google account first. Please use the command `/connect_google_tasks` and then try again."
+};
+
+// --- Google Authentication Pages (shown in the browser) ---
+export const AUTH_PAGE_MESSAGES = {
+    SUCCESS: 'Your account has been successfully linked with Google Tasks.',
+    PROVIDER_ERROR: (error: string) => `Google reported an error: ${error}`,
+    LINK_INVALID: 'This connection link is not valid. Please send /connect_google_tasks in WhatsApp to get a new one.',
+    LINK_EXPIRED: 'This connection link has expired. Links are only valid for 15 minutes. Please send /connect_google_tasks in WhatsApp to get a new one.',
+    LINK_USED: 'This connection link has already been used. If you still need to connect your account, please send /connect_google_tasks in WhatsApp to get a new one.',
+    TOKEN_EXCHANGE_FAILED: 'We could not complete the connection with Google. Please send /connect_google_tasks in WhatsApp to try again.'
 };
 
 // --- Media Handling ---
 export const MEDIA_MESSAGES = {
-    ERROR_MULTIPLE_MEDIA: "Please send only one media file at a time.",
-    ERROR_RECEIVING_MEDIA: "There was an issue receiving your media file. Please try again.",
-    UNSUPPORTED_MEDIA_TYPE: "The media file type you sent is not currently supported. Please try an image, audio, video, or a common document format (PDF, DOCX, PPTX, XLSX).",
-    PROMPT_FOR_MEDIA: "I received your file. What would you like me to do with it?",
+    ERROR_RECEIVING_MEDIA: "There was an issue receiving your media. Please try again.",
+    UNSUPPORTED_MEDIA_TYPE: "The type of a media file you sent is not currently supported. Please try an image, audio, video, or a common document format (PDF, DOCX, PPTX, XLSX).",
+    TOO_LARGE: (maxSizeMb: number) => `A media file you sent is too large. Please send files of up to ${maxSizeMb} MB.`,
+    PROMPT_FOR_MEDIA: (count: number) => count > 1
+        ? `I received your ${count} files. What would you like me to do with them?`
+        : "I received your file. What would you like me to do with it?",
     ERROR_PROCESSING_MEDIA: "Sorry, I encountered an error trying to understand your media message. Please try again later.",
-    ERROR_PROCESSING_PENDING_MEDIA: "Sorry, I encountered an error with your file. Please try sending it again.",
+    ERROR_PROCESSING_PENDING_MEDIA: "Sorry, I encountered an error with your media. Please try sending it again.",
     RESPONSE_MEDIA_NO_TEXT: "I received your media, but I couldn't formulate a response right now. Please try again.",
     RESPONSE_PENDING_MEDIA_NO_TEXT: "I received your instructions, but couldn't process the file. Please try again."
 };
 
+// --- Access Control ---
+export const ACCESS_MESSAGES = {
+    NOT_ALLOWED: "👋 Hi! I'm a private assistant, available to invited members only. If you have an invite code, send */join <code>* to get started.",
+    JOINED: "🎉 Your invite code was accepted! Send me any message to get started.",
+    INVALID_INVITE: "That invite code isn't valid or has expired. Please check it with the person who invited you.",
+    INVITE_CREATED: (code: string, uses: number, hours: number) =>
+        `🎟️ Invite code: *${code}*\nIt can be used by ${uses === 1 ? 'one person' : `${uses} people`} within the next ${hours} hours. New users join by sending:\n/join ${code}`,
+    STATUS_CHANGED: (phoneNumber: string, status: 'approved' | 'blocked' | null) =>
+        status === 'approved' ? `✅ ${phoneNumber} can now use the bot.`
+            : status === 'blocked' ? `🚫 ${phoneNumber} is now blocked. I won't reply to it anymore.`
+                : `${phoneNumber} is unblocked. The access policy applies to it again.`,
+    INVALID_NUMBER: (command: string) => `Please give a phone number in international format, e.g. *${command} +5511999999999*.`,
+    ADMIN_ERROR: "Sorry, I couldn't complete that command. Please try again.",
+};
+
+// --- Usage Quotas ---
+// Told to a user who reached a quota: their own, or the one shared by everyone.
+export const QUOTA_MESSAGES: Record<'user' | 'global', Record<UsageMetric, string>> = {
+    user: {
+        messages: "You're sending messages faster than I can keep up with. Please wait a minute before sending more.",
+        mediaBytes: "You've reached today's limit for media files. You can still send text messages, and media again tomorrow.",
+        tokens: "You've reached today's limit for AI requests. Commands like /get_tasks still work, and the limit resets tomorrow.",
+    },
+    global: {
+        messages: "I'm receiving a lot of messages right now. Please wait a minute and try again.",
+        mediaBytes: "I can't accept more media files today. Please send your request as text, or try again tomorrow.",
+        tokens: "I've reached my limit for AI requests for today. Commands like /get_tasks still work; please try again tomorrow.",
+    },
+};
+
 // --- General & Fallback ---
 export const GENERAL_MESSAGES = {
     EMPTY_MESSAGE_BODY: "Thanks for your message! If you meant to send text, please try again, or send an audio message.",
-    GEMINI_EMPTY_RESPONSE: "I'm having a little trouble thinking right now. Please try again in a moment!"
+    GEMINI_EMPTY_RESPONSE: "I'm having a little trouble thinking right now. Please try again in a moment!",
+    WORKING_ON_IT: "⏳ Working on it…",
+    PROCESSING_FAILED: "Sorry, something went wrong and I couldn't process your message. Please try sending it again."
+};
+
+// --- Conversation History ---
+const MAX_SHOWN_TURNS = 6;
+const MAX_SHOWN_TURN_LENGTH = 150;
+const MAX_SHOWN_SUMMARY_LENGTH = 600;
+
+const truncate = (text: string, maxLength: number) => text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+
+export const HISTORY_MESSAGES = {
+    OVERVIEW: (memory: ChatMemory) => {
+        const sections = ['🧠 *What I remember of our conversation:*'];
+        if (memory.summary) {
+            sections.push(`*Earlier on:*\n${truncate(memory.summary, MAX_SHOWN_SUMMARY_LENGTH)}`);
+        }
+        if (memory.turns.length > 0) {
+            const shown = memory.turns.slice(-MAX_SHOWN_TURNS);
+            const header = shown.length < memory.turns.length ? `*Latest messages* (last ${shown.length} of ${memory.turns.length}):` : '*Latest messages:*';
+            const lines = shown.map(item => `${item.role === 'user' ? '🗣️ You' : '🤖 Me'}: ${truncate(describeHistoryItem(item), MAX_SHOWN_TURN_LENGTH)}`);
+            sections.push(`${header}\n${lines.join('\n')}`);
+        }
+        sections.push('_Send /reset to make me forget it._');
+        return sections.join('\n\n');
+    },
+    EMPTY: "I don't remember anything of our conversation yet. Just send me a message to get started!",
+    RESET: "🧹 Done! I've forgotten our conversation, so we're starting fresh. Your tasks and settings are untouched.",
+    RESET_ERROR: "Sorry, I couldn't clear our conversation right now. Please try again in a moment.",
 };
 
 // --- Task Creation ---
 export const TASK_MESSAGES = {
-    SUCCESS: (title: string) => `✅ Task created successfully!\n\n*${title}* has been added to your Google Tasks and is scheduled for the next business day.`,
-    DELETION_PROMPT: "Which task would you like to delete? Please reply with the number or the exact title from the list below:",
-    DELETION_NO_TASKS: "You don't have any tasks to delete."
-}; 
\ No newline at end of file
+    SUCCESS: (title: string, dueDate: string | null, isDefaultDueDate: boolean, steps: string[] = [], taskListTitle?: string) => {
+        const destination = taskListTitle ? `your "${taskListTitle}" list` : 'your Google Tasks';
+        const schedule = !dueDate
+            ? 'without a due date'
+            : isDefaultDueDate
+                ? `and is scheduled for ${dueDate}, following your default due date`
+                : `and is due on ${dueDate}`;
+        return `✅ Task created successfully!\n\n*${title}* has been added to ${destination} ${schedule}.`
+            + (steps.length > 0 ? `\n\nI broke it down into ${steps.length} steps:\n${steps.map((step, i) => `${i + 1}. ${step}`).join('\n')}` : '');
+    },
+    DELETION_PROMPT: "Which task would you like to delete? Please reply with the number or the exact title from the list below. To pick several, reply with their numbers (e.g. \"1, 3-5\") or \"all\":",
+    DELETION_NO_TASKS: "You don't have any tasks to delete.",
+    COMPLETION_PROMPT: "Which task did you complete? Please reply with the number or the exact title from the list below. To pick several, reply with their numbers (e.g. \"1, 3-5\") or \"all\":",
+    COMPLETION_NO_TASKS: "You don't have any open tasks to complete.",
+    REOPEN_PROMPT: "Which task would you like to reopen? Please reply with the number or the exact title from the list below. To pick several, reply with their numbers (e.g. \"1, 3-5\") or \"all\":",
+    REOPEN_NO_TASKS: "You haven't completed any tasks recently, so there is nothing to reopen.",
+    UPDATE_PROMPT: "Which task would you like to update? Please reply with the number or the exact title from the list below:",
+    AMBIGUOUS: (reference: string) => `I'm not sure which task "${reference}" is. Did you mean one of these? Please reply with the number or the exact title:`,
+    NO_MATCH: (reference: string) => `I couldn't find a task matching "${reference}". Which one did you mean? Please reply with the number or the exact title from the list below:`,
+    UPDATE_NO_TASKS: "You don't have any open tasks to update.",
+    BULK_DELETION_CONFIRMATION: (taskTitles: string[]) => `🗑️ Delete these ${taskTitles.length} tasks (and their subtasks)? This can't be undone.\n\n${taskTitles.map((title, i) => `${i + 1}. ${title}`).join('\n')}\n\nReply *yes* to confirm, or anything else to cancel.`,
+    BULK_CANCELLED: "OK, I didn't delete anything.",
+    BULK_SUMMARY: (results: { success: boolean; message: string }[]) => `*Done: ${results.filter(result => result.success).length} of ${results.length} tasks.*\n\n`
+        + results.map(result => `${result.success ? '•' : '❌'} ${result.message}`).join('\n'),
+    BULK_UNRESOLVED: (references: string[]) => `I couldn't tell which task you meant by ${references.map(reference => `"${reference}"`).join(', ')}, so I left it out.`,
+    SELECTION_NOT_FOUND: "I couldn't find a task matching your reply. Please try again.",
+    FETCH_ERROR: "Sorry, I couldn't fetch your tasks right now. Please try again in a moment.",
+    ACTION_ERROR: "Sorry, something went wrong while updating your tasks. Please try again in a moment."
+};
+
+// --- Task Lists ---
+export const LIST_MESSAGES = {
+    OVERVIEW: (taskLists: { id: string; title: string }[], defaultTaskListId: string | null) => `
+📋 *Your task lists:*
+
+${taskLists.map((list, i) => `${i + 1}. ${list.title}${list.id === defaultTaskListId ? ' _(default)_' : ''}`).join('\n')}
+
+_Send /get_tasks <list name> to see a list's tasks, or /settings list <list> to change your default list._
+`.trim(),
+    NO_LISTS: "You don't have any task lists yet. Create a task and I'll add it to a new list for you.",
+    NOT_FOUND: (reference: string, taskLists: { title: string }[]) => `I couldn't find a task list matching "${reference}".`
+        + (taskLists.length > 0 ? ` Your lists are: ${taskLists.map(list => `"${list.title}"`).join(', ')}.` : ''),
+    AMBIGUOUS: (reference: string, taskLists: { title: string }[]) => `More than one task list matches "${reference}": ${taskLists.map(list => `"${list.title}"`).join(', ')}. Please use the full name or its number from /lists.`,
+    CREATED: (title: string) => `📋 Task list "${title}" created. Mention it when creating or listing tasks, e.g. "add ... to my ${title} list".`,
+    ALREADY_EXISTS: (title: string) => `You already have a task list called "${title}".`,
+    RENAMED: (oldTitle: string, newTitle: string) => `✏️ Task list "${oldTitle}" renamed to "${newTitle}".`,
+    NAME_REQUIRED: "Please tell me the name of the list, e.g. \"create a list called Groceries\".",
+    NEW_NAME_REQUIRED: "Please tell me the new name of the list, e.g. \"rename my Work list to Office\".",
+    SETTINGS_LIST_REQUIRED: "Please tell me the list, e.g. \"/settings list Work\" or its number from /lists.",
+    MOVE_DESTINATION_REQUIRED: "Which list would you like to move the task to?",
+    MOVE_PROMPT: (destination: string) => `Which task would you like to move to "${destination}"? Please reply with the number or the exact title from the list below:`,
+    MOVE_NO_TASKS: "You don't have any open tasks to move.",
+    DEFAULT_LIST_NOT_CREATED: (title: string) => `${title} (created with your first task)`,
+    DEFAULT_LIST_UNKNOWN: 'connect Google Tasks to see it',
+};
+
+// --- User Preferences ---
+const DUE_DATE_RULE_LABELS: Record<DefaultDueDateRule, string> = {
+    next_business_day: 'the next business day',
+    today: 'today',
+    tomorrow: 'tomorrow',
+    none: 'no due date',
+};
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+export const SETTINGS_MESSAGES = {
+    OVERVIEW: (preferences: UserPreferences, taskListTitle: string) => `
+⚙️ *Your settings:*
+
+🕒 Time zone: ${preferences.timeZone}
+🗣️ Language: ${preferences.locale ? `${describeLocale(preferences.locale)} (${preferences.locale})` : 'auto (same as your messages)'}
+📋 Default task list: ${taskListTitle}
+📅 Default due date: ${DUE_DATE_RULE_LABELS[preferences.defaultDueDate]}
+🔎 Google Search: ${preferences.googleSearchEnabled ? 'on' : 'off'}
+⏰ Due-date reminders: ${preferences.remindersEnabled ? 'on' : 'off'}
+☀️ Morning digest: ${preferences.digestHour === null ? 'off' : `at ${formatHour(preferences.digestHour)}`}
+🌙 Quiet hours: ${preferences.quietHours ? `${formatHour(preferences.quietHours.start)} to ${formatHour(preferences.quietHours.end)}` : 'off'}
+
+*To change a setting, send:*
+• */settings timezone* <name, e.g. America/Sao_Paulo>
+• */settings language* <code, e.g. pt-BR, or auto>
+• */settings list* <name or number from /lists>
+• */settings due* <next_business_day | today | tomorrow | none>
+• */settings search* <on | off>
+• */settings reminders* <on | off>
+• */settings digest* <hour, e.g. 8, or off>
+• */settings quiet* <start-end, e.g. 22-8, or off>
+• */settings reset* - Restore the defaults.
+`.trim(),
+    UPDATED: (preferences: UserPreferences, taskListTitle: string) => `✅ Settings saved.\n\n${SETTINGS_MESSAGES.OVERVIEW(preferences, taskListTitle)}`,
+    RESET: (preferences: UserPreferences, taskListTitle: string) => `↩️ Your settings were restored to the defaults.\n\n${SETTINGS_MESSAGES.OVERVIEW(preferences, taskListTitle)}`,
+    SAVE_ERROR: "Sorry, I couldn't save your settings right now. Please try again in a moment."
+};
+
+// --- Reminders & Morning Digest ---
+const formatReminderTask = (task: ReminderTask, today: string) => task.dueDate === today
+    ? `• *${task.title}* (due today)`
+    : task.dueDate < today
+        ? `• *${task.title}* (overdue since ${formatIsoDate(task.dueDate)})`
+        : `• *${task.title}* (${formatIsoDate(task.dueDate)})`;
+
+const REMINDERS_OPT_OUT_FOOTER = '_Send /settings reminders off to stop reminders, or /settings quiet to change your quiet hours._';
+
+export const REMINDER_MESSAGES = {
+    DUE: (today: string, tasks: ReminderTask[]) =>
+        `⏰ *Reminder:* ${tasks.length === 1 ? 'this task needs' : 'these tasks need'} your attention:\n\n${tasks.map(task => formatReminderTask(task, today)).join('\n')}\n\n${REMINDERS_OPT_OUT_FOOTER}`,
+    DIGEST: (today: string, sections: { overdue: ReminderTask[]; dueToday: ReminderTask[]; upcoming: ReminderTask[]; withoutDueDate: number }) => {
+        const parts = [`☀️ *Good morning! Here's your day (${formatIsoDate(today)}):*`];
+        if (sections.overdue.length > 0) parts.push(`*Overdue:*\n${sections.overdue.map(task => formatReminderTask(task, today)).join('\n')}`);
+        if (sections.dueToday.length > 0) parts.push(`*Due today:*\n${sections.dueToday.map(task => formatReminderTask(task, today)).join('\n')}`);
+        if (sections.upcoming.length > 0) parts.push(`*Coming up:*\n${sections.upcoming.map(task => formatReminderTask(task, today)).join('\n')}`);
+        if (sections.withoutDueDate > 0) parts.push(`Plus ${sections.withoutDueDate} open task(s) without a due date.`);
+        if (parts.length === 1) parts.push('You have no open tasks. Enjoy your day!');
+        parts.push('_Send /settings digest off to stop the morning digest._');
+        return parts.join('\n\n');
+    }
+};
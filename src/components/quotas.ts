@@ -0,0 +1,152 @@
+/**
+ * @file quotas.ts
+ * @description This module limits how much each user, and the service as a whole, can use: messages
+ * received per minute, bytes of media downloaded per day, and Gemini tokens used per day (as reported
+ * in the `usageMetadata` of each response). Usage is kept in persisted counters, so every instance of
+ * the service enforces the same limits. Days are counted in UTC.
+ *
+ * Each limit is read from the environment, and 0 turns it off:
+ * - `USER_MESSAGES_PER_MINUTE` (default 10) and `GLOBAL_MESSAGES_PER_MINUTE` (default 120).
+ * - `USER_MEDIA_MB_PER_DAY` (default 100) and `GLOBAL_MEDIA_MB_PER_DAY` (default 2000).
+ * - `USER_TOKENS_PER_DAY` (default 500000) and `GLOBAL_TOKENS_PER_DAY` (default 10000000).
+ */
+
+import { UsageCounter, UsageCounters, UsageMetric } from '../types/chat';
+import { getDocument, updateDocument } from './storage';
+
+// --- CONSTANTS ---
+const USAGE_COUNTERS_COLLECTION = 'usage-counters';
+const GLOBAL_COUNTERS_ID = 'global'; // Sender IDs look like "whatsapp:+<number>", so this can't clash with a user.
+const MB_IN_BYTES = 1024 * 1024;
+
+/**
+ * Whether a limit applies to each user or to the service as a whole.
+ */
+export type QuotaScope = 'user' | 'global';
+
+/**
+ * Whether some work may go ahead. When it may not, `shouldNotify` says whether to tell the user why.
+ */
+export type QuotaDecision =
+    | { allowed: true }
+    | { allowed: false; scope: QuotaScope; shouldNotify: boolean };
+
+/**
+ * A private helper that reads a limit from the environment.
+ * @param name The name of the environment variable.
+ * @param defaultValue The limit when the variable is missing or invalid.
+ * @returns The limit, or 0 if it is turned off.
+ */
+function readLimit(name: string, defaultValue: number): number {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) && value >= 0 ? value : defaultValue;
+}
+
+// The limits of each metric, read when they are checked so `dotenv` has loaded the configuration.
+const QUOTA_LIMITS: Record<UsageMetric, Record<QuotaScope, () => number>> = {
+    messages: {
+        user: () => readLimit('USER_MESSAGES_PER_MINUTE', 10),
+        global: () => readLimit('GLOBAL_MESSAGES_PER_MINUTE', 120),
+    },
+    mediaBytes: {
+        user: () => readLimit('USER_MEDIA_MB_PER_DAY', 100) * MB_IN_BYTES,
+        global: () => readLimit('GLOBAL_MEDIA_MB_PER_DAY', 2000) * MB_IN_BYTES,
+    },
+    tokens: {
+        user: () => readLimit('USER_TOKENS_PER_DAY', 500000),
+        global: () => readLimit('GLOBAL_TOKENS_PER_DAY', 10000000),
+    },
+};
+
+/**
+ * A private helper that names the current window of a metric: the minute for messages, the day otherwise.
+ * @param metric The metric.
+ * @returns The window, e.g. "2025-03-02T14:05" or "2025-03-02".
+ */
+function getCurrentWindow(metric: UsageMetric): string {
+    const now = new Date().toISOString();
+    return metric === 'messages' ? now.slice(0, 16) : now.slice(0, 10);
+}
+
+/**
+ * A private helper that reads the usage counted in a window.
+ * @param counter The persisted counter, if any.
+ * @param window The current window.
+ * @returns The usage, or 0 if the counter belongs to an earlier window.
+ */
+function getUsage(counter: UsageCounter | undefined, window: string): number {
+    return counter?.window === window ? counter.used : 0;
+}
+
+/**
+ * A private helper that records that a user was told a quota was reached in the current window.
+ * @param senderId The user's unique identifier.
+ * @param metric The metric whose quota was reached.
+ * @param window The current window.
+ * @returns A promise resolving to true if the user had not been told yet in this window.
+ */
+async function markNotified(senderId: string, metric: UsageMetric, window: string): Promise<boolean> {
+    const previous = await updateDocument<UsageCounters>(USAGE_COUNTERS_COLLECTION, senderId, (current) => ({
+        ...current,
+        [metric]: { window, used: getUsage(current?.[metric], window), notified: true },
+    }));
+    const counter = previous?.[metric];
+    return !(counter?.window === window && counter.notified);
+}
+
+/**
+ * Checks whether a user may use some more of a metric, against their own quota and the service's.
+ * A user over the message rate is only told once per minute, so a flood of messages doesn't get a
+ * flood of replies; a user over a daily quota is told every time. If the counters can't be read,
+ * the work is allowed: an outage of the storage shouldn't take the bot down.
+ * @param senderId The user's unique identifier.
+ * @param metric The metric to check.
+ * @param amount How much the work will use, when known in advance (1 checks that any is left).
+ * @returns A promise resolving to the decision.
+ */
+export async function checkQuota(senderId: string, metric: UsageMetric, amount: number = 1): Promise<QuotaDecision> {
+    const window = getCurrentWindow(metric);
+    try {
+        const scopes: [QuotaScope, string][] = [['user', senderId], ['global', GLOBAL_COUNTERS_ID]];
+        for (const [scope, countersId] of scopes) {
+            const limit = QUOTA_LIMITS[metric][scope]();
+            if (limit <= 0) continue;
+            const counters = await getDocument<UsageCounters>(USAGE_COUNTERS_COLLECTION, countersId);
+            if (getUsage(counters?.[metric], window) + amount > limit) {
+                const shouldNotify = metric === 'messages' ? await markNotified(senderId, metric, window) : true;
+                return { allowed: false, scope, shouldNotify };
+            }
+        }
+    } catch (error) {
+        console.error(`quotas.ts: Error checking the ${metric} quota of [${senderId}]. Allowing the request.`, error);
+    }
+    return { allowed: true };
+}
+
+/**
+ * Adds usage to a user's counter and to the service's. Errors are logged rather than thrown, as the
+ * work the usage is for has already been done.
+ * @param senderId The user's unique identifier.
+ * @param metric The metric used.
+ * @param amount How much was used.
+ */
+export async function recordUsage(senderId: string, metric: UsageMetric, amount: number): Promise<void> {
+    if (!(amount > 0)) {
+        return;
+    }
+    const window = getCurrentWindow(metric);
+    for (const countersId of [senderId, GLOBAL_COUNTERS_ID]) {
+        try {
+            await updateDocument<UsageCounters>(USAGE_COUNTERS_COLLECTION, countersId, (current) => {
+                const counter = current?.[metric];
+                const updated: UsageCounter = { window, used: getUsage(counter, window) + amount };
+                if (counter?.window === window && counter.notified) {
+                    updated.notified = true;
+                }
+                return { ...current, [metric]: updated };
+            });
+        } catch (error) {
+            console.error(`quotas.ts: Error recording ${amount} ${metric} for [${countersId}].`, error);
+        }
+    }
+}
@@ -0,0 +1,226 @@
+/**
+ * @file reminders.ts
+ * @description This module implements the proactive side of the bot: WhatsApp reminders for tasks
+ * that are due or overdue, and an opt-in morning digest. It doesn't run on its own; a sweep is
+ * triggered from outside (Cloud Scheduler calling a protected endpoint, or a local cron job). Each
+ * sweep checks every task list of every connected user and sends whatever is due, respecting their
+ * quiet hours and opt-outs. WhatsApp only accepts free-form messages from a business within 24 hours
+ * of the user's last message, so users who haven't written in that long are skipped until they do.
+ * Sweeps can run as often as needed: what was already sent is remembered, so a task is
+ * reminded once per due date and the digest is sent once per day.
+ */
+
+import { tasks_v1 } from 'googleapis';
+import { MessagingWindow, QuietHours, ReminderState, ReminderTask } from '../types/chat';
+import { getDocument, setDocument, listConnectedUsers } from './storage';
+import { getUserPreferences } from './preferences';
+import { getAccessLevel } from './access';
+import { getTasksInList, listTaskLists } from './gtasks';
+import { addDaysToIsoDate, getLocalHour, getTodayIsoDate } from './dates';
+import { REMINDER_MESSAGES } from './prompts';
+
+// --- CONSTANTS ---
+const REMINDER_STATE_COLLECTION = 'reminder-state';
+const MESSAGING_WINDOWS_COLLECTION = 'messaging-windows';
+const DIGEST_UPCOMING_DAYS = 7; // How far ahead the digest looks for upcoming tasks.
+// WhatsApp's customer service window: free-form messages are rejected (Twilio error 63016) once it has closed.
+const MESSAGING_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Sends a WhatsApp message. Injected by the caller, which owns the Twilio client.
+ */
+export type SendMessageFunction = (to: string, body: string) => Promise<void>;
+
+/**
+ * What a sweep did, returned to whoever triggered it.
+ */
+export interface ReminderSweepSummary {
+    usersChecked: number;
+    remindersSent: number;
+    digestsSent: number;
+    skippedQuietHours: number;
+    skippedOutsideWindow: number;
+    skippedNoAccess: number;
+    failed: string[];
+}
+
+/**
+ * A private helper that tells whether an hour falls within a user's quiet hours.
+ * @param hour The local hour (0-23).
+ * @param quietHours The user's quiet hours, or null for none.
+ * @returns True if no proactive message should be sent at this hour.
+ */
+function isWithinQuietHours(hour: number, quietHours: QuietHours | null): boolean {
+    if (!quietHours) return false;
+    const { start, end } = quietHours;
+    // A window like 22-8 wraps around midnight.
+    return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+/**
+ * A private helper that tells whether WhatsApp still accepts free-form messages to a user.
+ * @param senderId The user's unique identifier.
+ * @param now The current instant.
+ * @returns A promise resolving to true if the user wrote to the bot in the last 24 hours.
+ */
+async function isWithinMessagingWindow(senderId: string, now: Date): Promise<boolean> {
+    const window = await getDocument<MessagingWindow>(MESSAGING_WINDOWS_COLLECTION, senderId);
+    return !!window && now.getTime() - window.lastUserMessageAt < MESSAGING_WINDOW_MS;
+}
+
+/**
+ * A private helper that keeps the tasks with a due date, in a shape suited for messages.
+ * @param tasks The user's open tasks.
+ * @returns The tasks that have a due date, sorted by it.
+ */
+function toReminderTasks(tasks: tasks_v1.Schema$Task[]): ReminderTask[] {
+    return tasks
+        .filter(task => task.id && task.due)
+        // The 'due' field is an RFC 3339 timestamp; only its date part is meaningful.
+        .map(task => ({ id: task.id!, title: task.title || 'Untitled Task', dueDate: task.due!.substring(0, 10) }))
+        .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+}
+
+/**
+ * A private helper that loads a user's open tasks from all of their task lists.
+ * @param senderId The user's unique identifier.
+ * @returns A promise resolving to the open tasks of every list.
+ * @throws {Error} If the lists or their tasks can't be fetched.
+ */
+async function getOpenTasksOfAllLists(senderId: string): Promise<tasks_v1.Schema$Task[]> {
+    const taskLists = await listTaskLists(senderId);
+    if (typeof taskLists === 'string') {
+        throw new Error(taskLists);
+    }
+    const tasks: tasks_v1.Schema$Task[] = [];
+    for (const taskList of taskLists) {
+        const listTasks = await getTasksInList(senderId, false, taskList.id);
+        if (typeof listTasks === 'string') {
+            throw new Error(listTasks);
+        }
+        tasks.push(...listTasks);
+    }
+    return tasks;
+}
+
+/**
+ * A private helper that checks a single user and sends them a digest or a reminder if one is due.
+ * The message is sent before it is recorded, so a failed send is retried by the next sweep.
+ * @param senderId The user's unique identifier.
+ * @param sendMessage The function used to send WhatsApp messages.
+ * @param now The current instant.
+ * @returns What was done for the user.
+ * @throws {Error} If the user's tasks can't be fetched or the message can't be sent.
+ */
+async function processUser(
+    senderId: string,
+    sendMessage: SendMessageFunction,
+    now: Date
+): Promise<'digest' | 'reminder' | 'quiet_hours' | 'outside_window' | 'none'> {
+    const preferences = await getUserPreferences(senderId);
+    if (!preferences.remindersEnabled && preferences.digestHour === null) {
+        return 'none';
+    }
+
+    const hour = getLocalHour(preferences.timeZone, now);
+    if (isWithinQuietHours(hour, preferences.quietHours)) {
+        return 'quiet_hours';
+    }
+    // Nothing is recorded, so what is due is sent by the first sweep after the user writes again.
+    if (!(await isWithinMessagingWindow(senderId, now))) {
+        return 'outside_window';
+    }
+
+    const tasks = await getOpenTasksOfAllLists(senderId);
+
+    const today = getTodayIsoDate(preferences.timeZone, now);
+    const state = (await getDocument<ReminderState>(REMINDER_STATE_COLLECTION, senderId)) || { remindedDueDates: {} };
+    const datedTasks = toReminderTasks(tasks);
+    const dueTasks = datedTasks.filter(task => task.dueDate <= today);
+
+    // Only tasks that are still open and due are remembered, which keeps the state small.
+    const remindedDueDates: Record<string, string> = {};
+    for (const task of dueTasks) {
+        if (state.remindedDueDates[task.id] === task.dueDate) remindedDueDates[task.id] = task.dueDate;
+    }
+
+    let outcome: 'digest' | 'reminder' | 'none' = 'none';
+    let lastDigestDate = state.lastDigestDate;
+
+    if (preferences.digestHour !== null && hour >= preferences.digestHour && state.lastDigestDate !== today) {
+        const upcomingLimit = addDaysToIsoDate(today, DIGEST_UPCOMING_DAYS);
+        await sendMessage(senderId, REMINDER_MESSAGES.DIGEST(today, {
+            overdue: dueTasks.filter(task => task.dueDate < today),
+            dueToday: dueTasks.filter(task => task.dueDate === today),
+            upcoming: datedTasks.filter(task => task.dueDate > today && task.dueDate <= upcomingLimit),
+            // Steps of a bigger task aren't counted on their own.
+            withoutDueDate: tasks.filter(task => !task.due && !task.parent).length,
+        }));
+        // The digest already lists every due task, so they don't get a separate reminder.
+        dueTasks.forEach(task => remindedDueDates[task.id] = task.dueDate);
+        lastDigestDate = today;
+        outcome = 'digest';
+    } else if (preferences.remindersEnabled) {
+        const tasksToRemind = dueTasks.filter(task => remindedDueDates[task.id] !== task.dueDate);
+        if (tasksToRemind.length > 0) {
+            await sendMessage(senderId, REMINDER_MESSAGES.DUE(today, tasksToRemind));
+            tasksToRemind.forEach(task => remindedDueDates[task.id] = task.dueDate);
+            outcome = 'reminder';
+        }
+    }
+
+    await setDocument<ReminderState>(REMINDER_STATE_COLLECTION, senderId, { remindedDueDates, lastDigestDate });
+    return outcome;
+}
+
+// --- PUBLIC FUNCTIONS ---
+
+/**
+ * Records that a user just wrote to the bot, which lets reminders and digests reach them for the
+ * next 24 hours. Errors are logged rather than thrown, as a missed record only delays reminders.
+ * @param senderId The user's unique identifier.
+ * @param now The instant the message arrived. Defaults to the current time.
+ */
+export async function recordUserMessage(senderId: string, now: Date = new Date()): Promise<void> {
+    try {
+        await setDocument<MessagingWindow>(MESSAGING_WINDOWS_COLLECTION, senderId, { lastUserMessageAt: now.getTime() });
+    } catch (error) {
+        console.error(`reminders.ts: Error recording a message from [${senderId}].`, error);
+    }
+}
+
+/**
+ * Checks every connected user and sends the reminders and digests that are due. Users who may no
+ * longer use the bot (blocked, or no longer let in by the access policy) are skipped.
+ * Users are processed one at a time; a failure for one user doesn't stop the others.
+ * @param sendMessage The function used to send WhatsApp messages.
+ * @param now The current instant. Defaults to the current time.
+ * @returns A summary of what was sent.
+ */
+export async function runReminderSweep(sendMessage: SendMessageFunction, now: Date = new Date()): Promise<ReminderSweepSummary> {
+    const summary: ReminderSweepSummary = {
+        usersChecked: 0, remindersSent: 0, digestsSent: 0, skippedQuietHours: 0, skippedOutsideWindow: 0, skippedNoAccess: 0, failed: [],
+    };
+
+    for (const senderId of await listConnectedUsers()) {
+        summary.usersChecked++;
+        try {
+            const accessLevel = await getAccessLevel(senderId);
+            if (accessLevel === 'blocked' || accessLevel === 'unknown') {
+                summary.skippedNoAccess++;
+                continue;
+            }
+            const outcome = await processUser(senderId, sendMessage, now);
+            if (outcome === 'digest') summary.digestsSent++;
+            if (outcome === 'reminder') summary.remindersSent++;
+            if (outcome === 'quiet_hours') summary.skippedQuietHours++;
+            if (outcome === 'outside_window') summary.skippedOutsideWindow++;
+        } catch (error) {
+            console.error(`reminders.ts: Failed to process reminders for [${senderId}].`, error);
+            summary.failed.push(senderId);
+        }
+    }
+
+    console.log(`reminders.ts: Sweep finished. Checked ${summary.usersChecked} user(s), sent ${summary.remindersSent} reminder(s) and ${summary.digestsSent} digest(s), ${summary.skippedQuietHours} in quiet hours, ${summary.skippedOutsideWindow} outside the messaging window, ${summary.skippedNoAccess} without access, ${summary.failed.length} failed.`);
+    return summary;
+}
@@ -0,0 +1,270 @@
+/**
+ * @file storage.ts
+ * @description This module centralizes all persistence for the application. It selects a storage
+ * backend from configuration and provides a clean, reusable interface for other components to
+ * interact with it without needing to know the implementation details (backend, collection names, etc.).
+ *
+ * The backend is chosen with the `STORAGE_BACKEND` environment variable:
+ * - `firestore` (default): Google Cloud Firestore, database `FIRESTORE_DATABASE_ID` (default "voicetasks-db").
+ * - `file`: a local JSON file at `STORAGE_FILE_PATH` (default "./local-storage.json"). Runs fully offline.
+ * - `memory`: in-memory only, lost on restart.
+ */
+
+import { StoredToken } from '../types/chat';
+import { StorageBackend, EncryptedEnvelope } from '../types/storage';
+import { createFirestoreBackend } from './firestore';
+import { createMemoryBackend, createFileBackend } from './localstore';
+import { encryptJson, decryptJson, needsReEncryption } from './encryption';
+
+// --- CONSTANTS ---
+const GOOGLE_TOKENS_COLLECTION = 'google-tokens';
+const RETURNING_USERS_COLLECTION = 'returning-users';
+
+// --- BACKEND INITIALIZATION ---
+
+/**
+ * Creates the storage backend named by the `STORAGE_BACKEND` environment variable.
+ * @returns The configured StorageBackend.
+ * @throws {Error} If the configured backend is unknown.
+ */
+function createConfiguredBackend(): StorageBackend {
+    const backendName = (process.env.STORAGE_BACKEND || 'firestore').toLowerCase();
+    switch (backendName) {
+        case 'firestore':
+            return createFirestoreBackend(process.env.FIRESTORE_DATABASE_ID || undefined);
+        case 'file':
+            return createFileBackend(process.env.STORAGE_FILE_PATH || './local-storage.json');
+        case 'memory':
+            return createMemoryBackend();
+        default:
+            throw new Error(`Unknown STORAGE_BACKEND "${backendName}". Use "firestore", "file" or "memory".`);
+    }
+}
+
+// The backend is created lazily, so that `dotenv` has loaded the configuration by the time it's needed.
+let backend: StorageBackend | null = null;
+
+/**
+ * Returns the application's storage backend, creating it on first use.
+ * @returns The configured StorageBackend.
+ */
+function getBackend(): StorageBackend {
+    if (!backend) {
+        backend = createConfiguredBackend();
+        console.log(`storage.ts: Using storage backend "${backend.name}".`);
+    }
+    return backend;
+}
+
+// --- GENERIC DOCUMENT FUNCTIONS ---
+// These delegate to the configured backend; see `StorageBackend` for the exact semantics.
+
+export async function getDocument<T>(collection: string, docId: string): Promise<T | null> {
+    return getBackend().getDocument<T>(collection, docId);
+}
+
+export async function setDocument<T extends object>(collection: string, docId: string, data: T): Promise<void> {
+    return getBackend().setDocument<T>(collection, docId, data);
+}
+
+export async function deleteDocument(collection: string, docId: string): Promise<void> {
+    return getBackend().deleteDocument(collection, docId);
+}
+
+export async function updateDocument<T extends object>(
+    collection: string,
+    docId: string,
+    updater: (current: T | null) => T | null
+): Promise<T | null> {
+    return getBackend().updateDocument<T>(collection, docId, updater);
+}
+
+export async function listDocumentIds(collection: string): Promise<string[]> {
+    return getBackend().listDocumentIds(collection);
+}
+
+/**
+ * Removes the documents of a collection that have expired. Time-to-lives are otherwise only
+ * enforced when a document is read, so the state of users who never come back would be kept
+ * forever. Each document is read first and only removed in a transaction that checks it again, so
+ * a document renewed in the meantime is kept.
+ * @param collection The collection to sweep.
+ * @param isExpired Tells whether a document has expired.
+ * @returns A promise resolving to the number of documents removed.
+ */
+export async function sweepExpiredDocuments<T extends object>(collection: string, isExpired: (doc: T) => boolean): Promise<number> {
+    let removed = 0;
+    for (const docId of await listDocumentIds(collection)) {
+        try {
+            const doc = await getDocument<T>(collection, docId);
+            if (!doc || !isExpired(doc)) {
+                continue;
+            }
+            const previous = await updateDocument<T>(collection, docId, (current) => (current && !isExpired(current) ? current : null));
+            if (previous && isExpired(previous)) {
+                removed++;
+            }
+        } catch (error) {
+            console.error(`storage.ts: Error sweeping document [${docId}] of collection '${collection}'.`, error);
+        }
+    }
+    return removed;
+}
+
+// --- TOKEN MANAGEMENT FUNCTIONS ---
+// Tokens are envelope-encrypted at rest (see `encryption.ts`). Documents written before encryption
+// was introduced hold a plaintext StoredToken; they are still readable and get encrypted on first load.
+
+/**
+ * The shape of an encrypted document in the 'google-tokens' collection.
+ */
+interface EncryptedTokenDocument {
+    envelope: EncryptedEnvelope;
+}
+
+type TokenDocument = EncryptedTokenDocument | StoredToken;
+
+const isEncryptedTokenDocument = (doc: TokenDocument): doc is EncryptedTokenDocument => 'envelope' in doc;
+
+/**
+ * Encrypts a token into the document shape persisted in the 'google-tokens' collection.
+ * The envelope is bound to the senderId, so it can't be replayed onto another user's document.
+ */
+const toEncryptedTokenDocument = (senderId: string, token: StoredToken): EncryptedTokenDocument => ({
+    envelope: encryptJson(token, senderId),
+});
+
+/**
+ * Saves a user's Google OAuth2 token, encrypted.
+ * @param senderId The user's unique identifier.
+ * @param token The StoredToken object to save.
+ */
+export async function saveToken(senderId: string, token: StoredToken): Promise<void> {
+    console.log(`storage.ts: Saving token for user [${senderId}].`);
+    try {
+        await setDocument(GOOGLE_TOKENS_COLLECTION, senderId, toEncryptedTokenDocument(senderId, token));
+        console.log(`storage.ts: Successfully saved token for user [${senderId}].`);
+    } catch (error) {
+        console.error(`storage.ts: Error saving token for user [${senderId}].`, error);
+        throw error; // Re-throw to allow the caller to handle it.
+    }
+}
+
+/**
+ * Loads and decrypts a single user's token. Plaintext documents, and documents encrypted with a
+ * retired key, are transparently rewritten with the active key.
+ * @param senderId The user's identifier.
+ * @returns The user's token object, or null if it's not found.
+ */
+export async function loadToken(senderId: string): Promise<StoredToken | null> {
+    console.log(`storage.ts: Fetching token for user [${senderId}].`);
+    try {
+        const doc = await getDocument<TokenDocument>(GOOGLE_TOKENS_COLLECTION, senderId);
+        if (doc) {
+            console.log(`storage.ts: Found token for user [${senderId}].`);
+            const isEncrypted = isEncryptedTokenDocument(doc);
+            const token = isEncrypted ? decryptJson<StoredToken>(doc.envelope, senderId) : doc;
+            if (!isEncrypted || needsReEncryption(doc.envelope)) {
+                console.log(`storage.ts: Re-encrypting ${isEncrypted ? 'token' : 'plaintext token'} for user [${senderId}] with the active key.`);
+                await setDocument(GOOGLE_TOKENS_COLLECTION, senderId, toEncryptedTokenDocument(senderId, token))
+                    .catch(error => console.error(`storage.ts: Failed to re-encrypt token for user [${senderId}].`, error));
+            }
+            return token;
+        }
+        console.log(`storage.ts: No token found for user [${senderId}].`);
+        return null;
+    } catch (error) {
+        console.error(`storage.ts: Error fetching token for user [${senderId}].`, error);
+        throw error;
+    }
+}
+
+/**
+ * Deletes a user's token.
+ * @param senderId The user's identifier.
+ */
+export async function deleteToken(senderId: string): Promise<void> {
+    console.log(`storage.ts: Deleting token for user [${senderId}].`);
+    try {
+        await deleteDocument(GOOGLE_TOKENS_COLLECTION, senderId);
+        console.log(`storage.ts: Successfully deleted token for user [${senderId}].`);
+    } catch (error) {
+        console.error(`storage.ts: Error deleting token for user [${senderId}].`, error);
+        throw error;
+    }
+}
+
+/**
+ * Lists the users who have connected a Google account, i.e. who have a stored token.
+ * @returns The senderIds of the connected users.
+ */
+export async function listConnectedUsers(): Promise<string[]> {
+    return listDocumentIds(GOOGLE_TOKENS_COLLECTION);
+}
+
+/**
+ * Encrypts every plaintext token and re-encrypts every token wrapped with a retired key.
+ * Tokens are also migrated lazily by `loadToken`; this completes a migration or key rotation
+ * eagerly, so the old key can be removed from configuration afterwards.
+ * @returns A summary of how many documents were migrated, left unchanged, or failed.
+ */
+export async function migrateTokenEncryption(): Promise<{ migrated: number; unchanged: number; failed: string[] }> {
+    const summary = { migrated: 0, unchanged: 0, failed: [] as string[] };
+    for (const senderId of await listDocumentIds(GOOGLE_TOKENS_COLLECTION)) {
+        try {
+            let changed = false;
+            await updateDocument<TokenDocument>(GOOGLE_TOKENS_COLLECTION, senderId, (doc) => {
+                changed = false;
+                if (!doc) return null;
+                if (isEncryptedTokenDocument(doc)) {
+                    if (!needsReEncryption(doc.envelope)) return doc;
+                    changed = true;
+                    return toEncryptedTokenDocument(senderId, decryptJson<StoredToken>(doc.envelope, senderId));
+                }
+                changed = true;
+                return toEncryptedTokenDocument(senderId, doc);
+            });
+            if (changed) summary.migrated++; else summary.unchanged++;
+        } catch (error) {
+            console.error(`storage.ts: Failed to migrate token for user [${senderId}].`, error);
+            summary.failed.push(senderId);
+        }
+    }
+    return summary;
+}
+
+// --- USER MANAGEMENT FUNCTIONS ---
+
+/**
+ * Checks if a user exists in the 'returning-users' collection.
+ * This is used to identify new vs. returning users.
+ * @param senderId The unique ID of the user.
+ * @returns A boolean indicating if the user is a returning user.
+ */
+export async function isReturningUser(senderId: string): Promise<boolean> {
+    try {
+        return (await getDocument(RETURNING_USERS_COLLECTION, senderId)) !== null;
+    } catch (error) {
+        // If the database check fails, we conservatively assume it's a new user
+        // to avoid blocking the welcome message flow.
+        console.error(`storage.ts: Error checking for returning user [${senderId}]. Assuming new user.`, error);
+        return false;
+    }
+}
+
+/**
+ * Adds a new user's ID to the 'returning-users' collection.
+ * This is typically called on a user's first interaction.
+ * @param senderId The unique ID of the new user to add.
+ */
+export async function addNewUser(senderId: string): Promise<void> {
+    try {
+        // The existence of the document is what matters for the isReturningUser check,
+        // but storing the join date could be useful later.
+        await setDocument(RETURNING_USERS_COLLECTION, senderId, { joinedAt: new Date().toISOString() });
+        console.log(`storage.ts: Successfully added new user [${senderId}] to collection '${RETURNING_USERS_COLLECTION}'.`);
+    } catch (error) {
+        console.error(`storage.ts: Failed to add new user [${senderId}].`, error);
+        throw error;
+    }
+}
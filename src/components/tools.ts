@@ -0,0 +1,245 @@
+/**
+ * @file tools.ts
+ * @description This module declares the task actions Gemini can take as function calls (create,
+ * list, complete, reopen, delete, update and move tasks, and manage task lists), and validates the
+ * arguments of each call before it is executed. A valid call is converted into an `IdentifiedTask`,
+ * the action shape the rest of the application works with; an invalid one is rejected with an
+ * explanation the model can use to correct itself.
+ */
+
+import { FunctionDeclaration, Type } from '@google/genai';
+import { IdentifiedTask, TaskListOperation } from '../types/chat';
+
+// --- SHARED PARAMETERS ---
+const LIST_NAME_PARAMETER = {
+    type: Type.STRING,
+    description: 'The task list exactly as the user named it (e.g. "Groceries"). Omit it when the user did not name a list; that means their default list.',
+    nullable: true,
+};
+
+const TASK_REFERENCE_PARAMETERS = {
+    taskTitle: {
+        type: Type.STRING,
+        description: 'How the user referred to the task: its title, part of it, a description (e.g. "the milk one"), or its number in the last list shown. Omit it if the user did not say which task.',
+        nullable: true,
+    },
+    taskTitles: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        description: 'How the user referred to each task, when several are targeted at once (e.g. ["1", "3", "5"] for "1, 3 and 5", or ["report", "slides"]).',
+        nullable: true,
+    },
+    allMatching: {
+        type: Type.STRING,
+        description: 'When the user means every task matching some words (e.g. "demo" for "all the demo tasks"), those words.',
+        nullable: true,
+    },
+    listName: LIST_NAME_PARAMETER,
+};
+
+const TASK_LIST_OPERATIONS: TaskListOperation[] = ['show', 'create', 'rename'];
+
+/**
+ * The task actions Gemini may call. Their arguments are validated by `parseTaskToolCall`.
+ */
+export const TASK_TOOL_DECLARATIONS: FunctionDeclaration[] = [
+    {
+        name: 'create_task',
+        description: 'Creates a task (a to-do, a reminder or any actionable item) in Google Tasks.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                objective: { type: Type.STRING, description: "A concise, clear title for the task (e.g. 'Develop new login page')." },
+                description: { type: Type.STRING, description: 'A detailed breakdown of the task requirements.' },
+                final_result: { type: Type.STRING, description: 'The expected outcome when the task is complete.' },
+                user_experience: { type: Type.STRING, description: 'How this task benefits the end-user.' },
+                dueDate: { type: Type.STRING, description: 'The due date in YYYY-MM-DD format. Omit it if the user did not mention one.', nullable: true },
+                steps: {
+                    type: Type.ARRAY,
+                    items: { type: Type.STRING },
+                    description: 'For bigger ideas that take several distinct actions, the ordered steps to get it done (at most 10 short action titles). Empty for simple tasks.',
+                },
+                listName: LIST_NAME_PARAMETER,
+            },
+            required: ['objective', 'description', 'final_result', 'user_experience'],
+        },
+    },
+    {
+        name: 'list_tasks',
+        description: "Shows the user's open tasks.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                includeCompleted: { type: Type.BOOLEAN, description: 'Whether to also show the tasks completed recently (e.g. "what did I finish this week?").' },
+                listName: LIST_NAME_PARAMETER,
+            },
+        },
+    },
+    {
+        name: 'complete_tasks',
+        description: 'Marks one or more open tasks as completed. Completing a task is NOT deleting it.',
+        parameters: { type: Type.OBJECT, properties: TASK_REFERENCE_PARAMETERS },
+    },
+    {
+        name: 'reopen_tasks',
+        description: 'Reopens one or more completed tasks (undoes their completion).',
+        parameters: { type: Type.OBJECT, properties: TASK_REFERENCE_PARAMETERS },
+    },
+    {
+        name: 'delete_tasks',
+        description: 'Permanently deletes one or more tasks. Only use it when the user explicitly wants tasks removed.',
+        parameters: { type: Type.OBJECT, properties: TASK_REFERENCE_PARAMETERS },
+    },
+    {
+        name: 'update_task',
+        description: "Changes an existing task: renames it, changes its due date, or replaces or adds to its notes. Only pass the fields the user wants to change.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                taskTitle: TASK_REFERENCE_PARAMETERS.taskTitle,
+                newTitle: { type: Type.STRING, description: 'The new title.', nullable: true },
+                newNotes: { type: Type.STRING, description: 'New notes that fully replace the current ones.', nullable: true },
+                notesToAppend: { type: Type.STRING, description: 'Text to add to the current notes.', nullable: true },
+                dueDate: { type: Type.STRING, description: 'The new due date in YYYY-MM-DD format.', nullable: true },
+                listName: LIST_NAME_PARAMETER,
+            },
+        },
+    },
+    {
+        name: 'move_tasks',
+        description: 'Moves one or more tasks to another task list. Changing a due date is NOT a move; use update_task for that.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                ...TASK_REFERENCE_PARAMETERS,
+                listName: { ...LIST_NAME_PARAMETER, description: 'The task list the task is in now, if the user named it.' },
+                destinationListName: { type: Type.STRING, description: 'The task list to move the task(s) to.' },
+            },
+            required: ['destinationListName'],
+        },
+    },
+    {
+        name: 'manage_task_lists',
+        description: "Shows the user's task lists, or creates or renames a task list.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                operation: { type: Type.STRING, enum: TASK_LIST_OPERATIONS, description: 'What to do with the task lists.' },
+                listName: { type: Type.STRING, description: "For 'create', the name of the new list; for 'rename', the list to rename.", nullable: true },
+                newListName: { type: Type.STRING, description: "For 'rename', the new name of the list.", nullable: true },
+            },
+            required: ['operation'],
+        },
+    },
+];
+
+/**
+ * A private helper that reads an optional string argument.
+ * @param args The arguments of the call.
+ * @param name The name of the argument.
+ * @returns The trimmed string, or null if the argument is missing or empty.
+ * @throws An error if the argument has another type.
+ */
+function optionalString(args: Record<string, unknown>, name: string): string | null {
+    const value = args[name];
+    if (value === undefined || value === null) return null;
+    if (typeof value !== 'string') throw new Error(`"${name}" must be a string.`);
+    return value.trim() || null;
+}
+
+/**
+ * A private helper that reads a required string argument.
+ * @param args The arguments of the call.
+ * @param name The name of the argument.
+ * @returns The trimmed string.
+ * @throws An error if the argument is missing, empty, or has another type.
+ */
+function requiredString(args: Record<string, unknown>, name: string): string {
+    const value = optionalString(args, name);
+    if (!value) throw new Error(`"${name}" is required.`);
+    return value;
+}
+
+/**
+ * A private helper that reads an optional list of strings.
+ * @param args The arguments of the call.
+ * @param name The name of the argument.
+ * @returns The non-empty strings, or null if the argument is missing.
+ * @throws An error if the argument isn't a list of strings.
+ */
+function optionalStringList(args: Record<string, unknown>, name: string): string[] | null {
+    const value = args[name];
+    if (value === undefined || value === null) return null;
+    if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) throw new Error(`"${name}" must be a list of strings.`);
+    return value.map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Validates a function call from Gemini and converts it into the action to perform.
+ * @param name The name of the called function.
+ * @param args The arguments of the call.
+ * @returns The action, or an error message string explaining what is wrong with the call.
+ */
+export function parseTaskToolCall(name: string, args: Record<string, unknown> = {}): IdentifiedTask | string {
+    try {
+        const listName = optionalString(args, 'listName');
+        const taskReferences = () => ({
+            taskTitle: optionalString(args, 'taskTitle'),
+            taskTitles: optionalStringList(args, 'taskTitles'),
+            allMatching: optionalString(args, 'allMatching'),
+            listName,
+        });
+
+        switch (name) {
+            case 'create_task':
+                return {
+                    isTask: true,
+                    details: {
+                        objective: requiredString(args, 'objective'),
+                        description: optionalString(args, 'description') || '',
+                        final_result: optionalString(args, 'final_result') || '',
+                        user_experience: optionalString(args, 'user_experience') || '',
+                    },
+                    dueDate: optionalString(args, 'dueDate'),
+                    steps: optionalStringList(args, 'steps') || [],
+                    listName,
+                };
+            case 'list_tasks':
+                if (args.includeCompleted !== undefined && typeof args.includeCompleted !== 'boolean') {
+                    throw new Error('"includeCompleted" must be true or false.');
+                }
+                return { isTaskListRequest: true, includeCompleted: !!args.includeCompleted, listName };
+            case 'complete_tasks':
+                return { isTaskCompletionRequest: true, ...taskReferences() };
+            case 'reopen_tasks':
+                return { isTaskReopenRequest: true, ...taskReferences() };
+            case 'delete_tasks':
+                return { isTaskDeletionRequest: true, ...taskReferences() };
+            case 'update_task':
+                return {
+                    isTaskUpdateRequest: true,
+                    taskTitle: optionalString(args, 'taskTitle'),
+                    updates: {
+                        newTitle: optionalString(args, 'newTitle'),
+                        newNotes: optionalString(args, 'newNotes'),
+                        notesToAppend: optionalString(args, 'notesToAppend'),
+                        dueDate: optionalString(args, 'dueDate'),
+                    },
+                    listName,
+                };
+            case 'move_tasks':
+                return { isTaskMoveRequest: true, ...taskReferences(), destinationListName: requiredString(args, 'destinationListName') };
+            case 'manage_task_lists': {
+                const operation = requiredString(args, 'operation') as TaskListOperation;
+                if (!TASK_LIST_OPERATIONS.includes(operation)) {
+                    throw new Error(`"operation" must be one of: ${TASK_LIST_OPERATIONS.join(', ')}.`);
+                }
+                return { isListManagementRequest: true, operation, listName, newListName: optionalString(args, 'newListName') };
+            }
+            default:
+                return `Unknown function "${name}".`;
+        }
+    } catch (error: any) {
+        return `Invalid arguments for ${name}: ${error.message}`;
+    }
+}
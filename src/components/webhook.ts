@@ -0,0 +1,35 @@
+/**
+ * @file webhook.ts
+ * @description This module protects the Twilio webhook. Twilio signs every request it sends with
+ * the account's auth token, so a request without a valid signature didn't come from Twilio and
+ * must not be processed: anyone could otherwise post messages in any user's name.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import twilio from 'twilio';
+
+/**
+ * Creates an Express middleware that rejects webhook requests not signed by Twilio.
+ * The signature is computed by Twilio over the public URL it called, so the URL is rebuilt from
+ * the server's public base URL rather than from the request, which sits behind Cloud Run's proxy.
+ * @param authToken The Twilio auth token the requests are signed with.
+ * @param publicBaseUrl The public origin of the server (e.g. "https://voicetasks.a.run.app").
+ * @param skipValidation Whether to let every request through. Only for local development.
+ * @returns The middleware.
+ */
+export function createTwilioSignatureValidator(authToken: string, publicBaseUrl: string, skipValidation: boolean = false): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+        if (skipValidation) {
+            return next();
+        }
+
+        const signature = req.header('X-Twilio-Signature');
+        const publicUrl = `${publicBaseUrl}${req.originalUrl}`;
+        if (!signature || !twilio.validateRequest(authToken, signature, publicUrl, req.body || {})) {
+            console.warn(`webhook.ts: Rejected request to [${publicUrl}] with a missing or invalid Twilio signature (claimed sender: ${req.body?.From}).`);
+            res.status(403).send('Forbidden: invalid Twilio signature.');
+            return;
+        }
+        return next();
+    };
+}
@@ -3,23 +3,38 @@
  * @description This is the main entry point for the VoiceTasks application. It sets up an
  * Express server that listens for incoming WhatsApp messages via a Twilio webhook. The server
  * handles user authentication, processes text and media messages using the Google Gemini API,
- * manages chat state, and integrates with the Google Tasks API to create, list, and delete tasks.
+ * manages chat state, and integrates with the Google Tasks API to create, list, edit, complete, move, and delete tasks
+ * across the user's task lists.
+ * It also exposes a protected endpoint that triggers proactive due-date reminders and morning digests.
  */
 
 import express, { Request, Response, NextFunction } from 'express';
 import twilio from 'twilio';
 import dotenv from 'dotenv';
-import path from 'path';
-import fs from 'fs';
 import { promises as fsPromises } from 'fs';
-import axios from 'axios';
+import crypto from 'crypto';
 import { GoogleGenAI } from '@google/genai';
-import { ChatHistories, IdentifiedTask } from './types/chat';
+import { FileDataSource, IdentifiedTask, PendingTaskPage, PendingTaskSelection, TaskListOperation, TaskRef, TaskSelectionAction, TaskUpdates, UsageMetric } from './types/chat';
+import { IncomingMessage, ProcessedMessage } from './types/jobs';
 import * as Prompts from './components/prompts';
 import * as Gemini from './components/gemini';
 import * as GAuth from './components/gauth';
 import * as GTasks from './components/gtasks';
-import * as Firestore from './components/firestore';
+import * as Storage from './components/storage';
+import * as ChatState from './components/chatstate';
+import * as Dates from './components/dates';
+import * as Preferences from './components/preferences';
+import * as Reminders from './components/reminders';
+import * as Matching from './components/matching';
+import * as Tools from './components/tools';
+import * as Intent from './components/intent';
+import * as Media from './components/media';
+import * as Jobs from './components/jobs';
+import * as Idempotency from './components/idempotency';
+import * as Quotas from './components/quotas';
+import * as Access from './components/access';
+import { createTwilioSignatureValidator } from './components/webhook';
+import { assertEncryptionConfigured } from './components/encryption';
 
 // =================================================================================================
 // ==                                     INITIAL SETUP                                           ==
@@ -30,7 +45,8 @@ dotenv.config();
 // --- Environment Variable Validation ---
 const requiredEnvVars = [
     'TWILIO_ACCOUNT_SID', 'TWILIO_AUTH_TOKEN', 'FROM_NUMBER', 
-    'GEMINI_API_KEY', 'GOOGLE_CLIENT_ID', 'GOOGLE_CLIENT_SECRET', 'GOOGLE_REDIRECT_URI'
+    'GEMINI_API_KEY', 'GOOGLE_CLIENT_ID', 'GOOGLE_CLIENT_SECRET', 'GOOGLE_REDIRECT_URI',
+    'TOKEN_ENCRYPTION_KEYS'
 ];
 const missingEnvVars = requiredEnvVars.filter(key => !process.env[key]);
 if (missingEnvVars.length > 0) {
@@ -43,6 +59,13 @@ const {
     GEMINI_API_KEY, GOOGLE_REDIRECT_URI
 } = process.env;
 
+try {
+    assertEncryptionConfigured();
+} catch (error: any) {
+    console.error(`FATAL ERROR: ${error.message} Please check your .env file.`);
+    process.exit(1);
+}
+
 // --- Server and Client Initialization ---
 let SERVER_BASE_URL: string;
 try {
@@ -59,129 +82,632 @@ app.use(express.urlencoded({ extended: true }));
 app.use(express.json());
 
 const twilioClient = twilio(TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN);
-const ai = new GoogleGenAI({ apiKey: GEMINI_API_KEY! });
-const mediaDir = path.join('/tmp', 'media');
-if (!fs.existsSync(mediaDir)) fs.mkdirSync(mediaDir, { recursive: true });
 
-// =================================================================================================
-// ==                                     STATE MANAGEMENT                                        ==
-// =================================================================================================
+// Signature validation must only be disabled for local development (e.g. when posting to the
+// webhook by hand). Twilio signs the public URL, so requests are validated against SERVER_BASE_URL.
+const SKIP_TWILIO_SIGNATURE_VALIDATION = process.env.SKIP_TWILIO_SIGNATURE_VALIDATION === 'true';
+if (SKIP_TWILIO_SIGNATURE_VALIDATION) {
+    console.warn('WARNING: Twilio signature validation is DISABLED. Never use this setting in production.');
+}
+const validateTwilioSignature = createTwilioSignatureValidator(TWILIO_AUTH_TOKEN!, SERVER_BASE_URL, SKIP_TWILIO_SIGNATURE_VALIDATION);
 
-// In-memory stores for chat histories and pending user states.
-// For a production environment, this state would ideally be moved to a more persistent
-// store like Redis or Firestore to handle server restarts and scaling.
-const chatHistories: ChatHistories = {};
-const pendingMedia: { [senderId: string]: { filePath: string; mimeType: string } } = {};
-const pendingDeletion: { [senderId: string]: string[] } = {};
+// The reminder endpoint is only enabled when a secret is configured; the scheduler must send it
+// as a bearer token.
+const REMINDERS_TRIGGER_SECRET = process.env.REMINDERS_TRIGGER_SECRET;
+if (!REMINDERS_TRIGGER_SECRET) {
+    console.warn('WARNING: REMINDERS_TRIGGER_SECRET is not set. Proactive reminders are disabled.');
+}
+
+// Unless access is restricted, anyone who finds the number can use the bot (and its Gemini quota).
+if (Access.getAccessMode() === 'open') {
+    console.warn('WARNING: ACCESS_MODE is "open": every sender is served. Set ACCESS_MODE=restricted to only serve allowed senders.');
+}
+
+const ai = new GoogleGenAI({ apiKey: GEMINI_API_KEY! });
+// Replies that ask for the next page of a task listing.
+const MORE_REPLIES = ['more', 'next', 'mais', 'más'];
+// How often stale media (local files left behind, media never given instructions) and expired state are cleaned up.
+const MEDIA_JANITOR_INTERVAL_MS = (Number(process.env.MEDIA_JANITOR_INTERVAL_MINUTES) || 10) * 60 * 1000;
 
 // =================================================================================================
 // ==                                     HELPER FUNCTIONS                                        ==
 // =================================================================================================
 
 /**
- * A centralized function to process Gemini's response. It checks for actionable JSON
- * (for creating, listing, or deleting tasks) and handles it. Otherwise, it formats
- * the response as a standard chat message.
- * @param responseText The raw text response from the Gemini API.
- * @param googleSearchUsed A boolean indicating if Google Search was used by the model.
- * @param senderId The user's unique identifier.
- * @param twiml The Twilio TwiML response object to be populated.
+ * Where a handler sends its messages to the user: the TwiML response to the webhook, or the
+ * collector that turns them into the result of a Gemini function call.
+ */
+interface ReplySink {
+    message(body: string): unknown;
+}
+
+/**
+ * Sends Gemini's reply to the user. Replies that relay the outcome of task functions are sent as
+ * they are; any other reply is formatted as a standard chat message.
+ * @param result The response from the Gemini API.
+ * @param twiml The response to be populated.
  */
-async function handleGeminiResponse(responseText: string, googleSearchUsed: boolean, senderId: string, twiml: twilio.twiml.MessagingResponse) {
+function handleGeminiResponse(result: Gemini.GeminiChatResponse, twiml: ReplySink) {
+    const { responseText, googleSearchUsed, taskToolsUsed } = result;
     if (!responseText) {
         twiml.message(Prompts.GENERAL_MESSAGES.GEMINI_EMPTY_RESPONSE);
-        return;
+    } else if (taskToolsUsed) {
+        twiml.message(responseText.trim());
+    } else {
+        twiml.message(formatGeminiResponse(responseText, googleSearchUsed));
     }
+}
 
-    try {
-        // Attempt to extract a JSON object from the model's response.
-        const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-        if (!jsonMatch) {
-            // If no JSON is found, it's a standard chat message.
-            twiml.message(formatGeminiResponse(responseText, googleSearchUsed));
-            return;
+/**
+ * Builds the executor that runs the task functions Gemini calls on behalf of a user. Each call is
+ * validated, performed, and answered with the messages it produced, which the model relays to the user.
+ * @param senderId The user's unique identifier.
+ * @returns The executor to pass to the Gemini functions.
+ */
+function createTaskToolExecutor(senderId: string): Gemini.TaskToolExecutor {
+    return async (name, args) => {
+        const request = Tools.parseTaskToolCall(name, args);
+        if (typeof request === 'string') {
+            console.warn(`index.ts: Rejected a ${name} call from Gemini for [${senderId}]: ${request}`);
+            return { error: request };
         }
 
-        const parsedJson: IdentifiedTask = JSON.parse(jsonMatch[0]);
-        const isAuthenticated = await GAuth.isUserAuthenticated(senderId);
+        const messages: string[] = [];
+        try {
+            await handleTaskAction(senderId, request, { message: (body: string) => messages.push(body) });
+        } catch (error) {
+            console.error(`index.ts: Error executing ${name} for [${senderId}]:`, error);
+            return { error: Prompts.TASK_MESSAGES.ACTION_ERROR };
+        }
+        return { reply: messages.join('\n\n') };
+    };
+}
 
-        if (parsedJson.isTask) {
-            // Handle Task Creation
-            console.log(`index.ts: Gemini identified a task for creation from [${senderId}].`);
-            if (!isAuthenticated) {
-                twiml.message(Prompts.AUTH_MESSAGES.TASK_CREATION_AUTH_REQUIRED);
-            } else {
-                const tomorrow = getNextBusinessDay();
-                const taskResult = await GTasks.createGoogleTask(senderId, {
-                    title: parsedJson.details.objective,
-                    description: `Description: ${parsedJson.details.description}\nFinal Result: ${parsedJson.details.final_result}\nUser Experience: ${parsedJson.details.user_experience}`,
-                    dueDate: tomorrow.toISOString(),
-                });
-                if (typeof taskResult === 'string') {
-                    twiml.message(taskResult);
-                } else {
-                    twiml.message(Prompts.TASK_MESSAGES.SUCCESS(taskResult.title || 'Untitled Task'));
-                }
+/**
+ * Performs a task action identified by Gemini: creating, listing, updating, completing, reopening,
+ * moving or deleting tasks, or managing task lists.
+ * @param senderId The user's unique identifier.
+ * @param request The action, built from a validated function call.
+ * @param twiml The response to be populated with the outcome.
+ */
+async function handleTaskAction(senderId: string, request: IdentifiedTask, twiml: ReplySink) {
+    const isAuthenticated = await GAuth.isUserAuthenticated(senderId);
+
+    if (request.isTask) {
+        // Handle Task Creation
+        console.log(`index.ts: Gemini identified a task for creation from [${senderId}].`);
+        if (!isAuthenticated) {
+            twiml.message(Prompts.AUTH_MESSAGES.TASK_CREATION_AUTH_REQUIRED);
+        } else {
+            const taskList = await resolveTaskListReference(senderId, request.listName, twiml);
+            if (taskList === null) return;
+
+            // Use the due date the user asked for, falling back to their default due-date rule.
+            const requestedDueDate = request.dueDate && Dates.isValidIsoDate(request.dueDate) ? request.dueDate : null;
+            if (request.dueDate && !requestedDueDate) {
+                console.warn(`index.ts: Ignoring invalid due date "${request.dueDate}" from Gemini for [${senderId}].`);
             }
-        } else if (parsedJson.isTaskListRequest) {
-            // Handle Task Listing
-            console.log(`index.ts: Gemini identified a task listing request from [${senderId}].`);
-            if (!isAuthenticated) {
-                twiml.message(Prompts.AUTH_MESSAGES.TASK_LISTING_AUTH_REQUIRED);
+            const preferences = await Preferences.getUserPreferences(senderId);
+            const dueDate = requestedDueDate || Dates.resolveDefaultDueDate(preferences.defaultDueDate, preferences.timeZone);
+            const steps = Array.isArray(request.steps) ? request.steps.filter(step => typeof step === 'string' && step.trim()).slice(0, GTasks.MAX_SUBTASKS) : [];
+            const taskResult = await GTasks.createGoogleTask(senderId, {
+                title: request.details.objective,
+                description: `Description: ${request.details.description}\nFinal Result: ${request.details.final_result}\nUser Experience: ${request.details.user_experience}`,
+                dueDate: dueDate || undefined,
+                subtasks: steps,
+            }, taskList?.id);
+            if (typeof taskResult === 'string') {
+                twiml.message(taskResult);
             } else {
-                const tasksString = await GTasks.getFormattedTasksString(senderId);
-                twiml.message(tasksString);
+                twiml.message(Prompts.TASK_MESSAGES.SUCCESS(taskResult.title || 'Untitled Task', dueDate ? Dates.formatIsoDate(dueDate) : null, !requestedDueDate, steps, taskList?.title));
             }
-        } else if (parsedJson.isTaskDeletionRequest) {
-            // Handle Task Deletion
-            console.log(`index.ts: Gemini identified a task deletion request from [${senderId}].`);
-            if (!isAuthenticated) {
-                twiml.message(Prompts.AUTH_MESSAGES.TASK_DELETION_AUTH_REQUIRED);
-            } else if (parsedJson.taskTitle) {
-                // If the model extracted a title, delete it directly.
-                const deletionResult = await GTasks.deleteGoogleTask(senderId, parsedJson.taskTitle);
-                twiml.message(deletionResult);
+        }
+    } else if (request.isTaskListRequest) {
+        // Handle Task Listing
+        console.log(`index.ts: Gemini identified a task listing request from [${senderId}].`);
+        if (!isAuthenticated) {
+            twiml.message(Prompts.AUTH_MESSAGES.TASK_LISTING_AUTH_REQUIRED);
+        } else {
+            const taskList = await resolveTaskListReference(senderId, request.listName, twiml);
+            if (taskList === null) return;
+            await sendTasksPage(senderId, { taskListId: taskList?.id, includeCompleted: !!request.includeCompleted, nextPage: 1 }, twiml);
+        }
+    } else if (request.isTaskDeletionRequest || request.isTaskCompletionRequest || request.isTaskReopenRequest) {
+        // Handle Task Deletion, Completion and Reopening
+        const action: TaskSelectionAction = request.isTaskDeletionRequest ? 'delete' : request.isTaskCompletionRequest ? 'complete' : 'reopen';
+        console.log(`index.ts: Gemini identified a task ${action} request from [${senderId}].`);
+        if (!isAuthenticated) {
+            twiml.message(action === 'delete' ? Prompts.AUTH_MESSAGES.TASK_DELETION_AUTH_REQUIRED : Prompts.AUTH_MESSAGES.TASK_UPDATE_AUTH_REQUIRED);
+        } else {
+            const taskList = await resolveTaskListReference(senderId, request.listName, twiml);
+            if (taskList === null) return;
+            // Act on the task(s) the user meant, or prompt them to choose when that isn't clear.
+            await handleTaskReferences(senderId, action, request, { taskListId: taskList?.id }, twiml);
+        }
+    } else if (request.isTaskUpdateRequest) {
+        // Handle Task Update
+        console.log(`index.ts: Gemini identified a task update request from [${senderId}].`);
+        if (!isAuthenticated) {
+            twiml.message(Prompts.AUTH_MESSAGES.TASK_UPDATE_AUTH_REQUIRED);
+        } else {
+            const taskList = await resolveTaskListReference(senderId, request.listName, twiml);
+            if (taskList === null) return;
+            await handleTaskReference(senderId, 'update', request.taskTitle, { updates: request.updates || {}, taskListId: taskList?.id }, twiml);
+        }
+    } else if (request.isTaskMoveRequest) {
+        // Handle moving a task to another list
+        console.log(`index.ts: Gemini identified a task move request from [${senderId}].`);
+        if (!isAuthenticated) {
+            twiml.message(Prompts.AUTH_MESSAGES.TASK_UPDATE_AUTH_REQUIRED);
+        } else if (!request.destinationListName?.trim()) {
+            twiml.message(Prompts.LIST_MESSAGES.MOVE_DESTINATION_REQUIRED);
+        } else {
+            const taskList = await resolveTaskListReference(senderId, request.listName, twiml);
+            if (taskList === null) return;
+            const destination = await resolveTaskListReference(senderId, request.destinationListName, twiml);
+            if (!destination) return;
+            await handleTaskReferences(senderId, 'move', request, { taskListId: taskList?.id, destinationListId: destination.id }, twiml, {
+                prompt: Prompts.LIST_MESSAGES.MOVE_PROMPT(destination.title),
+            });
+        }
+    } else if (request.isListManagementRequest) {
+        // Handle showing, creating and renaming task lists
+        console.log(`index.ts: Gemini identified a list ${request.operation} request from [${senderId}].`);
+        if (!isAuthenticated) {
+            twiml.message(Prompts.AUTH_MESSAGES.LISTS_AUTH_REQUIRED);
+        } else {
+            await handleListManagementRequest(senderId, request.operation, request.listName, request.newListName, twiml);
+        }
+    }
+}
+
+/**
+ * The context of a single-task action: the list the task is in, and what to do with it.
+ */
+type TaskActionContext = Omit<PendingTaskSelection, 'action' | 'tasks' | 'awaitingConfirmation'>;
+
+/**
+ * Applies a single-task action to the given task.
+ * @param senderId The user's unique identifier.
+ * @param action The action to apply.
+ * @param task The target task.
+ * @param context The list the task is in (defaults to the user's default list), the changes to apply
+ * for the 'update' action, and the destination list for the 'move' action.
+ * @returns A promise resolving to the result of the action.
+ */
+async function applyTaskAction(senderId: string, action: TaskSelectionAction, task: TaskRef, context: TaskActionContext = {}): Promise<GTasks.TaskActionResult> {
+    const { taskListId, updates = {}, destinationListId } = context;
+    switch (action) {
+        case 'delete':
+            return GTasks.deleteGoogleTask(senderId, task, taskListId);
+        case 'complete':
+            return GTasks.completeGoogleTask(senderId, task, taskListId);
+        case 'reopen':
+            return GTasks.reopenGoogleTask(senderId, task, taskListId);
+        case 'update':
+            return GTasks.updateGoogleTask(senderId, task, updates, taskListId);
+        case 'move':
+            return GTasks.moveGoogleTask(senderId, task, destinationListId!, taskListId);
+    }
+}
+
+/**
+ * Builds the context remembered with a pending selection, leaving out what isn't set (e.g. the list
+ * ID when the user didn't name a list) or doesn't apply to the action, so the stored prompt never
+ * holds undefined values.
+ * @param action The action awaiting a target.
+ * @param context The context the action is applied with.
+ * @returns The context with only the properties that have a value.
+ */
+function toPendingContext(action: TaskSelectionAction, context: TaskActionContext): TaskActionContext {
+    const pendingContext: TaskActionContext = {};
+    if (context.taskListId) pendingContext.taskListId = context.taskListId;
+    if (action === 'update' && context.updates) pendingContext.updates = context.updates;
+    if (context.destinationListId) pendingContext.destinationListId = context.destinationListId;
+    return pendingContext;
+}
+
+/**
+ * Asks the user which task an action should apply to, by presenting a numbered list of candidates,
+ * and remembers the prompt so the next reply can be resolved against it.
+ * @param senderId The user's unique identifier.
+ * @param action The action awaiting a target.
+ * @param twiml The response to be populated.
+ * @param options The candidates to offer (defaults to all eligible tasks in the list), a custom prompt,
+ * and the context to apply the action with.
+ */
+async function promptTaskSelection(
+    senderId: string,
+    action: TaskSelectionAction,
+    twiml: ReplySink,
+    options: TaskActionContext & { candidates?: TaskRef[]; prompt?: string } = {}
+) {
+    const { candidates, prompt, ...context } = options;
+    const prompts = {
+        delete: { prompt: Prompts.TASK_MESSAGES.DELETION_PROMPT, empty: Prompts.TASK_MESSAGES.DELETION_NO_TASKS },
+        complete: { prompt: Prompts.TASK_MESSAGES.COMPLETION_PROMPT, empty: Prompts.TASK_MESSAGES.COMPLETION_NO_TASKS },
+        reopen: { prompt: Prompts.TASK_MESSAGES.REOPEN_PROMPT, empty: Prompts.TASK_MESSAGES.REOPEN_NO_TASKS },
+        update: { prompt: Prompts.TASK_MESSAGES.UPDATE_PROMPT, empty: Prompts.TASK_MESSAGES.UPDATE_NO_TASKS },
+        move: { prompt: Prompts.TASK_MESSAGES.UPDATE_PROMPT, empty: Prompts.LIST_MESSAGES.MOVE_NO_TASKS },
+    }[action];
+
+    // Only completed tasks can be reopened; every other action targets open tasks.
+    const tasks = candidates
+        ?? await GTasks.getTaskRefs(senderId, action === 'reopen' ? 'completed' : 'needsAction', context.taskListId);
+    if (tasks && tasks.length > 0) {
+        await ChatState.setPendingTaskSelection(senderId, { action, tasks, ...toPendingContext(action, context) });
+        const numberedTasks = tasks.map((task, i) => `${i + 1}. ${Matching.describeTask(task)}`).join('\n');
+        twiml.message(`${prompt || prompts.prompt}\n\n${numberedTasks}`);
+    } else {
+        twiml.message(prompts.empty);
+    }
+}
+
+/**
+ * Resolves which task a request refers to and applies the action to it, asking the user to
+ * choose when the reference is missing or could mean more than one task.
+ * @param senderId The user's unique identifier.
+ * @param action The action to apply.
+ * @param taskReference How the user referred to the task (title, part of it, a description, or list number), or null.
+ * @param context The list the task is in and what to do with it.
+ * @param twiml The response to be populated.
+ * @param options A custom prompt to show when the user didn't say which task.
+ */
+async function handleTaskReference(
+    senderId: string,
+    action: TaskSelectionAction,
+    taskReference: string | null,
+    context: TaskActionContext,
+    twiml: ReplySink,
+    options: { prompt?: string } = {}
+) {
+    if (!taskReference?.trim()) {
+        await promptTaskSelection(senderId, action, twiml, { ...context, prompt: options.prompt });
+        return;
+    }
+
+    // Only completed tasks can be reopened; every other action targets open tasks.
+    const tasks = await GTasks.getTaskRefs(senderId, action === 'reopen' ? 'completed' : 'needsAction', context.taskListId);
+    if (!tasks) {
+        twiml.message(Prompts.TASK_MESSAGES.FETCH_ERROR);
+        return;
+    }
+    const match = await Matching.matchTask(ai, senderId, taskReference, tasks);
+    if (match.kind === 'confident') {
+        twiml.message((await applyTaskAction(senderId, action, match.task, context)).message);
+    } else if (match.kind === 'ambiguous') {
+        await promptTaskSelection(senderId, action, twiml, { ...context, candidates: match.candidates, prompt: Prompts.TASK_MESSAGES.AMBIGUOUS(taskReference) });
+    } else {
+        await promptTaskSelection(senderId, action, twiml, { ...context, candidates: tasks, prompt: Prompts.TASK_MESSAGES.NO_MATCH(taskReference) });
+    }
+}
+
+/**
+ * Resolves the tasks a request refers to and applies the action to them. A request naming a single
+ * task goes through `handleTaskReference`; one naming several ("delete 1, 3 and 5") or describing a
+ * group ("all the demo tasks") is resolved reference by reference and applied as a batch.
+ * @param senderId The user's unique identifier.
+ * @param action The action to apply.
+ * @param target How the user referred to the task(s), as identified by the model.
+ * @param context The list the tasks are in and what to do with them.
+ * @param twiml The response to be populated.
+ * @param options A custom prompt to show when the user didn't say which task.
+ */
+async function handleTaskReferences(
+    senderId: string,
+    action: TaskSelectionAction,
+    target: { taskTitle?: string | null; taskTitles?: string[] | null; allMatching?: string | null },
+    context: TaskActionContext,
+    twiml: ReplySink,
+    options: { prompt?: string } = {}
+) {
+    const references = [target.taskTitle, ...(Array.isArray(target.taskTitles) ? target.taskTitles : [])]
+        .filter((reference): reference is string => typeof reference === 'string' && !!reference.trim());
+    const allMatching = target.allMatching?.trim();
+    if (references.length <= 1 && !allMatching) {
+        await handleTaskReference(senderId, action, references[0] || null, context, twiml, options);
+        return;
+    }
+
+    const tasks = await GTasks.getTaskRefs(senderId, action === 'reopen' ? 'completed' : 'needsAction', context.taskListId);
+    if (!tasks) {
+        twiml.message(Prompts.TASK_MESSAGES.FETCH_ERROR);
+        return;
+    }
+
+    // Only confident matches are acted on; the rest are reported back instead of guessed.
+    const targets: TaskRef[] = [];
+    const unresolved: string[] = [];
+    for (const reference of references) {
+        const match = await Matching.matchTask(ai, senderId, reference, tasks);
+        if (match.kind === 'confident') {
+            targets.push(match.task);
+        } else {
+            unresolved.push(reference);
+        }
+    }
+    if (allMatching) {
+        const matches = Matching.findAllMatchingTasks(allMatching, tasks);
+        if (matches.length > 0) {
+            targets.push(...matches);
+        } else {
+            unresolved.push(allMatching);
+        }
+    }
+
+    if (targets.length === 0) {
+        await promptTaskSelection(senderId, action, twiml, { ...context, candidates: tasks, prompt: Prompts.TASK_MESSAGES.NO_MATCH(unresolved.join(', ')) });
+        return;
+    }
+    // A task named twice (e.g. by its number and by its title) is only acted on once.
+    const uniqueTargets = targets.filter((task, i) => targets.findIndex(other => other.id === task.id) === i);
+    await applyTaskActionToSelection(senderId, action, uniqueTargets, context, twiml, unresolved);
+}
+
+/**
+ * Applies an action to the tasks the user picked. Deleting can't be undone, so a batch of
+ * deletions is only remembered and the user is asked to confirm it first.
+ * @param senderId The user's unique identifier.
+ * @param action The action to apply.
+ * @param tasks The target tasks.
+ * @param context The list the tasks are in and what to do with them.
+ * @param twiml The response to be populated.
+ * @param unresolved The references that didn't match any task, to be reported to the user.
+ */
+async function applyTaskActionToSelection(
+    senderId: string,
+    action: TaskSelectionAction,
+    tasks: TaskRef[],
+    context: TaskActionContext,
+    twiml: ReplySink,
+    unresolved: string[] = []
+) {
+    const unresolvedNote = unresolved.length > 0 ? `\n\n${Prompts.TASK_MESSAGES.BULK_UNRESOLVED(unresolved)}` : '';
+    if (action === 'delete' && tasks.length > 1) {
+        await ChatState.setPendingTaskSelection(senderId, { action, tasks, ...toPendingContext(action, context), awaitingConfirmation: true });
+        twiml.message(`${Prompts.TASK_MESSAGES.BULK_DELETION_CONFIRMATION(tasks.map(Matching.describeTask))}${unresolvedNote}`);
+        return;
+    }
+    twiml.message(`${await applyTaskActionToMany(senderId, action, tasks, context)}${unresolvedNote}`);
+}
+
+/**
+ * Applies an action to each of the given tasks, one after the other, and summarizes the outcome.
+ * @param senderId The user's unique identifier.
+ * @param action The action to apply.
+ * @param tasks The target tasks.
+ * @param context The list the tasks are in and what to do with them.
+ * @returns A promise resolving to the result message for a single task, or a summary of what succeeded and failed.
+ */
+async function applyTaskActionToMany(senderId: string, action: TaskSelectionAction, tasks: TaskRef[], context: TaskActionContext): Promise<string> {
+    const results: GTasks.TaskActionResult[] = [];
+    for (const task of tasks) {
+        results.push(await applyTaskAction(senderId, action, task, context));
+    }
+    console.log(`index.ts: Applied ${action} to ${tasks.length} task(s) for [${senderId}]; ${results.filter(result => result.success).length} succeeded.`);
+    return results.length === 1 ? results[0].message : Prompts.TASK_MESSAGES.BULK_SUMMARY(results);
+}
+
+/**
+ * Sends one page of a task listing and, if there are more pages, remembers the listing so the user
+ * can reply "more" to see the next one.
+ * @param senderId The user's unique identifier.
+ * @param listing The list to show (undefined ID for the default list), whether to include completed tasks, and the page to show.
+ * @param twiml The response to be populated.
+ */
+async function sendTasksPage(senderId: string, listing: PendingTaskPage, twiml: ReplySink) {
+    const { taskListId, includeCompleted, nextPage } = listing;
+    const result = await GTasks.getFormattedTasksPage(senderId, includeCompleted, taskListId, nextPage);
+    if (typeof result === 'string') {
+        twiml.message(result);
+        return;
+    }
+    twiml.message(result.text);
+    if (result.page < result.totalPages) {
+        // The default list has no ID; leave it out rather than storing an undefined value.
+        const nextListing: PendingTaskPage = { includeCompleted, nextPage: result.page + 1 };
+        if (taskListId) nextListing.taskListId = taskListId;
+        await ChatState.setPendingTaskPage(senderId, nextListing);
+    } else {
+        // Forget any earlier listing, so "more" never continues a list the user has moved on from.
+        await ChatState.consumePendingTaskPage(senderId);
+    }
+}
+
+/**
+ * Resolves the task list a user named (by name, part of it, or its number in `/lists`) to the list
+ * and its stable ID, telling the user when no list or more than one list matches.
+ * @param senderId The user's unique identifier.
+ * @param listName How the user referred to the list, or null/empty for their default list.
+ * @param twiml The response, populated when the list can't be resolved.
+ * @returns The matching list, undefined for the user's default list, or null if the list couldn't be resolved.
+ */
+async function resolveTaskListReference(
+    senderId: string,
+    listName: string | null | undefined,
+    twiml: ReplySink
+): Promise<GTasks.TaskListRef | undefined | null> {
+    if (!listName?.trim()) {
+        return undefined;
+    }
+
+    const matches = await GTasks.findTaskLists(senderId, listName);
+    if (typeof matches === 'string') {
+        twiml.message(matches);
+        return null;
+    }
+    if (matches.length === 1) {
+        return matches[0];
+    }
+    if (matches.length > 1) {
+        twiml.message(Prompts.LIST_MESSAGES.AMBIGUOUS(listName, matches));
+    } else {
+        const taskLists = await GTasks.listTaskLists(senderId);
+        twiml.message(Prompts.LIST_MESSAGES.NOT_FOUND(listName, typeof taskLists === 'string' ? [] : taskLists));
+    }
+    return null;
+}
+
+/**
+ * Shows the user's task lists, numbered and with their default list marked.
+ * @param senderId The user's unique identifier.
+ * @param twiml The response to be populated.
+ */
+async function showTaskLists(senderId: string, twiml: ReplySink) {
+    const taskLists = await GTasks.listTaskLists(senderId);
+    if (typeof taskLists === 'string') {
+        twiml.message(taskLists);
+    } else if (taskLists.length === 0) {
+        twiml.message(Prompts.LIST_MESSAGES.NO_LISTS);
+    } else {
+        // Until a task is created, the default list is the dedicated one, if the user already has it.
+        const { defaultTaskListId } = await Preferences.getUserPreferences(senderId);
+        const defaultId = defaultTaskListId ?? taskLists.find(list => list.title === Preferences.DEFAULT_TASK_LIST_NAME)?.id ?? null;
+        twiml.message(Prompts.LIST_MESSAGES.OVERVIEW(taskLists, defaultId));
+    }
+}
+
+/**
+ * Handles a request to show, create or rename task lists.
+ * @param senderId The user's unique identifier.
+ * @param operation What to do with the lists.
+ * @param listName The new list's name ('create') or the list to rename ('rename').
+ * @param newListName The new name of the list ('rename').
+ * @param twiml The response to be populated.
+ */
+async function handleListManagementRequest(
+    senderId: string,
+    operation: TaskListOperation,
+    listName: string | null | undefined,
+    newListName: string | null | undefined,
+    twiml: ReplySink
+) {
+    switch (operation) {
+        case 'create': {
+            if (!listName?.trim()) {
+                twiml.message(Prompts.LIST_MESSAGES.NAME_REQUIRED);
+                return;
+            }
+            const taskLists = await GTasks.listTaskLists(senderId);
+            const existing = typeof taskLists === 'string' ? undefined : taskLists.find(list => list.title.toLowerCase() === listName.trim().toLowerCase());
+            if (existing) {
+                twiml.message(Prompts.LIST_MESSAGES.ALREADY_EXISTS(existing.title));
+                return;
+            }
+            const created = await GTasks.createTaskList(senderId, listName);
+            twiml.message(typeof created === 'string' ? created : Prompts.LIST_MESSAGES.CREATED(created.title));
+            return;
+        }
+        case 'rename': {
+            if (!listName?.trim()) {
+                twiml.message(Prompts.LIST_MESSAGES.NAME_REQUIRED);
+                return;
+            }
+            if (!newListName?.trim()) {
+                twiml.message(Prompts.LIST_MESSAGES.NEW_NAME_REQUIRED);
+                return;
+            }
+            const taskList = await resolveTaskListReference(senderId, listName, twiml);
+            if (!taskList) return;
+            const renamed = await GTasks.renameTaskList(senderId, taskList.id, newListName);
+            twiml.message(typeof renamed === 'string' ? renamed : Prompts.LIST_MESSAGES.RENAMED(taskList.title, renamed.title));
+            return;
+        }
+        default:
+            await showTaskLists(senderId, twiml);
+    }
+}
+
+/**
+ * Returns the title of the user's default task list, for display in their settings.
+ * @param senderId The user's unique identifier.
+ * @returns The title, or a placeholder if it can't be looked up.
+ */
+async function getDefaultTaskListTitle(senderId: string): Promise<string> {
+    if (!(await GAuth.isUserAuthenticated(senderId))) {
+        return Prompts.LIST_MESSAGES.DEFAULT_LIST_UNKNOWN;
+    }
+    const taskList = await GTasks.getDefaultTaskListRef(senderId);
+    if (typeof taskList === 'string') {
+        return Prompts.LIST_MESSAGES.DEFAULT_LIST_UNKNOWN;
+    }
+    return taskList ? taskList.title : Prompts.LIST_MESSAGES.DEFAULT_LIST_NOT_CREATED(Preferences.DEFAULT_TASK_LIST_NAME);
+}
+
+/**
+ * Handles the `/settings` command family: shows the user's preferences, changes one of them
+ * (`/settings <name> <value>`), or restores the defaults (`/settings reset`). The default list
+ * (`/settings list <list>`) is resolved with Google Tasks and stored by ID.
+ * @param senderId The user's unique identifier.
+ * @param args The command arguments, with their original casing.
+ * @param twiml The response to be populated.
+ */
+async function handleSettingsCommand(senderId: string, args: string[], twiml: ReplySink) {
+    const [settingName, ...valueParts] = args;
+    try {
+        if (!settingName) {
+            const preferences = await Preferences.getUserPreferences(senderId);
+            twiml.message(Prompts.SETTINGS_MESSAGES.OVERVIEW(preferences, await getDefaultTaskListTitle(senderId)));
+        } else if (settingName.toLowerCase() === 'reset') {
+            await Preferences.resetUserPreferences(senderId);
+            twiml.message(Prompts.SETTINGS_MESSAGES.RESET(Preferences.getDefaultPreferences(), await getDefaultTaskListTitle(senderId)));
+        } else if (settingName.toLowerCase() === 'list') {
+            const listName = valueParts.join(' ');
+            if (!(await GAuth.isUserAuthenticated(senderId))) {
+                twiml.message(Prompts.AUTH_MESSAGES.LISTS_AUTH_REQUIRED);
+            } else if (!listName.trim()) {
+                twiml.message(Prompts.LIST_MESSAGES.SETTINGS_LIST_REQUIRED);
             } else {
-                // If no title was extracted, prompt the user to choose from a list.
-                const taskTitles = await GTasks.getTaskTitles(senderId);
-                if (taskTitles && taskTitles.length > 0) {
-                    pendingDeletion[senderId] = taskTitles;
-                    const numberedTasks = taskTitles.map((title, i) => `${i + 1}. ${title}`).join('\n');
-                    twiml.message(`${Prompts.TASK_MESSAGES.DELETION_PROMPT}\n\n${numberedTasks}`);
-                } else {
-                    twiml.message(Prompts.TASK_MESSAGES.DELETION_NO_TASKS);
-                }
+                const taskList = await resolveTaskListReference(senderId, listName, twiml);
+                if (!taskList) return;
+                const preferences = await Preferences.updateUserPreferences(senderId, { defaultTaskListId: taskList.id });
+                twiml.message(Prompts.SETTINGS_MESSAGES.UPDATED(preferences, taskList.title));
             }
         } else {
-            // The JSON was valid but didn't match any known action.
-            console.warn(`index.ts: Received unexpected but valid JSON from Gemini for [${senderId}]. Treating as normal chat.`);
-            twiml.message(formatGeminiResponse(responseText, googleSearchUsed));
+            const change = Preferences.parsePreferenceChange(settingName, valueParts.join(' '));
+            if (typeof change === 'string') {
+                twiml.message(change);
+            } else {
+                const preferences = await Preferences.updateUserPreferences(senderId, change);
+                twiml.message(Prompts.SETTINGS_MESSAGES.UPDATED(preferences, await getDefaultTaskListTitle(senderId)));
+            }
         }
-    } catch (e) {
-        // If JSON parsing fails, it's a normal chat response.
-        twiml.message(formatGeminiResponse(responseText, googleSearchUsed));
+    } catch (error) {
+        console.error(`index.ts: Error handling /settings for [${senderId}]:`, error);
+        twiml.message(Prompts.SETTINGS_MESSAGES.SAVE_ERROR);
     }
 }
 
 /**
- * Calculates the date for the next business day (Monday-Friday).
- * @returns A Date object set to the beginning of the next business day.
+ * Handles the admin commands: approving (`/approve <number>`), blocking (`/block <number>`) or
+ * unblocking (`/unblock <number>`) a sender, and creating an invite code (`/invite [uses]`).
+ * @param senderId The admin's unique identifier.
+ * @param command The command, in lowercase.
+ * @param args The command arguments.
+ * @param twiml The response to be populated.
  */
-function getNextBusinessDay(): Date {
-    const date = new Date();
-    date.setHours(0, 0, 0, 0); // Start with a clean slate at midnight.
-    const dayOfWeek = date.getDay(); // Sunday = 0, Monday = 1, ..., Saturday = 6
+async function handleAdminCommand(senderId: string, command: string, args: string[], twiml: ReplySink) {
+    try {
+        if (command === '/invite') {
+            const uses = /^\d+$/.test(args[0] || '') ? parseInt(args[0], 10) : 1;
+            const { code, expiresAt, usesLeft } = await Access.createInviteCode(senderId, uses);
+            twiml.message(Prompts.ACCESS_MESSAGES.INVITE_CREATED(code, usesLeft, Math.round((expiresAt - Date.now()) / (60 * 60 * 1000))));
+            return;
+        }
 
-    if (dayOfWeek >= 1 && dayOfWeek <= 4) { // Monday to Thursday -> Tomorrow
-        date.setDate(date.getDate() + 1);
-    } else if (dayOfWeek === 5) { // Friday -> Monday
-        date.setDate(date.getDate() + 3);
-    } else if (dayOfWeek === 6) { // Saturday -> Monday
-        date.setDate(date.getDate() + 2);
-    } else { // Sunday (dayOfWeek === 0) -> Monday
-        date.setDate(date.getDate() + 1);
+        // Numbers are often written with spaces ("+55 11 99999-9999").
+        const phoneNumber = Access.normalizePhoneNumber(args.join(''));
+        if (!phoneNumber) {
+            twiml.message(Prompts.ACCESS_MESSAGES.INVALID_NUMBER(command));
+            return;
+        }
+        const status = command === '/approve' ? 'approved' : command === '/block' ? 'blocked' : null;
+        await Access.setAccessStatus(Access.toSenderId(phoneNumber), status, senderId);
+        twiml.message(Prompts.ACCESS_MESSAGES.STATUS_CHANGED(phoneNumber, status));
+    } catch (error) {
+        console.error(`index.ts: Error handling ${command} for [${senderId}]:`, error);
+        twiml.message(Prompts.ACCESS_MESSAGES.ADMIN_ERROR);
     }
-    return date;
 }
 
 /**
@@ -197,52 +723,122 @@ const formatGeminiResponse = (text: string, withGoogleSearch: boolean = false):
 };
 
 /**
- * Determines if a user's message is likely a request to manage tasks.
- * This acts as a gateway to decide whether to use the specialized system instruction for Gemini.
- * @param message The user's text message.
- * @returns True if the message contains task-related keywords.
+ * Express middleware that only lets through requests carrying the reminder trigger secret
+ * (`Authorization: Bearer <REMINDERS_TRIGGER_SECRET>`). The comparison runs in constant time.
+ */
+function validateReminderTriggerSecret(req: Request, res: Response, next: NextFunction) {
+    if (!REMINDERS_TRIGGER_SECRET) {
+        res.status(404).send('Not found.');
+        return;
+    }
+
+    const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+    const providedSecret = (req.header('Authorization') || '').replace(/^Bearer\s+/i, '');
+    if (!crypto.timingSafeEqual(digest(providedSecret), digest(REMINDERS_TRIGGER_SECRET))) {
+        console.warn('index.ts: Rejected reminder trigger with a missing or invalid secret.');
+        res.status(401).send('Unauthorized.');
+        return;
+    }
+    return next();
+}
+
+/**
+ * Sends a WhatsApp message outside of a webhook reply, e.g. a notification or a reminder.
+ * @param to The recipient, in Twilio's "whatsapp:+<number>" format.
+ * @param body The message text.
  */
-function isTaskManagementRequest(message: string): boolean {
-    const taskKeywords = [
-        'task', 'reminder', 'remind me', 'create', 'tarefa', 'lembrete', 'criar', // Creation
-        'list', 'show', 'what are my', 'see my', 'listar', 'mostrar', 'quais são', // Listing
-        'delete', 'remove', 'complete', 'deletar', 'remover', 'excluir', 'completar' // Deletion
-    ];
-    const lowerCaseMessage = message.toLowerCase();
-    return taskKeywords.some(keyword => lowerCaseMessage.includes(keyword));
+async function sendWhatsAppMessage(to: string, body: string): Promise<void> {
+    await twilioClient.messages.create({ body, from: FROM_NUMBER!, to });
 }
 
 /**
- * Finds a task title from a user's reply, matching by full title or list position.
- * @param reply The user's text message reply.
- * @param taskTitles The list of task titles that were presented to the user.
- * @returns The matched task title, or null if no match is found.
+ * Escapes text for safe inclusion in an HTML page.
+ * @param text The untrusted text.
+ * @returns The escaped text.
  */
-function findTaskFromReply(reply: string, taskTitles: string[]): string | null {
-    const normalizedReply = reply.trim().toLowerCase();
+const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
 
-    // 1. Direct match (case-insensitive)
-    for (const title of taskTitles) {
-        if (title.trim().toLowerCase() === normalizedReply) return title;
+/**
+ * Renders the small, branded page shown in the browser at the end of the Google authentication flow.
+ * @param isSuccess Whether the page reports a success (blue heading) or a failure (red heading).
+ * @param title The page heading.
+ * @param message The explanation shown under the heading. It is HTML-escaped.
+ * @returns The full HTML document.
+ */
+function renderAuthPage(isSuccess: boolean, title: string, message: string): string {
+    const headingColor = isSuccess ? '#4285F4' /* Google Blue */ : '#EA4335' /* Google Red */;
+    const footer = isSuccess ? 'You can now close this page and return to WhatsApp.' : 'You can close this page and try again from WhatsApp.';
+    return `
+        <!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>${escapeHtml(title)}</title>
+            <style>
+                body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; background-color: #f0f2f5; display: flex; justify-content: center; align-items: center; height: 100vh; margin: 0; color: #333; }
+                .container { text-align: center; background-color: #ffffff; padding: 40px; border-radius: 12px; box-shadow: 0 4px 12px rgba(0,0,0,0.1); max-width: 500px; width: 90%; }
+                .logo { width: 200px; margin-bottom: 24px; }
+                h1 { font-size: 24px; color: ${headingColor}; margin-bottom: 16px; }
+                p { font-size: 16px; line-height: 1.6; }
+                .footer { margin-top: 24px; font-size: 14px; color: #888; }
+            </style>
+        </head>
+        <body>
+            <div class="container">
+                <img src="https://upload.wikimedia.org/wikipedia/commons/5/56/Google_DeepMind_logo.png" alt="Google DeepMind Logo" class="logo">
+                <h1>${escapeHtml(title)}</h1>
+                <p>${escapeHtml(message)}</p>
+                <p class="footer">${footer}</p>
+            </div>
+        </body>
+        </html>
+    `;
+}
+
+/**
+ * Renders the page explaining why a Google authentication link was rejected.
+ * @param error The error describing the rejected state token.
+ * @returns The full HTML document.
+ */
+function renderAuthStateErrorPage(error: GAuth.AuthStateError): string {
+    switch (error.reason) {
+        case 'expired':
+            return renderAuthPage(false, 'Link Expired', Prompts.AUTH_PAGE_MESSAGES.LINK_EXPIRED);
+        case 'used':
+            return renderAuthPage(false, 'Link Already Used', Prompts.AUTH_PAGE_MESSAGES.LINK_USED);
+        default:
+            return renderAuthPage(false, 'Invalid Link', Prompts.AUTH_PAGE_MESSAGES.LINK_INVALID);
     }
+}
 
-    // 2. Positional match (e.g., "2", "the 2nd one")
-    const numericMatch = normalizedReply.match(/\d+/);
-    if (numericMatch) {
-        const position = parseInt(numericMatch[0], 10);
-        if (position > 0 && position <= taskTitles.length) {
-            return taskTitles[position - 1]; // Array is 0-indexed.
+/**
+ * Checks the user's quotas before work that uses them, and tells the user when one is reached.
+ * @param senderId The user's unique identifier.
+ * @param metrics The metrics the work will use.
+ * @param twiml The response to be populated when a quota is reached.
+ * @returns A promise resolving to true if the work may go ahead.
+ */
+async function hasQuotaFor(senderId: string, metrics: UsageMetric[], twiml: ReplySink): Promise<boolean> {
+    for (const metric of metrics) {
+        const decision = await Quotas.checkQuota(senderId, metric);
+        if (!decision.allowed) {
+            console.warn(`index.ts: [${senderId}] reached the ${decision.scope} ${metric} quota.`);
+            if (decision.shouldNotify) {
+                twiml.message(Prompts.QUOTA_MESSAGES[decision.scope][metric]);
+            }
+            return false;
         }
     }
-
-    return null;
+    return true;
 }
 
 /**
  * Sends a pre-formatted welcome message to the user.
- * @param twiml The Twilio TwiML response object.
+ * @param twiml The sink for the replies to the user.
  */
-const sendWelcomeMessage = (twiml: twilio.twiml.MessagingResponse) => {
+const sendWelcomeMessage = (twiml: ReplySink) => {
     twiml.message(Prompts.WELCOME_MESSAGE);
 };
 
@@ -251,264 +847,218 @@ const sendWelcomeMessage = (twiml: twilio.twiml.MessagingResponse) => {
 // =================================================================================================
 
 /**
- * A central function to handle the processing of any supported media type.
- * It determines the correct Gemini function to call based on the MIME type.
- * @param filePath The local path to the downloaded media file.
- * @param mimeType The MIME type of the file.
+ * A central function to handle the processing of the media files sent in one message.
+ * The files were checked before they were downloaded; they are sent to Gemini together, in a single turn.
+ * @param files The media files, already uploaded to the Gemini Files API, in the order they were sent.
  * @param senderId The user's ID.
  * @param prompt The text prompt accompanying the media.
  * @returns A promise that resolves to the standardized response object from Gemini.
  */
-async function processMedia(filePath: string, mimeType: string, senderId: string, prompt: string): Promise<{responseText: string, googleSearchUsed: boolean}> {
-    const useSystemInstruction = isTaskManagementRequest(prompt);
-    
-    if (mimeType.startsWith('audio/')) {
-        const effectivePrompt = prompt.trim() === "" ? Prompts.FIXED_TEXT_PROMPT_FOR_AUDIO : prompt;
-        return await Gemini.processAudioWithGemini(ai, senderId, filePath, mimeType, effectivePrompt, chatHistories, useSystemInstruction);
-    } else if (mimeType.startsWith('image/')) {
-        return await Gemini.processImageWithGemini(ai, senderId, filePath, mimeType, prompt, chatHistories, useSystemInstruction);
-    } else if (mimeType.startsWith('video/')) {
-        return await Gemini.processVideoWithGemini(ai, senderId, filePath, mimeType, prompt, chatHistories, useSystemInstruction);
-    } else if (['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'application/vnd.openxmlformats-officedocument.presentationml.presentation', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'].includes(mimeType)) {
-        return await Gemini.processDocumentWithGemini(ai, senderId, filePath, mimeType, prompt, chatHistories, useSystemInstruction);
-    } else {
-        console.warn(`index.ts: Unsupported media type [${mimeType}] passed to processMedia for [${senderId}].`);
-        return { responseText: Prompts.MEDIA_MESSAGES.UNSUPPORTED_MEDIA_TYPE, googleSearchUsed: false };
-    }
-}
-
-/**
- * Downloads a media file from a Twilio URL and saves it to a local temporary directory.
- * @param mediaUrl The URL of the media file on Twilio's servers.
- * @param mediaContentType The MIME type of the media.
- * @param senderId The sender's ID, used for creating a unique filename.
- * @returns A promise that resolves with the local path to the saved file.
- */
-async function downloadAndSaveMediaFile(mediaUrl: string, mediaContentType: string, senderId: string): Promise<string> {
-    const fileExtension = mediaContentType.split('/')[1] || 'tmp';
-    const localFilePath = path.join(mediaDir, `${senderId}-${Date.now()}.${fileExtension}`);
-    
-    const response = await axios({
-        method: 'GET',
-        url: mediaUrl,
-        responseType: 'stream',
-        auth: {
-            username: TWILIO_ACCOUNT_SID!,
-            password: TWILIO_AUTH_TOKEN!
-        }
-    });
-
-    const writer = fs.createWriteStream(localFilePath);
-    response.data.pipe(writer);
-
-    return new Promise((resolve, reject) => {
-        writer.on('finish', () => resolve(localFilePath));
-        writer.on('error', reject);
-    });
+async function processMedia(files: FileDataSource[], senderId: string, prompt: string): Promise<Gemini.GeminiChatResponse> {
+    const useSystemInstruction = (await Intent.routeMessage(ai, senderId, prompt, files)) === 'task';
+    const taskToolExecutor = useSystemInstruction ? createTaskToolExecutor(senderId) : undefined;
+    const effectivePrompt = prompt.trim() === "" && files.some(file => file.mimeType.startsWith('audio/')) ? Prompts.FIXED_TEXT_PROMPT_FOR_AUDIO : prompt;
+    return await Gemini.processMediaWithGemini(ai, senderId, files, effectivePrompt, useSystemInstruction, taskToolExecutor);
 }
 
 // =================================================================================================
 // ==                                       WEBHOOK & SERVER                                      ==
 // =================================================================================================
 
-app.get('/auth/google/initiate', (req: Request, res: Response, next: NextFunction) => {
+app.get('/auth/google/initiate', async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const senderId = req.query.senderId as string;
-        if (!senderId) {
-            return res.status(400).send('Authentication failed: Missing user identifier.');
+        const stateToken = req.query.state;
+        if (!stateToken || typeof stateToken !== 'string') {
+            return res.status(400).send(renderAuthPage(false, 'Authentication Failed', Prompts.AUTH_PAGE_MESSAGES.LINK_INVALID));
         }
-        const authUrl = GAuth.initiateGoogleAuth(senderId);
+        const authUrl = await GAuth.initiateGoogleAuth(stateToken);
         return res.redirect(authUrl);
     } catch (error) {
+        if (error instanceof GAuth.AuthStateError) {
+            return res.status(400).send(renderAuthStateErrorPage(error));
+        }
         return next(error);
     }
 });
 
 app.get('/auth/google/callback', async (req: Request, res: Response, next: NextFunction) => {
     try {
-        const { code, state: senderId, error: errorQueryParam } = req.query;
+        const { code, state: stateToken, error: errorQueryParam } = req.query;
 
         // Handle the case where the user denies the OAuth request.
         if (errorQueryParam) {
-            return res.status(400).send(`
-                <!DOCTYPE html>
-                <html lang="en">
-                <head>
-                    <meta charset="UTF-8">
-                    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-                    <title>Authentication Failed</title>
-                    <style>
-                        body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; background-color: #f0f2f5; display: flex; justify-content: center; align-items: center; height: 100vh; margin: 0; color: #333; }
-                        .container { text-align: center; background-color: #ffffff; padding: 40px; border-radius: 12px; box-shadow: 0 4px 12px rgba(0,0,0,0.1); max-width: 500px; width: 90%; }
-                        .logo { width: 200px; margin-bottom: 24px; }
-                        h1 { font-size: 24px; color: #EA4335; margin-bottom: 16px; } /* Google Red */
-                        p { font-size: 16px; line-height: 1.6; }
-                        .footer { margin-top: 24px; font-size: 14px; color: #888; }
-                    </style>
-                </head>
-                <body>
-                    <div class="container">
-                        <img src="https://upload.wikimedia.org/wikipedia/commons/5/56/Google_DeepMind_logo.png" alt="Google DeepMind Logo" class="logo">
-                        <h1>Authentication Failed</h1>
-                        <p>An error occurred: <strong>${errorQueryParam}</strong></p>
-                        <p class="footer">You can close this page and try again from WhatsApp.</p>
-                    </div>
-                </body>
-                </html>
-            `);
+            return res.status(400).send(renderAuthPage(false, 'Authentication Failed', Prompts.AUTH_PAGE_MESSAGES.PROVIDER_ERROR(String(errorQueryParam))));
         }
         
-        if (!code || typeof code !== 'string' || !senderId || typeof senderId !== 'string') {
-            return res.status(400).send('Authentication failed: Invalid request parameters.');
+        if (!code || typeof code !== 'string' || !stateToken || typeof stateToken !== 'string') {
+            return res.status(400).send(renderAuthPage(false, 'Authentication Failed', Prompts.AUTH_PAGE_MESSAGES.LINK_INVALID));
         }
 
-        // Exchange the code for tokens and save them.
-        await GAuth.handleGoogleAuthCallback(code, senderId);
+        // Verify the state, exchange the code for tokens and save them.
+        let senderId: string;
+        try {
+            senderId = await GAuth.handleGoogleAuthCallback(code, stateToken);
+        } catch (error) {
+            if (error instanceof GAuth.AuthStateError) {
+                return res.status(400).send(renderAuthStateErrorPage(error));
+            }
+            console.error('index.ts: Failed to complete Google authentication.', error);
+            return res.status(500).send(renderAuthPage(false, 'Authentication Failed', Prompts.AUTH_PAGE_MESSAGES.TOKEN_EXCHANGE_FAILED));
+        }
         
         // Proactively notify the user in WhatsApp that the connection was successful.
         try {
-            await twilioClient.messages.create({
-                body: Prompts.AUTH_MESSAGES.AUTH_SUCCESS_PROACTIVE_MESSAGE,
-                from: FROM_NUMBER!,
-                to: senderId
-            });
+            await sendWhatsAppMessage(senderId, Prompts.AUTH_MESSAGES.AUTH_SUCCESS_PROACTIVE_MESSAGE);
         } catch (twilioError) {
             console.error(`index.ts: FAILED to send proactive success message to [${senderId}].`, twilioError);
         }
         
         // Display a success page to the user in their browser.
-        return res.send(`
-            <!DOCTYPE html>
-            <html lang="en">
-            <head>
-                <meta charset="UTF-8">
-                <meta name="viewport" content="width=device-width, initial-scale=1.0">
-                <title>Authentication Successful</title>
-                <style>
-                    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; background-color: #f0f2f5; display: flex; justify-content: center; align-items: center; height: 100vh; margin: 0; color: #333; }
-                    .container { text-align: center; background-color: #ffffff; padding: 40px; border-radius: 12px; box-shadow: 0 4px 12px rgba(0,0,0,0.1); max-width: 500px; width: 90%; }
-                    .logo { width: 200px; margin-bottom: 24px; }
-                    h1 { font-size: 24px; color: #4285F4; margin-bottom: 16px; } /* Google Blue */
-                    p { font-size: 16px; line-height: 1.6; }
-                    .footer { margin-top: 24px; font-size: 14px; color: #888; }
-                </style>
-            </head>
-            <body>
-                <div class="container">
-                    <img src="https://upload.wikimedia.org/wikipedia/commons/5/56/Google_DeepMind_logo.png" alt="Google DeepMind Logo" class="logo">
-                    <h1>Authentication Successful!</h1>
-                    <p>Your account has been successfully linked with Google Tasks.</p>
-                    <p class="footer">You can now close this page and return to WhatsApp.</p>
-                </div>
-            </body>
-            </html>
-        `);
+        return res.send(renderAuthPage(true, 'Authentication Successful!', Prompts.AUTH_PAGE_MESSAGES.SUCCESS));
     } catch (error) {
         return next(error);
     }
 });
 
 /**
- * Main webhook to handle all incoming WhatsApp messages from Twilio.
+ * Runs a reminder sweep: sends due-date reminders and morning digests to every connected user.
+ * Meant to be called periodically (e.g. every 15 minutes) by Cloud Scheduler or a cron job.
  */
-app.post('/webhook/twilio', async (req: Request, res: Response) => {
-    const { MessagingResponse } = twilio.twiml;
-    const twiml = new MessagingResponse();
-    const senderId = req.body.From as string;
-
-    // 1. Basic Validation
-    if (!senderId) {
-        console.error('index.ts: Critical - Missing senderId (From) in webhook request. Cannot process.');
-        res.status(400).send('Sender ID missing.');
-        return;
+app.post('/tasks/reminders/run', validateReminderTriggerSecret, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const summary = await Reminders.runReminderSweep(sendWhatsAppMessage);
+        res.json(summary);
+    } catch (error) {
+        next(error);
     }
-    console.log(`index.ts: Processing request for sender [${senderId}].`);
+});
 
-    // 2. Media Message Handling (Images, Audio, etc.)
-    const numMedia = parseInt(req.body.NumMedia || '0', 10);
+/**
+ * Processes an incoming WhatsApp message: media, replies to pending prompts, commands and chat.
+ * @param message The message, as received by the webhook.
+ * @param twiml The sink for the replies to the user.
+ */
+async function handleIncomingMessage(message: IncomingMessage, twiml: ReplySink): Promise<void> {
+    const { senderId } = message;
+    console.log(`index.ts: Processing message ${message.messageSid} from [${senderId}].`);
+
+    // 1. Media Message Handling (Images, Audio, etc.)
+    const numMedia = message.media.length;
     if (numMedia > 0) {
-        if (numMedia > 1) {
-            twiml.message(Prompts.MEDIA_MESSAGES.ERROR_MULTIPLE_MEDIA);
-        } else {
-            const mediaUrl = req.body.MediaUrl0 as string;
-            const mediaContentType = req.body.MediaContentType0 as string;
-            const userTextPrompt = (req.body.Body as string)?.trim() || "";
-            let localMediaFilePath: string | undefined;
-
-            try {
-                localMediaFilePath = await downloadAndSaveMediaFile(mediaUrl, mediaContentType, senderId);
-                
-                if (!userTextPrompt) {
-                    // If no text, store the file and ask the user for instructions.
-                    pendingMedia[senderId] = { filePath: localMediaFilePath, mimeType: mediaContentType };
-                    twiml.message(Prompts.MEDIA_MESSAGES.PROMPT_FOR_MEDIA);
-                } else {
-                    // If text is present, process immediately.
-                    const { responseText, googleSearchUsed } = await processMedia(localMediaFilePath, mediaContentType, senderId, userTextPrompt);
-                    await handleGeminiResponse(responseText, googleSearchUsed, senderId, twiml);
-                    await fsPromises.unlink(localMediaFilePath); // Cleanup processed file.
-                    localMediaFilePath = undefined; // Prevent double deletion in finally.
-                }
-            } catch (error: any) {
+        const userTextPrompt = message.body;
+        const mediaContentTypes = message.media.map(media => media.contentType);
+        const unsupported = mediaContentTypes.filter(mimeType => !Media.isSupportedMediaType(mimeType));
+        if (unsupported.length > 0) {
+            // Nothing is downloaded when any attachment would be refused anyway.
+            console.warn(`index.ts: Unsupported media type(s) [${unsupported.join(', ')}] from [${senderId}].`);
+            twiml.message(Prompts.MEDIA_MESSAGES.UNSUPPORTED_MEDIA_TYPE);
+            return;
+        }
+        if (!(await hasQuotaFor(senderId, ['mediaBytes', 'tokens'], twiml))) {
+            return;
+        }
+
+        const localMediaFilePaths: string[] = [];
+        // Every attachment is uploaded right away so the files can be referenced from any instance.
+        const uploadedFiles: FileDataSource[] = [];
+        try {
+            for (let i = 0; i < numMedia; i++) {
+                const { url, contentType: mediaContentType } = message.media[i];
+                const localMediaFilePath = await Media.downloadMedia(url, mediaContentType, senderId);
+                localMediaFilePaths.push(localMediaFilePath);
+                await Quotas.recordUsage(senderId, 'mediaBytes', (await fsPromises.stat(localMediaFilePath)).size);
+                uploadedFiles.push(await Gemini.uploadMediaToGemini(ai, senderId, localMediaFilePath, mediaContentType));
+            }
+
+            if (!userTextPrompt) {
+                // If no text, remember the files and ask the user for instructions.
+                await ChatState.setPendingMedia(senderId, uploadedFiles);
+                twiml.message(Prompts.MEDIA_MESSAGES.PROMPT_FOR_MEDIA(uploadedFiles.length));
+            } else {
+                // If text is present, process immediately.
+                handleGeminiResponse(await processMedia(uploadedFiles, senderId, userTextPrompt), twiml);
+            }
+        } catch (error: any) {
+            if (error instanceof Media.MediaRejectedError) {
+                console.warn(`index.ts: ${error.message} Sender: [${senderId}].`);
+                twiml.message(error.reason === 'too_large'
+                    ? Prompts.MEDIA_MESSAGES.TOO_LARGE(Media.getMaxMediaSizeMb())
+                    : Prompts.MEDIA_MESSAGES.UNSUPPORTED_MEDIA_TYPE);
+                // The message is refused as a whole, so the files uploaded before the refusal are not needed.
+                await Gemini.deleteGeminiFiles(ai, senderId, uploadedFiles);
+            } else {
                 console.error(`index.ts: Error processing media for [${senderId}]:`, error);
                 twiml.message(Prompts.MEDIA_MESSAGES.ERROR_RECEIVING_MEDIA);
-                if (localMediaFilePath) {
-                    await fsPromises.unlink(localMediaFilePath).catch(err => console.error(`Failed to delete media file: ${err}`));
-                }
             }
+        } finally {
+            // The local copies are only needed for the upload.
+            await Promise.all(localMediaFilePaths.map(filePath =>
+                fsPromises.unlink(filePath).catch(err => console.error(`Failed to delete media file: ${err}`))));
         }
-        res.type('text/xml').send(twiml.toString());
         return;
     }
 
-    // 3. Text Message Handling
-    const messageBody = (req.body.Body as string)?.trim();
+    // 2. Text Message Handling
+    const messageBody = message.body;
     if (!messageBody) {
         twiml.message(Prompts.GENERAL_MESSAGES.EMPTY_MESSAGE_BODY);
-        res.type('text/xml').send(twiml.toString());
         return;
     }
     
     // --- State-based Response Logic ---
-    // A. User is responding to a "what to do with this file?" prompt.
-    if (pendingMedia[senderId]) {
-        const { filePath, mimeType } = pendingMedia[senderId];
-        delete pendingMedia[senderId]; // Consume state
-        
+    // A. User is responding to a "what to do with these files?" prompt.
+    const pendingMedia = await ChatState.consumePendingMedia(senderId);
+    if (pendingMedia) {
+        if (!(await hasQuotaFor(senderId, ['tokens'], twiml))) {
+            // The files stay pending, for when the quota allows it.
+            await ChatState.setPendingMedia(senderId, pendingMedia);
+            return;
+        }
         try {
-            const { responseText, googleSearchUsed } = await processMedia(filePath, mimeType, senderId, messageBody);
-            await handleGeminiResponse(responseText, googleSearchUsed, senderId, twiml);
+            handleGeminiResponse(await processMedia(pendingMedia, senderId, messageBody), twiml);
         } catch (error) {
             console.error(`index.ts: Error processing pending media for [${senderId}]:`, error);
             twiml.message(Prompts.MEDIA_MESSAGES.ERROR_PROCESSING_PENDING_MEDIA);
-        } finally {
-            await fsPromises.unlink(filePath).catch(err => console.error(`Failed to delete pending media file: ${err}`));
-            res.type('text/xml').send(twiml.toString());
         }
         return;
     }
 
-    // B. User is responding to a "which task to delete?" prompt.
-    if (pendingDeletion[senderId]) {
-        const taskTitles = pendingDeletion[senderId];
-        delete pendingDeletion[senderId]; // Consume state
-        
-        const taskToMark = findTaskFromReply(messageBody, taskTitles);
-        if (taskToMark) {
-            const deletionResult = await GTasks.deleteGoogleTask(senderId, taskToMark);
-            twiml.message(deletionResult);
+    // B. User is responding to a "which task?" prompt, or confirming a batch of deletions.
+    const pendingSelection = await ChatState.consumePendingTaskSelection(senderId);
+    if (pendingSelection) {
+        const { action, tasks, awaitingConfirmation, ...context } = pendingSelection;
+        const positions = Matching.parsePositions(messageBody, tasks.length);
+        if (awaitingConfirmation) {
+            twiml.message(Matching.isConfirmation(messageBody) ? await applyTaskActionToMany(senderId, action, tasks, context) : Prompts.TASK_MESSAGES.BULK_CANCELLED);
+        } else if (positions) {
+            // "2", "1, 3 and 5", "2-4" or "all": every listed position is a target.
+            await applyTaskActionToSelection(senderId, action, positions.map(position => tasks[position - 1]), context, twiml);
         } else {
-            twiml.message(`I couldn't find a task matching your reply. Please try starting the deletion process again.`);
+            const match = await Matching.matchTask(ai, senderId, messageBody, tasks);
+            if (match.kind === 'confident') {
+                twiml.message((await applyTaskAction(senderId, action, match.task, context)).message);
+            } else if (match.kind === 'ambiguous') {
+                await promptTaskSelection(senderId, action, twiml, { ...context, candidates: match.candidates, prompt: Prompts.TASK_MESSAGES.AMBIGUOUS(messageBody) });
+            } else {
+                twiml.message(Prompts.TASK_MESSAGES.SELECTION_NOT_FOUND);
+            }
         }
-        res.type('text/xml').send(twiml.toString());
         return;
     }
     
-    // C. New User Welcome.
-    if (!(await Firestore.isReturningUser(senderId))) {
+    // C. User wants the next page of their last task listing.
+    if (MORE_REPLIES.includes(messageBody.trim().toLowerCase())) {
+        const pendingPage = await ChatState.consumePendingTaskPage(senderId);
+        if (pendingPage) {
+            await sendTasksPage(senderId, pendingPage, twiml);
+            return;
+        }
+    }
+    
+    // D. New User Welcome.
+    if (!(await Storage.isReturningUser(senderId))) {
         sendWelcomeMessage(twiml);
-        await Firestore.addNewUser(senderId);
-        res.type('text/xml').send(twiml.toString());
+        await Storage.addNewUser(senderId);
         return;
     }
     
@@ -517,8 +1067,11 @@ app.post('/webhook/twilio', async (req: Request, res: Response) => {
         // Handle slash commands
         console.log(`index.ts: Detected command "${messageBody}" from [${senderId}].`);
         const isAuthenticated = await GAuth.isUserAuthenticated(senderId);
+        // Arguments keep their casing, as some settings (time zones, list names) are case-sensitive.
+        const [rawCommand, ...args] = messageBody.split(/\s+/);
+        const command = rawCommand.toLowerCase();
 
-        switch (messageBody.toLowerCase()) {
+        switch (command) {
             case '/start':
             case '/help':
                 sendWelcomeMessage(twiml);
@@ -527,7 +1080,8 @@ app.post('/webhook/twilio', async (req: Request, res: Response) => {
                 if (isAuthenticated) {
                     twiml.message(Prompts.AUTH_MESSAGES.ALREADY_AUTHENTICATED);
                 } else {
-                    const authUrl = `${SERVER_BASE_URL}/auth/google/initiate?senderId=${encodeURIComponent(senderId)}`;
+                    const stateToken = await GAuth.createAuthState(senderId);
+                    const authUrl = `${SERVER_BASE_URL}/auth/google/initiate?state=${encodeURIComponent(stateToken)}`;
                     twiml.message(Prompts.AUTH_MESSAGES.INITIATE_AUTH_INSTRUCTIONS.replace('{authUrl}', authUrl));
                 }
                 break;
@@ -543,21 +1097,175 @@ app.post('/webhook/twilio', async (req: Request, res: Response) => {
                 if (!isAuthenticated) {
                     twiml.message(Prompts.AUTH_MESSAGES.TASK_LISTING_AUTH_REQUIRED);
                 } else {
-                    const tasksString = await GTasks.getFormattedTasksString(senderId);
-                    twiml.message(tasksString);
+                    // "/get_tasks [all] [list name] [page]", e.g. "/get_tasks 2" or "/get_tasks all Work".
+                    const includeCompleted = args[0]?.toLowerCase() === 'all';
+                    const listArgs = args.slice(includeCompleted ? 1 : 0);
+                    const page = /^\d+$/.test(listArgs[listArgs.length - 1] || '') ? Math.max(1, parseInt(listArgs.pop()!, 10)) : 1;
+                    const taskList = await resolveTaskListReference(senderId, listArgs.join(' '), twiml);
+                    if (taskList !== null) {
+                        await sendTasksPage(senderId, { taskListId: taskList?.id, includeCompleted, nextPage: page }, twiml);
+                    }
+                }
+                break;
+            case '/lists':
+                if (!isAuthenticated) {
+                    twiml.message(Prompts.AUTH_MESSAGES.LISTS_AUTH_REQUIRED);
+                } else {
+                    await showTaskLists(senderId, twiml);
+                }
+                break;
+            case '/settings':
+                await handleSettingsCommand(senderId, args, twiml);
+                break;
+            case '/history': {
+                const memory = await ChatState.getChatMemory(senderId);
+                twiml.message(memory.summary || memory.turns.length > 0 ? Prompts.HISTORY_MESSAGES.OVERVIEW(memory) : Prompts.HISTORY_MESSAGES.EMPTY);
+                break;
+            }
+            case '/approve':
+            case '/block':
+            case '/unblock':
+            case '/invite':
+                // Admin commands don't exist for anyone else.
+                if ((await Access.getAccessLevel(senderId)) === 'admin') {
+                    await handleAdminCommand(senderId, command, args, twiml);
+                } else {
+                    twiml.message(Prompts.INVALID_COMMAND_MESSAGE);
+                }
+                break;
+            case '/reset':
+                try {
+                    const files = await ChatState.clearConversation(senderId);
+                    // Nothing refers to the media of the conversation anymore.
+                    await Gemini.deleteGeminiFiles(ai, senderId, files);
+                    console.log(`index.ts: Cleared the conversation of [${senderId}].`);
+                    twiml.message(Prompts.HISTORY_MESSAGES.RESET);
+                } catch (error) {
+                    console.error(`index.ts: Error clearing the conversation of [${senderId}]:`, error);
+                    twiml.message(Prompts.HISTORY_MESSAGES.RESET_ERROR);
                 }
                 break;
             default:
                 twiml.message(Prompts.INVALID_COMMAND_MESSAGE);
                 break;
         }
-    } else {
+    } else if (await hasQuotaFor(senderId, ['tokens'], twiml)) {
         // Handle general AI chat or implicit task management
-        const useSystemInstruction = isTaskManagementRequest(messageBody);
-        const { responseText, googleSearchUsed } = await Gemini.generateGeminiChatResponse(ai, senderId, messageBody, chatHistories, useSystemInstruction);
-        await handleGeminiResponse(responseText, googleSearchUsed, senderId, twiml);
+        const useSystemInstruction = (await Intent.routeMessage(ai, senderId, messageBody)) === 'task';
+        const taskToolExecutor = useSystemInstruction ? createTaskToolExecutor(senderId) : undefined;
+        handleGeminiResponse(await Gemini.generateGeminiChatResponse(ai, senderId, messageBody, useSystemInstruction, taskToolExecutor), twiml);
     }
+}
 
+/**
+ * Answers a sender the access policy doesn't let in: redeems their invite code if they sent
+ * `/join <code>`, and otherwise tells them (now and then) how to get access.
+ * @param message The sender's message.
+ * @param twiml The response to be populated.
+ */
+async function handleUnknownSender(message: IncomingMessage, twiml: ReplySink): Promise<void> {
+    const { senderId } = message;
+    const [command, code] = message.body.split(/\s+/);
+    try {
+        if (command?.toLowerCase() === '/join' && code) {
+            const joined = await Access.redeemInviteCode(senderId, code);
+            console.log(`index.ts: [${senderId}] ${joined ? 'joined with' : 'failed to join with'} an invite code.`);
+            twiml.message(joined ? Prompts.ACCESS_MESSAGES.JOINED : Prompts.ACCESS_MESSAGES.INVALID_INVITE);
+        } else if (await Access.claimRefusalNotice(senderId)) {
+            console.log(`index.ts: Refused message ${message.messageSid} from [${senderId}], who isn't allowed.`);
+            twiml.message(Prompts.ACCESS_MESSAGES.NOT_ALLOWED);
+        }
+    } catch (error) {
+        console.error(`index.ts: Error answering [${senderId}], who isn't allowed:`, error);
+    }
+}
+
+// Messages are processed in the background; the replies are sent through the Twilio REST API.
+const jobQueue = Jobs.createConfiguredJobQueue({
+    process: async (message) => {
+        const replies: string[] = [];
+        await handleIncomingMessage(message, { message: (body: string) => replies.push(body) });
+        // Only a failure to process the message is reported as such; replies that can't be sent are
+        // kept for a redelivery of the message.
+        await Idempotency.deliverReplies(message.messageSid, replies, body => sendWhatsAppMessage(message.senderId, body));
+    },
+    onSlow: (message) => sendWhatsAppMessage(message.senderId, Prompts.GENERAL_MESSAGES.WORKING_ON_IT),
+    onFailure: (message) => sendWhatsAppMessage(message.senderId, Prompts.GENERAL_MESSAGES.PROCESSING_FAILED),
+});
+console.log(`index.ts: Processing messages with the ${jobQueue.name} job queue.`);
+
+/**
+ * Main webhook to handle all incoming WhatsApp messages from Twilio. The message is queued and the
+ * webhook acknowledged right away, well within Twilio's timeout; it is processed in the background.
+ */
+app.post('/webhook/twilio', validateTwilioSignature, async (req: Request, res: Response) => {
+    const { MessagingResponse } = twilio.twiml;
+    const twiml = new MessagingResponse();
+    const senderId = req.body.From as string;
+
+    if (!senderId) {
+        console.error('index.ts: Critical - Missing senderId (From) in webhook request. Cannot process.');
+        res.status(400).send('Sender ID missing.');
+        return;
+    }
+
+    const numMedia = parseInt(req.body.NumMedia || '0', 10);
+    const message: IncomingMessage = {
+        // Twilio always sends a MessageSid; requests posted by hand during development may not.
+        messageSid: (req.body.MessageSid as string) || `local-${crypto.randomUUID()}`,
+        senderId,
+        body: (req.body.Body as string)?.trim() || '',
+        media: Array.from({ length: numMedia }, (_, i) => ({
+            url: req.body[`MediaUrl${i}`] as string,
+            contentType: req.body[`MediaContentType${i}`] as string,
+        })),
+    };
+
+    // A message Twilio redelivers is answered as it was the first time, without being processed again.
+    let earlierDelivery: ProcessedMessage | null = null;
+    try {
+        earlierDelivery = await Idempotency.claimMessage(message.messageSid);
+    } catch (error) {
+        // Processing a message twice is better than not processing it at all.
+        console.error(`index.ts: Error checking message ${message.messageSid} for redelivery:`, error);
+    }
+    if (earlierDelivery) {
+        console.warn(`index.ts: Ignored a redelivery of message ${message.messageSid} from [${senderId}].`);
+        Idempotency.getRepliesToResend(earlierDelivery).forEach(body => twiml.message(body));
+        res.type('text/xml').send(twiml.toString());
+        return;
+    }
+
+    // Senders the access policy doesn't let in are refused here, without spending any Gemini call.
+    const accessLevel = await Access.getAccessLevel(senderId);
+    if (accessLevel === 'blocked') {
+        console.warn(`index.ts: Ignored message ${message.messageSid} from blocked sender [${senderId}].`);
+        res.type('text/xml').send(twiml.toString());
+        return;
+    }
+    if (accessLevel === 'unknown') {
+        await handleUnknownSender(message, twiml);
+        res.type('text/xml').send(twiml.toString());
+        return;
+    }
+    // Reminders and digests can only be sent within 24 hours of the user's last message.
+    await Reminders.recordUserMessage(senderId);
+
+    // A sender over the message rate is refused here, before anything is queued or sent to Gemini.
+    if (!(await hasQuotaFor(senderId, ['messages'], twiml))) {
+        res.type('text/xml').send(twiml.toString());
+        return;
+    }
+    await Quotas.recordUsage(senderId, 'messages', 1);
+
+    try {
+        await jobQueue.enqueue(message);
+        console.log(`index.ts: Queued message ${message.messageSid} from [${senderId}].`);
+    } catch (error) {
+        console.error(`index.ts: Error queuing message ${message.messageSid} from [${senderId}]:`, error);
+        await Idempotency.releaseMessage(message.messageSid);
+        twiml.message(Prompts.GENERAL_MESSAGES.PROCESSING_FAILED);
+    }
     res.type('text/xml').send(twiml.toString());
 });
 
@@ -575,4 +1283,22 @@ app.use(errorHandler);
 
 app.listen(PORT, () => {
     console.log(`Server listening on port ${PORT}.`);
-}); 
\ No newline at end of file
+});
+
+// Each instance cleans up after itself periodically; the timer doesn't keep the process alive.
+setInterval(() => {
+    Media.runMediaJanitor(ai).catch(error => console.error('index.ts: Error running the media janitor:', error));
+    // Expired conversation state is otherwise only discarded when it is read, i.e. never for users who don't come back.
+    ChatState.sweepExpiredConversationState()
+        .then(removed => removed > 0 && console.log(`index.ts: Removed ${removed} expired conversation state document(s).`))
+        .catch(error => console.error('index.ts: Error sweeping expired conversation state:', error));
+    Idempotency.sweepExpiredMessages()
+        .then(removed => removed > 0 && console.log(`index.ts: Removed ${removed} expired message record(s).`))
+        .catch(error => console.error('index.ts: Error sweeping expired message records:', error));
+    GAuth.sweepExpiredAuthStates()
+        .then(removed => removed > 0 && console.log(`index.ts: Removed ${removed} expired OAuth state(s).`))
+        .catch(error => console.error('index.ts: Error sweeping expired OAuth states:', error));
+    Access.sweepExpiredAccessState()
+        .then(removed => removed > 0 && console.log(`index.ts: Removed ${removed} expired invite code(s) and refusal notice(s).`))
+        .catch(error => console.error('index.ts: Error sweeping expired access state:', error));
+}, MEDIA_JANITOR_INTERVAL_MS).unref(); 
\ No newline at end of file
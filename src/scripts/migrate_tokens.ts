@@ -0,0 +1,30 @@
+/**
+ * @file migrate_tokens.ts
+ * @description A one-off maintenance script that encrypts every plaintext Google token in storage
+ * and re-encrypts every token wrapped with a retired key. Run it after first enabling token
+ * encryption, and after adding a new active key to `TOKEN_ENCRYPTION_KEYS`; once it reports no
+ * failures, retired keys can be removed from the configuration.
+ *
+ * Usage: npm run migrate-tokens
+ */
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { assertEncryptionConfigured } from '../components/encryption';
+import { migrateTokenEncryption } from '../components/storage';
+
+async function main() {
+    assertEncryptionConfigured();
+    const { migrated, unchanged, failed } = await migrateTokenEncryption();
+    console.log(`migrate_tokens.ts: ${migrated} token(s) migrated, ${unchanged} already up to date, ${failed.length} failed.`);
+    if (failed.length > 0) {
+        console.error(`migrate_tokens.ts: Failed users: ${failed.join(', ')}`);
+        process.exitCode = 1;
+    }
+}
+
+main().catch((error) => {
+    console.error('migrate_tokens.ts: Migration aborted.', error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,36 @@
+/**
+ * @file trigger_reminders.ts
+ * @description A small client for the reminder endpoint, standing in for Cloud Scheduler when the
+ * bot runs locally. It calls `POST /tasks/reminders/run` on the running server with the trigger
+ * secret and prints the summary. Schedule it with cron, e.g. every 15 minutes:
+ *
+ *   *\/15 * * * * cd /path/to/ideasReminder && npm run trigger-reminders
+ *
+ * The server URL is taken from `REMINDERS_TRIGGER_URL`, or derived from `GOOGLE_REDIRECT_URI`.
+ *
+ * Usage: npm run trigger-reminders
+ */
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+import axios from 'axios';
+
+async function main() {
+    const secret = process.env.REMINDERS_TRIGGER_SECRET;
+    if (!secret) {
+        throw new Error('REMINDERS_TRIGGER_SECRET is not configured.');
+    }
+    const url = process.env.REMINDERS_TRIGGER_URL || `${new URL(process.env.GOOGLE_REDIRECT_URI || '').origin}/tasks/reminders/run`;
+
+    const response = await axios.post(url, {}, { headers: { Authorization: `Bearer ${secret}` } });
+    console.log('trigger_reminders.ts: Sweep completed.', response.data);
+    if (response.data.failed?.length > 0) {
+        process.exitCode = 1;
+    }
+}
+
+main().catch((error) => {
+    console.error('trigger_reminders.ts: Failed to trigger the reminder sweep.', error.message);
+    process.exitCode = 1;
+});
@@ -1,14 +1,19 @@
 /**
  * @file chat.ts
  * @description This file defines the core data structures and types used throughout the application,
- * including structures for managing chat history with the Gemini API and for storing
- * Google OAuth tokens for the Google Tasks integration.
+ * including structures for managing chat history and conversation state with the Gemini API
+ * and for storing Google OAuth tokens for the Google Tasks integration.
  */
 
 // Defines the source of file data
 export interface FileDataSource {
     mimeType: string;
     fileUri: string;
+    /**
+     * The timestamp (in milliseconds since the epoch) at which the Gemini Files API deletes the
+     * uploaded file. Missing for files uploaded before it was recorded.
+     */
+    expiresAt?: number;
 }
 
 // Defines the structure for a single part of a message in the chat history
@@ -23,44 +28,301 @@ export interface ChatHistoryItem {
     parts: ChatMessagePart[];
 }
 
-// Defines the structure for storing chat histories for multiple users
-// The key is the senderId (string), and the value is an array of ChatHistoryItem
-export type ChatHistories = Record<string, ChatHistoryItem[]>;
+// --- Types for Conversation State ---
+
+/**
+ * What the bot remembers of a conversation: the most recent turns verbatim, and a rolling summary
+ * of the older turns that were folded out of the history to keep it within its token budget.
+ */
+export interface ChatMemory {
+    summary: string | null;
+    turns: ChatHistoryItem[];
+}
+
+/**
+ * The media files that the user sent in one message without instructions, in the order they were
+ * sent. They have already been uploaded to the Gemini Files API, so any instance of the service can
+ * resume processing them.
+ */
+export type PendingMedia = FileDataSource[];
+
+/**
+ * The persisted shape of any piece of conversation state that expires after a while.
+ */
+export interface ExpiringState<T> {
+    value: T;
+    /**
+     * The timestamp (in milliseconds since the epoch) after which the state is discarded.
+     */
+    expiresAt: number;
+}
 
 // --- Types for Task Identification ---
 
 /**
- * Represents the structured details of a task identified by the Gemini model.
- * This is the structure the model is prompted to return as JSON.
+ * What a message is about: managing the user's tasks, or anything else. Task messages are sent to
+ * Gemini with the task system instruction and functions; chat messages are answered as plain chat.
+ */
+export type MessageIntent = 'task' | 'chat';
+
+/**
+ * The intent Gemini assigned to a message, with its confidence from 0 to 1.
+ */
+export interface IntentClassification {
+    intent: MessageIntent;
+    confidence: number;
+}
+
+/**
+ * Represents a task action identified by the Gemini model. Each variant is built from the
+ * validated arguments of one of the function calls declared in `tools.ts`.
  */
 export type IdentifiedTask = 
     | {
         isTask: true;
         isTaskListRequest?: never;
         isTaskDeletionRequest?: never;
+        isTaskCompletionRequest?: never;
+        isTaskReopenRequest?: never;
+        isTaskUpdateRequest?: never;
+        isTaskMoveRequest?: never;
+        isListManagementRequest?: never;
+        /**
+         * The name of the task list the user mentioned (e.g. "work"), or null for their default list.
+         */
+        listName?: string | null;
         details: {
             objective: string;
             description: string;
             final_result: string;
             user_experience: string;
         };
+        /**
+         * The due date the user asked for, in YYYY-MM-DD format, or null to use the default.
+         */
+        dueDate?: string | null;
+        /**
+         * For bigger ideas, the ordered concrete steps to create as subtasks. Empty or missing otherwise.
+         */
+        steps?: string[];
         taskTitle?: never;
+        updates?: never;
     }
     | {
         isTask?: never;
         isTaskListRequest: true;
         isTaskDeletionRequest?: never;
+        isTaskCompletionRequest?: never;
+        isTaskReopenRequest?: never;
+        isTaskUpdateRequest?: never;
+        isTaskMoveRequest?: never;
+        isListManagementRequest?: never;
+        listName?: string | null;
         details?: never;
         taskTitle?: never;
+        updates?: never;
+        /**
+         * Whether the user also wants to see recently completed tasks.
+         */
+        includeCompleted?: boolean;
     }
     | {
         isTask?: never;
         isTaskListRequest?: never;
         isTaskDeletionRequest: true;
+        isTaskCompletionRequest?: never;
+        isTaskReopenRequest?: never;
+        isTaskUpdateRequest?: never;
+        isTaskMoveRequest?: never;
+        isListManagementRequest?: never;
+        listName?: string | null;
+        details?: never;
+        taskTitle: string | null;
+        /**
+         * How the user referred to each task, when several are targeted at once (e.g. ["1", "3", "5"]).
+         */
+        taskTitles?: string[] | null;
+        /**
+         * Words shared by every targeted task, for requests like "delete all the demo tasks".
+         */
+        allMatching?: string | null;
+        updates?: never;
+    }
+    | {
+        isTask?: never;
+        isTaskListRequest?: never;
+        isTaskDeletionRequest?: never;
+        isTaskCompletionRequest: true;
+        isTaskReopenRequest?: never;
+        isTaskUpdateRequest?: never;
+        isTaskMoveRequest?: never;
+        isListManagementRequest?: never;
+        listName?: string | null;
         details?: never;
         taskTitle: string | null;
+        taskTitles?: string[] | null;
+        allMatching?: string | null;
+        updates?: never;
+    }
+    | {
+        isTask?: never;
+        isTaskListRequest?: never;
+        isTaskDeletionRequest?: never;
+        isTaskCompletionRequest?: never;
+        isTaskReopenRequest: true;
+        isTaskUpdateRequest?: never;
+        isTaskMoveRequest?: never;
+        isListManagementRequest?: never;
+        listName?: string | null;
+        details?: never;
+        taskTitle: string | null;
+        taskTitles?: string[] | null;
+        allMatching?: string | null;
+        updates?: never;
+    }
+    | {
+        isTask?: never;
+        isTaskListRequest?: never;
+        isTaskDeletionRequest?: never;
+        isTaskCompletionRequest?: never;
+        isTaskReopenRequest?: never;
+        isTaskUpdateRequest: true;
+        isTaskMoveRequest?: never;
+        isListManagementRequest?: never;
+        listName?: string | null;
+        details?: never;
+        /**
+         * How the user referred to the task: its title, part of it, or its number in the last list shown.
+         */
+        taskTitle: string | null;
+        updates: TaskUpdates;
+    }
+    | {
+        isTask?: never;
+        isTaskListRequest?: never;
+        isTaskDeletionRequest?: never;
+        isTaskCompletionRequest?: never;
+        isTaskReopenRequest?: never;
+        isTaskUpdateRequest?: never;
+        isTaskMoveRequest: true;
+        isListManagementRequest?: never;
+        /**
+         * The list the task is in, or null for the default list.
+         */
+        listName?: string | null;
+        details?: never;
+        taskTitle: string | null;
+        taskTitles?: string[] | null;
+        allMatching?: string | null;
+        updates?: never;
+        /**
+         * The name of the list to move the task to.
+         */
+        destinationListName: string;
+    }
+    | {
+        isTask?: never;
+        isTaskListRequest?: never;
+        isTaskDeletionRequest?: never;
+        isTaskCompletionRequest?: never;
+        isTaskReopenRequest?: never;
+        isTaskUpdateRequest?: never;
+        isTaskMoveRequest?: never;
+        isListManagementRequest: true;
+        operation: TaskListOperation;
+        /**
+         * The list to create or rename.
+         */
+        listName?: string | null;
+        /**
+         * The new name, for the 'rename' operation.
+         */
+        newListName?: string | null;
+        details?: never;
+        taskTitle?: never;
+        updates?: never;
     };
 
+/**
+ * What the user wants to do with their task lists: see them, create one, or rename one.
+ */
+export type TaskListOperation = 'show' | 'create' | 'rename';
+
+/**
+ * The changes requested for an existing task. Fields that are missing or null are left unchanged.
+ */
+export interface TaskUpdates {
+    newTitle?: string | null;
+    /**
+     * Replaces the task's notes entirely.
+     */
+    newNotes?: string | null;
+    /**
+     * Text to add at the end of the task's existing notes.
+     */
+    notesToAppend?: string | null;
+    /**
+     * The new due date, in YYYY-MM-DD format.
+     */
+    dueDate?: string | null;
+}
+
+/**
+ * A task the user can pick, identified by its stable ID: titles aren't unique (e.g. a "Review"
+ * step under several tasks), so actions are only ever applied by ID.
+ */
+export interface TaskRef {
+    id: string;
+    title: string;
+    /**
+     * The title of the task this one is a step of. Only set for subtasks.
+     */
+    parentTitle?: string;
+}
+
+/**
+ * The actions that can be applied to a single task the user picks from a numbered list.
+ */
+export type TaskSelectionAction = 'delete' | 'complete' | 'reopen' | 'update' | 'move';
+
+/**
+ * A "which task?" prompt awaiting the user's reply: the action to apply and the tasks, in the
+ * order they were presented.
+ */
+export interface PendingTaskSelection {
+    action: TaskSelectionAction;
+    tasks: TaskRef[];
+    /**
+     * The ID of the list the tasks belong to, or undefined for the user's default list.
+     */
+    taskListId?: string;
+    /**
+     * The changes to apply once the task is chosen. Only set for the 'update' action.
+     */
+    updates?: TaskUpdates;
+    /**
+     * The ID of the list to move the task to. Only set for the 'move' action.
+     */
+    destinationListId?: string;
+    /**
+     * Set when the tasks are the chosen targets of a destructive batch (e.g. deleting several
+     * tasks), awaiting the user's confirmation rather than a choice.
+     */
+    awaitingConfirmation?: boolean;
+}
+
+/**
+ * A paged task listing awaiting "more": the listing it belongs to and the page to show next.
+ */
+export interface PendingTaskPage {
+    /**
+     * The ID of the listed task list, or undefined for the user's default list.
+     */
+    taskListId?: string;
+    includeCompleted: boolean;
+    nextPage: number;
+}
+
 // --- Types for Google API Tokens ---
 
 /**
@@ -84,10 +346,180 @@ export interface StoredToken {
     expiry_date: number;
 }
 
+/**
+ * Represents a Google authorization flow started by a user with `/connect_google_tasks`.
+ * It is stored under a random nonce, which travels (signed) in the OAuth 'state' parameter
+ * so the callback can be tied back to the user who actually requested the link.
+ */
+export interface OAuthStateRecord {
+    senderId: string;
+    /**
+     * The PKCE code verifier. Only its SHA-256 challenge is ever sent to the browser.
+     */
+    codeVerifier: string;
+    /**
+     * The timestamp (in milliseconds since the epoch) after which the link can no longer be used.
+     */
+    expiresAt: number;
+    /**
+     * The timestamp (in milliseconds since the epoch) at which the callback consumed this state.
+     */
+    usedAt?: number;
+}
+
 /**
  * A record mapping a user's unique senderId to their stored Google API token.
  * This serves as the in-memory cache and the structure for the persisted JSON file.
  */
 export interface UserTokens {
     [senderId: string]: StoredToken;
-} 
\ No newline at end of file
+} 
+/**
+ * How the due date of a new task is chosen when the user doesn't mention one.
+ */
+export type DefaultDueDateRule = 'next_business_day' | 'today' | 'tomorrow' | 'none';
+
+/**
+ * A user's preferences, viewed and changed with the `/settings` command.
+ */
+export interface UserPreferences {
+    /**
+     * The IANA time zone used to compute due dates and to tell the model what day it is.
+     */
+    timeZone: string;
+    /**
+     * The BCP 47 language tag the bot replies in (e.g. "pt-BR"), or null to mirror the user's language.
+     */
+    locale: string | null;
+    /**
+     * The ID of the Google Tasks list used when the user doesn't name one, or null for the
+     * application's dedicated list. Lists are referenced by ID, so renaming them is harmless.
+     */
+    defaultTaskListId: string | null;
+    defaultDueDate: DefaultDueDateRule;
+    googleSearchEnabled: boolean;
+    /**
+     * Whether the bot sends a WhatsApp reminder when tasks are due or overdue.
+     */
+    remindersEnabled: boolean;
+    /**
+     * The local hour (0-23) at which the morning digest is sent, or null if the user hasn't opted in.
+     */
+    digestHour: number | null;
+    /**
+     * The local hours during which no proactive message is sent, or null for none.
+     * The window may wrap around midnight (e.g. 22 to 8).
+     */
+    quietHours: QuietHours | null;
+}
+
+/**
+ * A window of local hours, from `start` (inclusive) to `end` (exclusive).
+ */
+export interface QuietHours {
+    start: number;
+    end: number;
+}
+
+/**
+ * What the reminder scheduler remembers about a user, so nothing is sent twice.
+ */
+export interface ReminderState {
+    /**
+     * The due date each task was last reminded for, by task ID. A task whose due date
+     * changes is reminded again.
+     */
+    remindedDueDates: Record<string, string>;
+    /**
+     * The local date (YYYY-MM-DD) of the last morning digest.
+     */
+    lastDigestDate?: string;
+}
+
+/**
+ * When a user last wrote to the bot, which tells whether WhatsApp still accepts free-form messages to them.
+ */
+export interface MessagingWindow {
+    /** The time of the user's last message, in milliseconds since the epoch. */
+    lastUserMessageAt: number;
+}
+
+/**
+ * A task with a due date, as shown in reminders and in the morning digest.
+ */
+export interface ReminderTask {
+    id: string;
+    title: string;
+    /**
+     * The due date, in YYYY-MM-DD format.
+     */
+    dueDate: string;
+}
+
+// --- Types for Usage Quotas ---
+
+/**
+ * What is counted against a quota: messages received (per minute), bytes of media downloaded (per
+ * day), and Gemini tokens used (per day).
+ */
+export type UsageMetric = 'messages' | 'mediaBytes' | 'tokens';
+
+/**
+ * The usage of a metric within its current window.
+ */
+export interface UsageCounter {
+    /**
+     * The window the count belongs to (e.g. "2025-03-02" for a daily quota). A counter from an
+     * earlier window counts as zero.
+     */
+    window: string;
+    used: number;
+    /**
+     * Whether the user was already told, in this window, that the quota was reached.
+     */
+    notified?: boolean;
+}
+
+/**
+ * The persisted usage of a user, or of the whole service, for each metric.
+ */
+export type UsageCounters = Partial<Record<UsageMetric, UsageCounter>>;
+
+// --- Types for Access Control ---
+
+/**
+ * Whether a sender may use the bot: admins and allowed senders may; blocked senders are ignored;
+ * unknown senders are refused, unless they redeem an invite code.
+ */
+export type AccessLevel = 'admin' | 'allowed' | 'blocked' | 'unknown';
+
+/**
+ * A decision an admin made about a sender, or the approval an invite code granted. It overrides
+ * the allowlist.
+ */
+export interface AccessRecord {
+    status: 'approved' | 'blocked';
+    /**
+     * Who made the decision: the admin's sender ID, or "invite:<code>" for a redeemed invite code.
+     */
+    decidedBy: string;
+    /**
+     * The timestamp (in milliseconds since the epoch) of the decision.
+     */
+    decidedAt: number;
+}
+
+/**
+ * An invite code created by an admin with `/invite`, stored under the code.
+ */
+export interface InviteCode {
+    createdBy: string;
+    /**
+     * The timestamp (in milliseconds since the epoch) after which the code can no longer be redeemed.
+     */
+    expiresAt: number;
+    /**
+     * How many more senders can redeem the code.
+     */
+    usesLeft: number;
+}
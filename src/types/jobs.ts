@@ -0,0 +1,123 @@
+/**
+ * @file jobs.ts
+ * @description This file defines the messages the webhook hands over for background processing,
+ * the contract of the job queues that process them, and what is remembered of each message.
+ */
+
+/**
+ * A media attachment of an incoming message, as announced by Twilio. It is only downloaded when
+ * the message is processed.
+ */
+export interface IncomingMedia {
+    url: string;
+    contentType: string;
+}
+
+/**
+ * A WhatsApp message received by the webhook, with everything needed to process it later.
+ */
+export interface IncomingMessage {
+    /**
+     * Twilio's unique identifier for the message.
+     */
+    messageSid: string;
+    senderId: string;
+    /**
+     * The message text, trimmed (empty when only media was sent).
+     */
+    body: string;
+    media: IncomingMedia[];
+}
+
+/**
+ * What a queue does with the messages it is given.
+ */
+export interface MessageJobHandlers {
+    /**
+     * Processes a message, replying to the user. A rejection means the job failed.
+     */
+    process(message: IncomingMessage): Promise<void>;
+    /**
+     * Called once when processing a message takes a while, to tell the user it is on its way.
+     */
+    onSlow(message: IncomingMessage): Promise<void>;
+    /**
+     * Called when a job fails or is given up on, to tell the user their message was not processed.
+     */
+    onFailure(message: IncomingMessage): Promise<void>;
+}
+
+/**
+ * A queue that processes incoming messages in the background, so the webhook can be acknowledged
+ * before Twilio's timeout.
+ */
+export interface JobQueue {
+    /**
+     * A short, human-readable name for the queue, used for logging.
+     */
+    readonly name: string;
+
+    /**
+     * Adds a message to the queue. Once the promise resolves, the message will be processed even if
+     * the caller goes away; how far that holds (e.g. across restarts) depends on the queue.
+     */
+    enqueue(message: IncomingMessage): Promise<void>;
+}
+
+/**
+ * The persisted shape of a job in the durable queue.
+ */
+export interface StoredMessageJob {
+    message: IncomingMessage;
+    /**
+     * The timestamp (in milliseconds since the epoch) at which the job was enqueued.
+     */
+    enqueuedAt: number;
+    /**
+     * How many times processing was started. A job is only started again when the instance
+     * processing it went away (its lease expired).
+     */
+    attempts: number;
+    /**
+     * The random token of the instance processing the job, or null while it waits.
+     */
+    leaseOwner: string | null;
+    /**
+     * The timestamp (in milliseconds since the epoch) until which the job belongs to `leaseOwner`.
+     */
+    leaseExpiresAt: number;
+}
+
+/**
+ * A message's place in its sender's line. Messages from one user are processed one at a time, in
+ * the order of the line.
+ */
+export interface SenderLineEntry {
+    messageSid: string;
+    /**
+     * The timestamp (in milliseconds since the epoch) after which the entry is dropped, unless the
+     * instance holding the message renews it first.
+     */
+    expiresAt: number;
+}
+
+/**
+ * The persisted line of a user's messages awaiting processing, oldest first.
+ */
+export interface SenderLine {
+    entries: SenderLineEntry[];
+}
+
+/**
+ * What is remembered of a message the webhook received, so a redelivery of it is recognized.
+ */
+export interface ProcessedMessage {
+    /**
+     * The replies computed for the message, in order. Missing until it has been processed.
+     */
+    replies?: string[];
+    /**
+     * Whether the replies were sent to the user.
+     */
+    delivered: boolean;
+}
@@ -0,0 +1,74 @@
+/**
+ * @file storage.ts
+ * @description This file defines the contract that every storage backend must fulfil.
+ * The application only ever talks to storage through this interface, so the same code runs
+ * against Google Cloud Firestore in production and against a local backend during development.
+ */
+
+/**
+ * A document-oriented key/value store. Documents are plain JSON-compatible objects grouped
+ * into named collections and addressed by ID.
+ */
+export interface StorageBackend {
+    /**
+     * A short, human-readable name for the backend, used for logging.
+     */
+    readonly name: string;
+
+    /**
+     * Reads a single document.
+     * @returns The document data, or null if it doesn't exist.
+     */
+    getDocument<T>(collection: string, docId: string): Promise<T | null>;
+
+    /**
+     * Creates or overwrites a single document. Properties with `undefined` values are dropped.
+     */
+    setDocument<T extends object>(collection: string, docId: string, data: T): Promise<void>;
+
+    /**
+     * Deletes a single document. Deleting a missing document is a no-op.
+     */
+    deleteDocument(collection: string, docId: string): Promise<void>;
+
+    /**
+     * Atomically reads and rewrites a document, so concurrent writers never overwrite each other's changes.
+     * The updater receives the current data (or null) and returns the new data, or null to delete the document.
+     * @returns The data as it was before the update, or null if the document didn't exist.
+     */
+    updateDocument<T extends object>(
+        collection: string,
+        docId: string,
+        updater: (current: T | null) => T | null
+    ): Promise<T | null>;
+
+    /**
+     * Lists the IDs of all documents in a collection.
+     */
+    listDocumentIds(collection: string): Promise<string[]>;
+}
+
+/**
+ * An envelope-encrypted value, as persisted by `encryption.ts`.
+ * The value is encrypted with a random, single-use data key, and that data key is in turn
+ * encrypted ("wrapped") with a long-lived key-encryption key identified by `keyId`.
+ * Rotating the key-encryption key therefore only requires re-wrapping, never a new format.
+ */
+export interface EncryptedEnvelope {
+    /**
+     * The format version, so the scheme can evolve without breaking existing documents.
+     */
+    version: 1;
+    /**
+     * The ID of the key-encryption key that wrapped the data key.
+     */
+    keyId: string;
+    /**
+     * The wrapped data key: base64 of IV (12 bytes) + auth tag (16 bytes) + ciphertext.
+     */
+    wrappedKey: string;
+    /**
+     * The encrypted JSON value: base64 of IV (12 bytes) + auth tag (16 bytes) + ciphertext.
+     */
+    ciphertext: string;
+}
@@ -0,0 +1,154 @@
+/**
+ * @file access.test.ts
+ * @description Unit tests for `access.ts`: who the allowlist lets in, admins' decisions to approve
+ * or block a sender, invite codes, and sweeping expired access state.
+ */
+
+process.env.STORAGE_BACKEND = 'memory';
+
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InviteCode } from '../src/types/chat';
+import {
+    claimRefusalNotice, createInviteCode, getAccessLevel, normalizePhoneNumber, redeemInviteCode, setAccessStatus,
+    sweepExpiredAccessState, toSenderId,
+} from '../src/components/access';
+import { getDocument, setDocument } from '../src/components/storage';
+
+const ADMIN = 'whatsapp:+5511900000001';
+const POLICY_VARIABLES = ['ACCESS_MODE', 'ADMIN_NUMBERS', 'ALLOWED_NUMBERS', 'ALLOWED_COUNTRY_CODES'];
+
+/**
+ * Sets the access policy for a test; it is removed again after each test.
+ * @param policy The environment variables of the policy.
+ */
+function setPolicy(policy: Record<string, string>): void {
+    Object.assign(process.env, { ACCESS_MODE: 'restricted', ...policy });
+}
+
+afterEach(() => POLICY_VARIABLES.forEach(name => delete process.env[name]));
+
+describe('normalizePhoneNumber', () => {
+    const cases: [string, string | null][] = [
+        ['+5511999999999', '+5511999999999'],
+        ['whatsapp:+5511999999999', '+5511999999999'],
+        ['+55 (11) 99999-9999', '+5511999999999'],
+        ['5511999999999', null],
+        ['+55 abc', null],
+    ];
+    for (const [input, expected] of cases) {
+        test(`normalizes "${input}"`, () => {
+            assert.equal(normalizePhoneNumber(input), expected);
+        });
+    }
+});
+
+describe('getAccessLevel', () => {
+    test('lets everyone in when access is open', async () => {
+        assert.equal(await getAccessLevel('whatsapp:+14155550100'), 'allowed');
+    });
+
+    test('only lets allowlisted numbers in when access is restricted', async () => {
+        setPolicy({ ALLOWED_NUMBERS: '+55 11 91111-1111, +14155550101' });
+        assert.equal(await getAccessLevel('whatsapp:+5511911111111'), 'allowed');
+        assert.equal(await getAccessLevel('whatsapp:+14155550101'), 'allowed');
+        assert.equal(await getAccessLevel('whatsapp:+14155550102'), 'unknown');
+    });
+
+    test('lets numbers in by their country code, with or without "+"', async () => {
+        setPolicy({ ALLOWED_COUNTRY_CODES: '55, +351' });
+        assert.equal(await getAccessLevel('whatsapp:+5521988888888'), 'allowed');
+        assert.equal(await getAccessLevel('whatsapp:+351912345678'), 'allowed');
+        assert.equal(await getAccessLevel('whatsapp:+14155550103'), 'unknown');
+    });
+
+    test('recognizes admins, however their numbers are written', async () => {
+        setPolicy({ ADMIN_NUMBERS: '+55 11 90000-0001' });
+        assert.equal(await getAccessLevel(ADMIN), 'admin');
+        assert.equal(await getAccessLevel('whatsapp:+5511900000002'), 'unknown');
+    });
+
+    test('refuses a blocked sender even when the allowlist lets them in', async () => {
+        await setAccessStatus('whatsapp:+5511922222222', 'blocked', ADMIN);
+        setPolicy({ ALLOWED_COUNTRY_CODES: '55' });
+        assert.equal(await getAccessLevel('whatsapp:+5511922222222'), 'blocked');
+        delete process.env.ACCESS_MODE;
+        assert.equal(await getAccessLevel('whatsapp:+5511922222222'), 'blocked');
+    });
+});
+
+describe('approving and blocking senders', () => {
+    test('/approve lets a sender in, and /unblock returns them to the configured policy', async () => {
+        setPolicy({});
+        const senderId = toSenderId(normalizePhoneNumber('+1 (415) 555-0104')!);
+
+        await setAccessStatus(senderId, 'approved', ADMIN);
+        assert.equal(await getAccessLevel(senderId), 'allowed');
+        assert.equal((await getDocument<{ decidedBy: string }>('user-access', senderId))!.decidedBy, ADMIN);
+
+        await setAccessStatus(senderId, null, ADMIN);
+        assert.equal(await getAccessLevel(senderId), 'unknown');
+    });
+
+    test('/block refuses an approved sender', async () => {
+        setPolicy({});
+        const senderId = toSenderId('+14155550105');
+
+        await setAccessStatus(senderId, 'approved', ADMIN);
+        await setAccessStatus(senderId, 'blocked', ADMIN);
+        assert.equal(await getAccessLevel(senderId), 'blocked');
+    });
+});
+
+describe('invite codes', () => {
+    test('approves as many senders as the code allows', async () => {
+        setPolicy({});
+        const { code, usesLeft } = await createInviteCode(ADMIN, 2);
+        assert.equal(usesLeft, 2);
+
+        assert.equal(await redeemInviteCode('whatsapp:+14155550106', code.toLowerCase()), true);
+        assert.equal(await redeemInviteCode('whatsapp:+14155550107', ` ${code} `), true);
+        assert.equal(await redeemInviteCode('whatsapp:+14155550108', code), false);
+
+        assert.equal(await getAccessLevel('whatsapp:+14155550106'), 'allowed');
+        assert.equal(await getAccessLevel('whatsapp:+14155550107'), 'allowed');
+        assert.equal(await getAccessLevel('whatsapp:+14155550108'), 'unknown');
+        assert.equal(await getDocument('invite-codes', code), null);
+    });
+
+    test('caps the number of uses', async () => {
+        assert.equal((await createInviteCode(ADMIN, 1000)).usesLeft, 50);
+        assert.equal((await createInviteCode(ADMIN, 0)).usesLeft, 1);
+    });
+
+    test('refuses an expired code', async () => {
+        setPolicy({});
+        await setDocument<InviteCode>('invite-codes', 'EXPIRED2', { createdBy: ADMIN, expiresAt: Date.now() - 1, usesLeft: 5 });
+
+        assert.equal(await redeemInviteCode('whatsapp:+14155550109', 'EXPIRED2'), false);
+        assert.equal(await getAccessLevel('whatsapp:+14155550109'), 'unknown');
+    });
+
+    test('refuses codes that were never created', async () => {
+        assert.equal(await redeemInviteCode('whatsapp:+14155550110', 'NOSUCHCODE'), false);
+        assert.equal(await redeemInviteCode('whatsapp:+14155550110', 'not a code!'), false);
+    });
+});
+
+describe('sweepExpiredAccessState', () => {
+    test('removes expired invite codes and refusal notices, and only those', async () => {
+        const { code: expired } = await createInviteCode(ADMIN);
+        const invite = await getDocument<InviteCode>('invite-codes', expired);
+        await setDocument('invite-codes', expired, { ...invite!, expiresAt: Date.now() - 1 });
+        const { code: live } = await createInviteCode(ADMIN);
+        await setDocument('access-refusals', 'whatsapp:+4915100000009', { value: Date.now() - 1, expiresAt: Date.now() - 1 });
+        await claimRefusalNotice('whatsapp:+4915100000010');
+
+        // Earlier tests may leave expired documents behind too.
+        assert.ok(await sweepExpiredAccessState() >= 2);
+        assert.equal(await getDocument('invite-codes', expired), null);
+        assert.equal(await getDocument('access-refusals', 'whatsapp:+4915100000009'), null);
+        assert.notEqual(await getDocument('invite-codes', live), null);
+        assert.equal(await claimRefusalNotice('whatsapp:+4915100000010'), false);
+    });
+});
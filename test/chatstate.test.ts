@@ -0,0 +1,140 @@
+/**
+ * @file chatstate.test.ts
+ * @description Unit tests for `chatstate.ts`: folding the oldest turns of a chat history into its
+ * summary, media awaiting instructions, pending "which task?" prompts and batches of deletions
+ * awaiting confirmation, and sweeping expired state.
+ */
+
+process.env.STORAGE_BACKEND = 'memory';
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChatHistoryItem, PendingTaskSelection } from '../src/types/chat';
+import {
+    appendChatTurn, clearConversation, consumePendingMedia, consumePendingTaskSelection, foldChatTurns, getChatMemory,
+    setPendingMedia, setPendingTaskSelection, sweepExpiredConversationState,
+} from '../src/components/chatstate';
+import { getDocument, setDocument } from '../src/components/storage';
+
+const FILE = { fileUri: 'https://files.example.com/board', mimeType: 'image/jpeg' };
+
+const BATCH: PendingTaskSelection = {
+    action: 'delete',
+    tasks: [{ id: 'task-slides', title: 'Prepare demo slides' }, { id: 'task-script', title: 'Review demo script' }],
+    taskListId: 'list-work',
+    awaitingConfirmation: true,
+};
+
+/**
+ * Creates a chat history with some exchanges for a user.
+ * @param senderId The user's unique identifier.
+ * @param count How many exchanges to append.
+ * @returns A promise resolving to the history's turns.
+ */
+async function createHistory(senderId: string, count: number): Promise<ChatHistoryItem[]> {
+    for (let i = 1; i <= count; i++) {
+        await appendChatTurn(senderId, [{ text: `question ${i}` }], `answer ${i}`);
+    }
+    return (await getChatMemory(senderId)).turns;
+}
+
+describe('foldChatTurns', () => {
+    test('replaces the oldest turns with the summary', async () => {
+        const turns = await createHistory('fold-oldest', 3);
+
+        assert.equal(await foldChatTurns('fold-oldest', turns.slice(0, 4), 'Asked two questions.'), true);
+
+        const memory = await getChatMemory('fold-oldest');
+        assert.equal(memory.summary, 'Asked two questions.');
+        assert.deepEqual(memory.turns, turns.slice(4));
+    });
+
+    test('keeps turns appended while the summary was computed', async () => {
+        const turns = await createHistory('fold-concurrent', 2);
+        await appendChatTurn('fold-concurrent', [{ text: 'question 3' }], 'answer 3');
+
+        assert.equal(await foldChatTurns('fold-concurrent', turns.slice(0, 2), 'Asked one question.'), true);
+
+        const memory = await getChatMemory('fold-concurrent');
+        assert.deepEqual(memory.turns.map(turn => turn.parts[0].text), ['question 2', 'answer 2', 'question 3', 'answer 3']);
+    });
+
+    test('drops a fold computed from a history that changed in the meantime', async () => {
+        const turns = await createHistory('fold-stale', 2);
+        assert.equal(await foldChatTurns('fold-stale', turns.slice(0, 2), 'First fold.'), true);
+
+        // A second fold of the same turns, e.g. by another instance, no longer matches the history.
+        assert.equal(await foldChatTurns('fold-stale', turns.slice(0, 2), 'Second fold.'), false);
+
+        const memory = await getChatMemory('fold-stale');
+        assert.equal(memory.summary, 'First fold.');
+        assert.deepEqual(memory.turns, turns.slice(2));
+    });
+
+    test('does nothing once the conversation was reset', async () => {
+        const turns = await createHistory('fold-reset', 2);
+        await clearConversation('fold-reset');
+
+        assert.equal(await foldChatTurns('fold-reset', turns.slice(0, 2), 'Too late.'), false);
+        assert.deepEqual(await getChatMemory('fold-reset'), { summary: null, turns: [] });
+    });
+});
+
+describe('pending media', () => {
+    test('keeps every file of a message', async () => {
+        const files = [FILE, { fileUri: 'https://files.example.com/note', mimeType: 'audio/ogg' }];
+        await setPendingMedia('media-files', files);
+        assert.deepEqual(await consumePendingMedia('media-files'), files);
+        assert.equal(await consumePendingMedia('media-files'), null);
+    });
+
+    test('reads a single file saved before several files per message were supported', async () => {
+        await setDocument('pending-media', 'media-legacy', { value: FILE, expiresAt: Date.now() + 60000 });
+        assert.deepEqual(await consumePendingMedia('media-legacy'), [FILE]);
+    });
+});
+
+describe('pending task selections', () => {
+    test('keep a batch awaiting confirmation as it was asked', async () => {
+        await setPendingTaskSelection('selection-batch', BATCH);
+        assert.deepEqual(await consumePendingTaskSelection('selection-batch'), BATCH);
+    });
+
+    test('are consumed by the first reply, so a confirmation applies only once', async () => {
+        await setPendingTaskSelection('selection-once', BATCH);
+        await consumePendingTaskSelection('selection-once');
+        assert.equal(await consumePendingTaskSelection('selection-once'), null);
+    });
+
+    test('are ignored once expired', async () => {
+        await setDocument('pending-task-selections', 'selection-expired', { value: BATCH, expiresAt: Date.now() - 1 });
+        assert.equal(await consumePendingTaskSelection('selection-expired'), null);
+    });
+
+    test('are kept per user', async () => {
+        await setPendingTaskSelection('selection-owner', BATCH);
+        assert.equal(await consumePendingTaskSelection('selection-someone-else'), null);
+        assert.deepEqual(await consumePendingTaskSelection('selection-owner'), BATCH);
+    });
+
+    test('are dropped if saved before tasks were picked by ID', async () => {
+        const legacy = { action: 'delete', taskTitles: ['Review', 'Review'], awaitingConfirmation: true };
+        await setDocument('pending-task-selections', 'selection-legacy', { value: legacy, expiresAt: Date.now() + 60000 });
+        assert.equal(await consumePendingTaskSelection('selection-legacy'), null);
+    });
+});
+
+describe('sweepExpiredConversationState', () => {
+    test('removes only the expired state, leaving pending media to the media janitor', async () => {
+        await setDocument('chat-histories', 'sweep-stale', { value: { summary: null, turns: [] }, expiresAt: Date.now() - 1 });
+        await setDocument('pending-task-selections', 'sweep-stale', { value: BATCH, expiresAt: Date.now() - 1 });
+        await setDocument('pending-media', 'sweep-stale', { value: [FILE], expiresAt: Date.now() - 1 });
+        await setPendingTaskSelection('sweep-live', BATCH);
+
+        assert.equal(await sweepExpiredConversationState(), 2);
+        assert.equal(await getDocument('chat-histories', 'sweep-stale'), null);
+        assert.equal(await getDocument('pending-task-selections', 'sweep-stale'), null);
+        assert.notEqual(await getDocument('pending-media', 'sweep-stale'), null);
+        assert.deepEqual(await consumePendingTaskSelection('sweep-live'), BATCH);
+    });
+});
@@ -0,0 +1,110 @@
+/**
+ * @file dates.test.ts
+ * @description Unit tests for `dates.ts`: calendar dates are validated strictly, and "today", the
+ * next business day and default due dates are computed in the user's time zone rather than in UTC.
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DefaultDueDateRule } from '../src/types/chat';
+import {
+    addDaysToIsoDate, formatIsoDate, getLocalHour, getNextBusinessDay, getTodayIsoDate, isValidIsoDate, isValidTimeZone,
+    resolveDefaultDueDate,
+} from '../src/components/dates';
+
+describe('isValidIsoDate', () => {
+    const cases: [string, boolean][] = [
+        ['2026-10-18', true],
+        ['2024-02-29', true],
+        ['2026-02-29', false],
+        ['2026-02-30', false],
+        ['2026-13-01', false],
+        ['2026-00-10', false],
+        ['2026-10-32', false],
+        ['2026-1-5', false],
+        ['18/10/2026', false],
+        ['2026-10-18T10:00:00Z', false],
+        ['', false],
+    ];
+    for (const [isoDate, expected] of cases) {
+        test(`${expected ? 'accepts' : 'rejects'} "${isoDate}"`, () => {
+            assert.equal(isValidIsoDate(isoDate), expected);
+        });
+    }
+});
+
+describe('isValidTimeZone', () => {
+    test('accepts IANA names and rejects anything else', () => {
+        assert.equal(isValidTimeZone('America/Sao_Paulo'), true);
+        assert.equal(isValidTimeZone('UTC'), true);
+        assert.equal(isValidTimeZone('Mars/Olympus_Mons'), false);
+    });
+});
+
+describe('getTodayIsoDate and getLocalHour', () => {
+    // Late on Thursday evening in UTC is already Friday morning in Tokyo, and still afternoon in Los Angeles.
+    const instant = new Date('2026-10-15T23:30:00Z');
+    const cases: [string, string, number][] = [
+        ['UTC', '2026-10-15', 23],
+        ['Asia/Tokyo', '2026-10-16', 8],
+        ['America/Los_Angeles', '2026-10-15', 16],
+    ];
+    for (const [timeZone, date, hour] of cases) {
+        test(`reads the date and hour in ${timeZone}`, () => {
+            assert.equal(getTodayIsoDate(timeZone, instant), date);
+            assert.equal(getLocalHour(timeZone, instant), hour);
+        });
+    }
+});
+
+describe('getNextBusinessDay', () => {
+    const cases: [string, string, string][] = [
+        // [instant, time zone, next business day]
+        ['2026-10-12T12:00:00Z', 'UTC', '2026-10-13'], // Monday -> Tuesday
+        ['2026-10-16T12:00:00Z', 'UTC', '2026-10-19'], // Friday -> Monday
+        ['2026-10-17T12:00:00Z', 'UTC', '2026-10-19'], // Saturday -> Monday
+        ['2026-10-18T12:00:00Z', 'UTC', '2026-10-19'], // Sunday -> Monday
+        ['2026-10-15T23:30:00Z', 'UTC', '2026-10-16'], // Thursday in UTC -> Friday
+        ['2026-10-15T23:30:00Z', 'Asia/Tokyo', '2026-10-19'], // Already Friday in Tokyo -> Monday
+        ['2026-10-16T02:00:00Z', 'UTC', '2026-10-19'], // Friday in UTC -> Monday
+        ['2026-10-16T02:00:00Z', 'America/Los_Angeles', '2026-10-16'], // Still Thursday in Los Angeles -> Friday
+        ['2026-12-31T12:00:00Z', 'UTC', '2027-01-01'], // Across the end of the year
+    ];
+    for (const [instant, timeZone, expected] of cases) {
+        test(`after ${instant} in ${timeZone} is ${expected}`, () => {
+            assert.equal(getNextBusinessDay(timeZone, new Date(instant)), expected);
+        });
+    }
+});
+
+describe('resolveDefaultDueDate', () => {
+    // Friday night in UTC, already Saturday morning in Tokyo.
+    const instant = new Date('2026-10-16T23:30:00Z');
+    const cases: [DefaultDueDateRule, string, string | null][] = [
+        ['today', 'UTC', '2026-10-16'],
+        ['today', 'Asia/Tokyo', '2026-10-17'],
+        ['tomorrow', 'UTC', '2026-10-17'],
+        ['tomorrow', 'Asia/Tokyo', '2026-10-18'],
+        ['next_business_day', 'UTC', '2026-10-19'],
+        ['next_business_day', 'Asia/Tokyo', '2026-10-19'],
+        ['none', 'UTC', null],
+    ];
+    for (const [rule, timeZone, expected] of cases) {
+        test(`resolves "${rule}" in ${timeZone}`, () => {
+            assert.equal(resolveDefaultDueDate(rule, timeZone, instant), expected);
+        });
+    }
+});
+
+describe('addDaysToIsoDate and formatIsoDate', () => {
+    test('adds days across months, years and leap days', () => {
+        assert.equal(addDaysToIsoDate('2026-10-31', 1), '2026-11-01');
+        assert.equal(addDaysToIsoDate('2026-12-30', 3), '2027-01-02');
+        assert.equal(addDaysToIsoDate('2024-02-28', 1), '2024-02-29');
+        assert.equal(addDaysToIsoDate('2026-03-01', -1), '2026-02-28');
+    });
+
+    test('names the day of the week', () => {
+        assert.equal(formatIsoDate('2026-10-16'), 'Friday, 2026-10-16');
+    });
+});
@@ -0,0 +1,107 @@
+/**
+ * @file encryption.test.ts
+ * @description Unit tests for `encryption.ts` and the encrypted token storage of `storage.ts`:
+ * envelopes are bound to their document, tampering is detected, and tokens written before
+ * encryption or with a retired key are migrated to the active key.
+ */
+
+import crypto from 'crypto';
+
+const OLD_KEY = `old:${crypto.randomBytes(32).toString('base64')}`;
+const NEW_KEY = `new:${crypto.randomBytes(32).toString('base64')}`;
+
+process.env.STORAGE_BACKEND = 'memory';
+process.env.TOKEN_ENCRYPTION_KEYS = OLD_KEY;
+
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { StoredToken } from '../src/types/chat';
+import { assertEncryptionConfigured, decryptJson, encryptJson, needsReEncryption } from '../src/components/encryption';
+import { getDocument, loadToken, migrateTokenEncryption, saveToken, setDocument } from '../src/components/storage';
+
+const TOKEN: StoredToken = {
+    access_token: 'access-token',
+    refresh_token: 'refresh-token',
+    scope: 'https://www.googleapis.com/auth/tasks',
+    token_type: 'Bearer',
+    expiry_date: 1760000000000,
+};
+
+afterEach(() => {
+    process.env.TOKEN_ENCRYPTION_KEYS = OLD_KEY;
+});
+
+describe('encryptJson and decryptJson', () => {
+    test('round-trip a value with the active key', () => {
+        const envelope = encryptJson(TOKEN, 'whatsapp:+5511999999999');
+        assert.equal(envelope.keyId, 'old');
+        assert.ok(!envelope.ciphertext.includes('refresh-token'));
+        assert.deepEqual(decryptJson(envelope, 'whatsapp:+5511999999999'), TOKEN);
+    });
+
+    test('refuse an envelope copied onto another document', () => {
+        const envelope = encryptJson(TOKEN, 'whatsapp:+5511999999999');
+        assert.throws(() => decryptJson(envelope, 'whatsapp:+5511888888888'));
+    });
+
+    test('refuse a tampered envelope', () => {
+        const envelope = encryptJson(TOKEN, 'whatsapp:+5511999999999');
+        const ciphertext = Buffer.from(envelope.ciphertext, 'base64');
+        ciphertext[ciphertext.length - 1] ^= 1;
+        assert.throws(() => decryptJson({ ...envelope, ciphertext: ciphertext.toString('base64') }, 'whatsapp:+5511999999999'));
+    });
+
+    test('refuse an envelope wrapped with a key that was removed', () => {
+        const envelope = encryptJson(TOKEN, 'whatsapp:+5511999999999');
+        process.env.TOKEN_ENCRYPTION_KEYS = NEW_KEY;
+        assert.throws(() => decryptJson(envelope, 'whatsapp:+5511999999999'), /Unknown encryption key "old"/);
+    });
+});
+
+describe('key rotation', () => {
+    test('decrypts with a retired key and asks for re-encryption', () => {
+        const envelope = encryptJson(TOKEN, 'whatsapp:+5511999999999');
+        process.env.TOKEN_ENCRYPTION_KEYS = `${NEW_KEY},${OLD_KEY}`;
+
+        assert.deepEqual(decryptJson(envelope, 'whatsapp:+5511999999999'), TOKEN);
+        assert.equal(needsReEncryption(envelope), true);
+        assert.equal(needsReEncryption(encryptJson(TOKEN, 'whatsapp:+5511999999999')), false);
+    });
+
+    test('rejects malformed key configurations', () => {
+        for (const keys of ['', 'no-separator', 'short:c2hvcnQ=', `${OLD_KEY},${OLD_KEY}`]) {
+            process.env.TOKEN_ENCRYPTION_KEYS = keys;
+            assert.throws(() => assertEncryptionConfigured(), `"${keys}" should be rejected.`);
+        }
+    });
+});
+
+describe('token storage', () => {
+    test('stores tokens encrypted', async () => {
+        await saveToken('whatsapp:+5511900000001', TOKEN);
+        const doc = await getDocument<object>('google-tokens', 'whatsapp:+5511900000001');
+        assert.deepEqual(Object.keys(doc!), ['envelope']);
+        assert.deepEqual(await loadToken('whatsapp:+5511900000001'), TOKEN);
+    });
+
+    test('encrypts a plaintext token when it is loaded', async () => {
+        await setDocument('google-tokens', 'whatsapp:+5511900000002', TOKEN);
+        assert.deepEqual(await loadToken('whatsapp:+5511900000002'), TOKEN);
+        assert.ok('envelope' in (await getDocument<object>('google-tokens', 'whatsapp:+5511900000002'))!);
+    });
+
+    test('migrates plaintext tokens and tokens wrapped with a retired key', async () => {
+        await saveToken('whatsapp:+5511900000003', TOKEN);
+        await setDocument('google-tokens', 'whatsapp:+5511900000004', TOKEN);
+        process.env.TOKEN_ENCRYPTION_KEYS = `${NEW_KEY},${OLD_KEY}`;
+
+        const summary = await migrateTokenEncryption();
+        assert.deepEqual(summary.failed, []);
+        assert.equal((await migrateTokenEncryption()).migrated, 0);
+
+        // Once migrated, the retired key is no longer needed.
+        process.env.TOKEN_ENCRYPTION_KEYS = NEW_KEY;
+        assert.deepEqual(await loadToken('whatsapp:+5511900000003'), TOKEN);
+        assert.deepEqual(await loadToken('whatsapp:+5511900000004'), TOKEN);
+    });
+});
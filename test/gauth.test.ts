@@ -0,0 +1,130 @@
+/**
+ * @file gauth.test.ts
+ * @description Unit tests for the OAuth 'state' tokens of `gauth.ts`: they are signed, expire,
+ * complete a single callback and carry the PKCE challenge of their flow, and expired ones are swept.
+ */
+
+process.env.STORAGE_BACKEND = 'memory';
+process.env.GOOGLE_CLIENT_ID = 'test-client-id';
+process.env.GOOGLE_CLIENT_SECRET = 'test-client-secret';
+process.env.GOOGLE_REDIRECT_URI = 'https://voicetasks.example.com/auth/google/callback';
+process.env.OAUTH_STATE_SECRET = 'test-state-secret';
+
+import { afterEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { OAuth2Client } from 'google-auth-library';
+import { OAuthStateRecord } from '../src/types/chat';
+import {
+    AuthStateError, AuthStateFailureReason, createAuthState, handleGoogleAuthCallback, initiateGoogleAuth, sweepExpiredAuthStates,
+} from '../src/components/gauth';
+import * as Storage from '../src/components/storage';
+import { getDocument, updateDocument } from '../src/components/storage';
+
+/**
+ * Asserts that a promise is rejected because of its state token.
+ * @param promise The promise.
+ * @param reason The expected reason.
+ */
+async function assertRejectedState(promise: Promise<unknown>, reason: AuthStateFailureReason): Promise<void> {
+    await assert.rejects(promise, (error: unknown) => error instanceof AuthStateError && error.reason === reason);
+}
+
+/**
+ * Changes the stored record of a state token.
+ * @param stateToken The token.
+ * @param changes The fields to change.
+ */
+async function changeStateRecord(stateToken: string, changes: Partial<OAuthStateRecord>): Promise<void> {
+    await updateDocument<OAuthStateRecord>('oauth-states', stateToken.split('.')[0], (current) => ({ ...current!, ...changes }));
+}
+
+afterEach(() => mock.restoreAll());
+
+describe('initiateGoogleAuth', () => {
+    test('builds an offline consent URL carrying the state and the PKCE challenge', async () => {
+        const stateToken = await createAuthState('whatsapp:+5511999999999');
+        const url = new URL(await initiateGoogleAuth(stateToken));
+        const record = await getDocument<OAuthStateRecord>('oauth-states', stateToken.split('.')[0]);
+
+        assert.equal(url.searchParams.get('state'), stateToken);
+        assert.equal(url.searchParams.get('access_type'), 'offline');
+        assert.equal(url.searchParams.get('code_challenge_method'), 'S256');
+        assert.equal(url.searchParams.get('code_challenge'), crypto.createHash('sha256').update(record!.codeVerifier).digest('base64url'));
+        assert.ok(!url.toString().includes(record!.codeVerifier), 'The code verifier must never leave the server.');
+    });
+
+    test('rejects tokens that are malformed or not signed by the server', async () => {
+        const stateToken = await createAuthState('whatsapp:+5511999999999');
+        const [nonce, signature] = stateToken.split('.');
+        const forged = crypto.createHmac('sha256', 'another-secret').update(nonce).digest('base64url');
+
+        await assertRejectedState(initiateGoogleAuth(nonce), 'invalid');
+        await assertRejectedState(initiateGoogleAuth(`${nonce}.${forged}`), 'invalid');
+        await assertRejectedState(initiateGoogleAuth(`${nonce}.${signature}.extra`), 'invalid');
+    });
+
+    test('rejects a signed token that the server never stored', async () => {
+        const nonce = crypto.randomBytes(24).toString('base64url');
+        const signature = crypto.createHmac('sha256', 'test-state-secret').update(nonce).digest('base64url');
+        await assertRejectedState(initiateGoogleAuth(`${nonce}.${signature}`), 'invalid');
+    });
+
+    test('rejects expired and used tokens', async () => {
+        const expired = await createAuthState('whatsapp:+5511999999999');
+        await changeStateRecord(expired, { expiresAt: Date.now() - 1 });
+        await assertRejectedState(initiateGoogleAuth(expired), 'expired');
+
+        const used = await createAuthState('whatsapp:+5511999999999');
+        await changeStateRecord(used, { usedAt: Date.now() });
+        await assertRejectedState(initiateGoogleAuth(used), 'used');
+    });
+});
+
+describe('handleGoogleAuthCallback', () => {
+    test('rejects a token that already completed a callback, before exchanging the code', async () => {
+        const stateToken = await createAuthState('whatsapp:+5511999999999');
+        await changeStateRecord(stateToken, { usedAt: Date.now() });
+        await assertRejectedState(handleGoogleAuthCallback('auth-code', stateToken), 'used');
+    });
+
+    test('rejects an expired token and forgets it', async () => {
+        const stateToken = await createAuthState('whatsapp:+5511999999999');
+        await changeStateRecord(stateToken, { expiresAt: Date.now() - 1 });
+
+        await assertRejectedState(handleGoogleAuthCallback('auth-code', stateToken), 'expired');
+        assert.equal(await getDocument('oauth-states', stateToken.split('.')[0]), null);
+    });
+
+    test('forgets the token once the code was exchanged', async () => {
+        const stateToken = await createAuthState('whatsapp:+5511999999999');
+        // The token exchange's overloads don't fit `mock.method`'s typing, hence the narrower view of it.
+        mock.method(OAuth2Client.prototype as unknown as { getToken: () => Promise<unknown> }, 'getToken', async () => ({
+            tokens: { access_token: 'access-token', refresh_token: 'refresh-token', expiry_date: Date.now() + 3600000 },
+        }));
+        mock.method(Storage, 'loadToken', async () => null);
+        mock.method(Storage, 'saveToken', async () => {});
+
+        assert.equal(await handleGoogleAuthCallback('auth-code', stateToken), 'whatsapp:+5511999999999');
+        assert.equal(await getDocument('oauth-states', stateToken.split('.')[0]), null);
+        await assertRejectedState(handleGoogleAuthCallback('auth-code', stateToken), 'invalid');
+    });
+
+    test('rejects a forged token', async () => {
+        const stateToken = await createAuthState('whatsapp:+5511999999999');
+        await assertRejectedState(handleGoogleAuthCallback('auth-code', `${stateToken.split('.')[0]}.forged`), 'invalid');
+    });
+});
+
+describe('sweepExpiredAuthStates', () => {
+    test('removes the tokens that expired, and only those', async () => {
+        const expired = await createAuthState('whatsapp:+5511999999999');
+        await changeStateRecord(expired, { expiresAt: Date.now() - 1 });
+        const live = await createAuthState('whatsapp:+5511999999999');
+
+        // Earlier tests leave expired tokens behind too.
+        assert.ok(await sweepExpiredAuthStates() >= 1);
+        assert.equal(await getDocument('oauth-states', expired.split('.')[0]), null);
+        assert.ok(await initiateGoogleAuth(live));
+    });
+});
@@ -0,0 +1,171 @@
+/**
+ * @file gemini.test.ts
+ * @description Unit tests for `gemini.ts`: task function calls are executed and answered until the
+ * model replies, the files of a message are sent in one turn, and deleted media is left out of the history.
+ */
+
+process.env.STORAGE_BACKEND = 'memory';
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Content, GenerateContentConfig, GoogleGenAI, Part } from '@google/genai';
+import { generateGeminiChatResponse, processMediaWithGemini, TaskToolExecutor } from '../src/components/gemini';
+import { appendChatTurn, getChatMemory } from '../src/components/chatstate';
+
+/**
+ * A response of the scripted chat: some function calls, or the final text.
+ */
+type ScriptedResponse = { functionCalls?: { id: string; name: string; args: Record<string, unknown> }[]; text?: string };
+
+/**
+ * Creates a stand-in for the Gemini client whose chat answers with the given responses, in order.
+ * @param responses The responses, or a function computing the response to each message.
+ * @returns The client, the histories and configurations chats were created with, and the messages sent.
+ */
+function createScriptedClient(responses: ScriptedResponse[] | (() => ScriptedResponse)) {
+    const histories: Content[][] = [];
+    const configs: GenerateContentConfig[] = [];
+    const sentMessages: unknown[] = [];
+    const client = {
+        chats: {
+            create(params: { history: Content[]; config: GenerateContentConfig }) {
+                histories.push(params.history);
+                configs.push(params.config);
+                return {
+                    async sendMessage({ message }: { message: unknown }) {
+                        sentMessages.push(message);
+                        return typeof responses === 'function' ? responses() : responses.shift();
+                    },
+                };
+            },
+        },
+    } as unknown as GoogleGenAI;
+    return { client, histories, configs, sentMessages };
+}
+
+describe('task function calls', () => {
+    test('are executed and answered until the model replies', async () => {
+        const { client, sentMessages } = createScriptedClient([
+            { functionCalls: [
+                { id: 'call-1', name: 'complete_tasks', args: { taskTitle: 'milk' } },
+                { id: 'call-2', name: 'create_task', args: { objective: 'Buy bread' } },
+            ] },
+            { text: 'Done! Milk is completed and bread is on your list.' },
+        ]);
+        const calls: string[] = [];
+        const executor: TaskToolExecutor = async (name, args) => {
+            calls.push(`${name}:${JSON.stringify(args)}`);
+            return { reply: `${name} ran` };
+        };
+
+        const result = await generateGeminiChatResponse(client, 'tools-executed', 'Milk done, and add bread', true, executor);
+
+        assert.deepEqual(calls, ['complete_tasks:{"taskTitle":"milk"}', 'create_task:{"objective":"Buy bread"}']);
+        assert.deepEqual(sentMessages[1], [
+            { functionResponse: { id: 'call-1', name: 'complete_tasks', response: { reply: 'complete_tasks ran' } } },
+            { functionResponse: { id: 'call-2', name: 'create_task', response: { reply: 'create_task ran' } } },
+        ]);
+        assert.deepEqual(result, { responseText: 'Done! Milk is completed and bread is on your list.', googleSearchUsed: false, taskToolsUsed: true });
+    });
+
+    test('are only declared when there is an executor', async () => {
+        const { client, configs } = createScriptedClient(() => ({ text: 'Hello!' }));
+
+        await generateGeminiChatResponse(client, 'tools-declared', 'Add milk', true, async () => ({}));
+        await generateGeminiChatResponse(client, 'tools-declared', 'Hi', false);
+
+        assert.ok(configs[0].tools?.some(tool => 'functionDeclarations' in tool && tool.functionDeclarations?.length));
+        assert.ok(!configs[1].tools?.some(tool => 'functionDeclarations' in tool));
+    });
+
+    test('stop being answered when the model keeps calling functions', async () => {
+        const { client } = createScriptedClient(() => ({ functionCalls: [{ id: 'call', name: 'list_tasks', args: {} }] }));
+        let executions = 0;
+
+        const result = await generateGeminiChatResponse(client, 'tools-loop', 'Show my tasks', true, async () => {
+            executions++;
+            return {};
+        });
+
+        assert.equal(executions, 5);
+        assert.equal(result.taskToolsUsed, true);
+    });
+
+    test('reply with their results when the model fails after running them', async () => {
+        const responses = [
+            () => ({ functionCalls: [
+                { id: 'call-1', name: 'complete_tasks', args: { taskTitle: 'milk' } },
+                { id: 'call-2', name: 'create_task', args: { objective: 'Buy bread' } },
+            ] }),
+            () => { throw new Error('unavailable'); },
+        ];
+        const { client } = createScriptedClient(() => responses.shift()!());
+        const replies = [{ reply: '✅ Completed "Buy milk".' }, { error: 'Could not create "Buy bread".' }];
+
+        const result = await generateGeminiChatResponse(client, 'tools-follow-up-failed', 'Milk done, and add bread', true, async () => replies.shift()!);
+
+        assert.deepEqual(result, {
+            responseText: '✅ Completed "Buy milk".\n\nCould not create "Buy bread".',
+            googleSearchUsed: false,
+            taskToolsUsed: true,
+        });
+    });
+});
+
+describe('processMediaWithGemini', () => {
+    const FILES = [
+        { fileUri: 'https://files.example.com/board-1', mimeType: 'image/jpeg' },
+        { fileUri: 'https://files.example.com/board-2', mimeType: 'image/png' },
+        { fileUri: 'https://files.example.com/note', mimeType: 'audio/ogg' },
+    ];
+
+    test('sends every file with the prompt in a single turn, in the order they were sent', async () => {
+        const { client, sentMessages } = createScriptedClient([{ text: 'Three tasks from the whiteboard.' }]);
+
+        const result = await processMediaWithGemini(client, 'media-single-turn', FILES, 'Turn these into tasks', false);
+
+        assert.equal(result.responseText, 'Three tasks from the whiteboard.');
+        assert.equal(sentMessages.length, 1);
+        const parts = sentMessages[0] as Part[];
+        assert.deepEqual(parts.map(part => part.fileData?.fileUri ?? part.text), [...FILES.map(file => file.fileUri), 'Turn these into tasks']);
+
+        const memory = await getChatMemory('media-single-turn');
+        assert.deepEqual(memory.turns[0].parts.map(part => part.fileData?.fileUri ?? part.text), [...FILES.map(file => file.fileUri), 'Turn these into tasks']);
+    });
+
+    test('names the media it could not understand', async () => {
+        const { client } = createScriptedClient(() => { throw new Error('unavailable'); });
+
+        assert.match((await processMediaWithGemini(client, 'media-error', FILES.slice(2), 'Transcribe', false)).responseText, /your audio\./);
+        assert.match((await processMediaWithGemini(client, 'media-error', FILES, 'Transcribe', false)).responseText, /your files\./);
+    });
+});
+
+describe('media in the history', () => {
+    test('is replaced with a note once the Gemini Files API has deleted it', async () => {
+        await appendChatTurn('history-expired', [
+            { fileData: { fileUri: 'https://files.example.com/expired', mimeType: 'image/jpeg', expiresAt: Date.now() - 1 } },
+            { fileData: { fileUri: 'https://files.example.com/current', mimeType: 'image/png', expiresAt: Date.now() + 60000 } },
+            { text: 'What is this?' },
+        ], 'A whiteboard.');
+        const { client, histories } = createScriptedClient([{ text: 'Sure.' }]);
+
+        await generateGeminiChatResponse(client, 'history-expired', 'Thanks', false);
+
+        const [expired, current] = histories[0][0].parts!;
+        assert.ok(expired.text && !expired.fileData);
+        assert.deepEqual(current, { fileData: { fileUri: 'https://files.example.com/current', mimeType: 'image/png' } });
+    });
+
+    test('is left out when a request referencing it fails', async () => {
+        await appendChatTurn('history-gone', [{ fileData: { fileUri: 'https://files.example.com/gone', mimeType: 'image/jpeg' } }], 'A receipt.');
+        const responses = [() => { throw new Error('File not found.'); }, () => ({ text: 'Still here.' })];
+        const { client, histories } = createScriptedClient(() => responses.shift()!());
+
+        const result = await generateGeminiChatResponse(client, 'history-gone', 'How much was it?', false);
+
+        assert.equal(result.responseText, 'Still here.');
+        const [file] = histories[1][0].parts!;
+        assert.ok(file.text && !file.fileData);
+    });
+});
@@ -0,0 +1,124 @@
+/**
+ * @file gtasks.test.ts
+ * @description Unit tests for `gtasks.ts`: tasks are offered for selection with their IDs, and an
+ * action on a task whose title isn't unique changes that task and no other.
+ */
+
+process.env.STORAGE_BACKEND = 'memory';
+
+import { afterEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { google, tasks_v1 } from 'googleapis';
+import * as GAuth from '../src/components/gauth';
+import { completeGoogleTask, deleteGoogleTask, getFormattedTasksPage, getTaskRefs, TASKS_PER_PAGE } from '../src/components/gtasks';
+
+const LIST_ID = 'list-work';
+
+// Two tasks with a "Review" step each.
+const TASKS: tasks_v1.Schema$Task[] = [
+    { id: 'launch', title: 'Launch blog post', status: 'needsAction', position: '1' },
+    { id: 'launch-review', title: 'Review', status: 'needsAction', position: '1', parent: 'launch' },
+    { id: 'talk', title: 'Prepare conference talk', status: 'needsAction', position: '2' },
+    { id: 'talk-review', title: 'Review', status: 'needsAction', position: '1', parent: 'talk' },
+];
+
+/**
+ * Stubs the Google Tasks API with a single list holding the given tasks, recording the tasks
+ * that get deleted or changed.
+ * @param tasks The tasks of the list.
+ * @returns The IDs of the deleted and of the changed tasks, in the order of the calls.
+ */
+function stubTasksApi(tasks: tasks_v1.Schema$Task[]): { deleted: string[]; patched: string[] } {
+    const calls = { deleted: [] as string[], patched: [] as string[] };
+    const service = {
+        tasklists: {
+            get: async () => ({ data: { id: LIST_ID, title: 'Work' } }),
+        },
+        tasks: {
+            list: async ({ showCompleted }: tasks_v1.Params$Resource$Tasks$List) => ({
+                data: { items: tasks.filter(task => showCompleted || task.status !== 'completed') },
+            }),
+            delete: async ({ task }: tasks_v1.Params$Resource$Tasks$Delete) => {
+                calls.deleted.push(task!);
+                return { data: {} };
+            },
+            patch: async ({ task }: tasks_v1.Params$Resource$Tasks$Patch) => {
+                calls.patched.push(task!);
+                return { data: {} };
+            },
+        },
+    };
+    mock.method(GAuth, 'getAuthenticatedClient', async () => ({}));
+    // The client factory's overloads don't fit `mock.method`'s typing, hence the narrower view of it.
+    mock.method(google as unknown as { tasks: () => typeof service }, 'tasks', () => service);
+    return calls;
+}
+
+/**
+ * Creates more top-level tasks than fit on a page, each with two steps, in the shuffled order in
+ * which the API may return them.
+ * @returns The tasks of the list.
+ */
+function createLongList(): tasks_v1.Schema$Task[] {
+    const tasks: tasks_v1.Schema$Task[] = [];
+    for (let i = TASKS_PER_PAGE + 2; i >= 1; i--) {
+        const position = String(i).padStart(2, '0');
+        tasks.push(
+            { id: `step-${i}-b`, title: `Step ${i}b`, status: 'needsAction', position: '2', parent: `task-${i}` },
+            { id: `task-${i}`, title: `Task ${i}`, status: 'needsAction', position },
+            { id: `step-${i}-a`, title: `Step ${i}a`, status: 'needsAction', position: '1', parent: `task-${i}` },
+        );
+    }
+    return tasks;
+}
+
+afterEach(() => mock.restoreAll());
+
+describe('getTaskRefs', () => {
+    test('identifies each task by its ID, naming the parent of each step', async () => {
+        stubTasksApi(TASKS);
+        assert.deepEqual(await getTaskRefs('user', 'needsAction', LIST_ID), [
+            { id: 'launch', title: 'Launch blog post' },
+            { id: 'launch-review', title: 'Review', parentTitle: 'Launch blog post' },
+            { id: 'talk', title: 'Prepare conference talk' },
+            { id: 'talk-review', title: 'Review', parentTitle: 'Prepare conference talk' },
+        ]);
+    });
+
+    test('numbers tasks as they are listed, across pages and including steps', async () => {
+        stubTasksApi(createLongList());
+
+        const listedTitles: string[] = [];
+        for (let page = 1; ; page++) {
+            const formatted = await getFormattedTasksPage('user', false, LIST_ID, page);
+            assert.equal(typeof formatted, 'object');
+            if (typeof formatted === 'string') return;
+            // Top-level tasks read "*1. Title*", steps read "2. ↳ Title".
+            for (const [, number, title] of formatted.text.matchAll(/^\s*\*?(\d+)\. (?:↳ )?(.+?)\*?$/gm)) {
+                assert.equal(Number(number), listedTitles.length + 1);
+                listedTitles.push(title);
+            }
+            if (page === formatted.totalPages) break;
+        }
+
+        const taskRefs = await getTaskRefs('user', 'needsAction', LIST_ID);
+        assert.equal(listedTitles.length, (TASKS_PER_PAGE + 2) * 3);
+        assert.deepEqual(taskRefs?.map(task => task.title), listedTitles);
+    });
+});
+
+describe('actions on tasks sharing a title', () => {
+    test('complete the chosen task, not the first one with its title', async () => {
+        const calls = stubTasksApi(TASKS);
+        const result = await completeGoogleTask('user', { id: 'talk-review', title: 'Review' }, LIST_ID);
+        assert.equal(result.success, true);
+        assert.deepEqual(calls.patched, ['talk-review']);
+    });
+
+    test('delete the chosen task, not the first one with its title', async () => {
+        const calls = stubTasksApi(TASKS);
+        const result = await deleteGoogleTask('user', { id: 'talk-review', title: 'Review' }, LIST_ID);
+        assert.equal(result.success, true);
+        assert.deepEqual(calls.deleted, ['talk-review']);
+    });
+});
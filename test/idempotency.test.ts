@@ -0,0 +1,122 @@
+/**
+ * @file idempotency.test.ts
+ * @description Unit tests for `idempotency.ts`: a message is only claimed once while it is
+ * remembered, and a redelivery gets the replies that could not be sent the first time.
+ */
+
+process.env.STORAGE_BACKEND = 'memory';
+
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    claimMessage, deliverReplies, getRepliesToResend, recordReplies, releaseMessage, sweepExpiredMessages,
+} from '../src/components/idempotency';
+
+const NOW = Date.parse('2026-10-18T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+beforeEach(() => mock.timers.enable({ apis: ['Date'], now: NOW }));
+
+afterEach(() => mock.timers.reset());
+
+describe('claimMessage', () => {
+    test('claims a new message once, and reports the earlier delivery afterwards', async () => {
+        assert.equal(await claimMessage('SM-once'), null);
+        assert.deepEqual(await claimMessage('SM-once'), { delivered: false });
+    });
+
+    test('lets only one of two simultaneous deliveries claim the message', async () => {
+        const results = await Promise.all([claimMessage('SM-twice'), claimMessage('SM-twice')]);
+        assert.equal(results.filter(result => result === null).length, 1);
+    });
+
+    test('claims a message again once its record expired', async () => {
+        await claimMessage('SM-expired');
+        mock.timers.setTime(NOW + DAY_MS - 1);
+        assert.notEqual(await claimMessage('SM-expired'), null);
+
+        mock.timers.setTime(NOW + DAY_MS);
+        assert.equal(await claimMessage('SM-expired'), null);
+    });
+
+    test('claims a released message again', async () => {
+        await claimMessage('SM-released');
+        await releaseMessage('SM-released');
+        assert.equal(await claimMessage('SM-released'), null);
+    });
+});
+
+describe('redeliveries', () => {
+    test('resend the replies that could not be delivered', async () => {
+        await claimMessage('SM-undelivered');
+        await recordReplies('SM-undelivered', ['Task created!', 'Anything else?'], false);
+
+        const earlierDelivery = await claimMessage('SM-undelivered');
+        assert.deepEqual(getRepliesToResend(earlierDelivery!), ['Task created!', 'Anything else?']);
+    });
+
+    test("don't resend replies that were delivered", async () => {
+        await claimMessage('SM-delivered');
+        await recordReplies('SM-delivered', ['Task created!'], false);
+        await recordReplies('SM-delivered', ['Task created!'], true);
+
+        assert.deepEqual(getRepliesToResend((await claimMessage('SM-delivered'))!), []);
+    });
+
+    test('get nothing while the message is still being processed', async () => {
+        await claimMessage('SM-processing');
+        assert.deepEqual(getRepliesToResend((await claimMessage('SM-processing'))!), []);
+    });
+
+    test('never bring back a record that was already forgotten', async () => {
+        await recordReplies('SM-forgotten', ['Task created!'], false);
+        assert.equal(await claimMessage('SM-forgotten'), null);
+    });
+});
+
+describe('deliverReplies', () => {
+    test('retries a failed send, and records the replies as delivered', async () => {
+        await claimMessage('SM-retried');
+        const sent: string[] = [];
+        let failures = 1;
+        const send = async (body: string) => {
+            if (failures-- > 0) throw new Error('Twilio is unavailable.');
+            sent.push(body);
+        };
+
+        assert.equal(await deliverReplies('SM-retried', ['Task created!', 'Anything else?'], send), true);
+        assert.deepEqual(sent, ['Task created!', 'Anything else?']);
+        assert.deepEqual(getRepliesToResend((await claimMessage('SM-retried'))!), []);
+    });
+
+    test('keeps the replies it could not send for a redelivery, without throwing', async () => {
+        await claimMessage('SM-unsent');
+        const sent: string[] = [];
+        const send = async (body: string) => {
+            if (sent.length === 1) throw new Error('Twilio is unavailable.');
+            sent.push(body);
+        };
+
+        assert.equal(await deliverReplies('SM-unsent', ['Task created!', 'Anything else?'], send), false);
+        assert.deepEqual(sent, ['Task created!']);
+        assert.deepEqual(getRepliesToResend((await claimMessage('SM-unsent'))!), ['Anything else?']);
+    });
+});
+
+describe('sweepExpiredMessages', () => {
+    test('removes only the records whose time-to-live has passed', async () => {
+        // Start after the records of the other tests expired, and without them.
+        const start = NOW + 10 * DAY_MS;
+        mock.timers.setTime(start);
+        await sweepExpiredMessages();
+
+        await claimMessage('SM-old');
+        mock.timers.setTime(start + DAY_MS / 2);
+        await claimMessage('SM-recent');
+
+        mock.timers.setTime(start + DAY_MS);
+        assert.equal(await sweepExpiredMessages(), 1);
+        assert.notEqual(await claimMessage('SM-recent'), null);
+        assert.equal(await claimMessage('SM-old'), null);
+    });
+});
@@ -0,0 +1,57 @@
+/**
+ * @file intent.test.ts
+ * @description Unit tests for `intent.ts`: confident classifications are followed, and unsure or
+ * missing ones fall back to the intent of the previous message, then to task mode.
+ */
+
+process.env.STORAGE_BACKEND = 'memory';
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GoogleGenAI } from '@google/genai';
+import { routeMessage } from '../src/components/intent';
+import { getLastIntent, setLastIntent } from '../src/components/chatstate';
+
+/**
+ * Creates a stand-in for the Gemini client whose classifier answers with the given text.
+ * @param responseText The raw JSON the classifier returns, or an error it throws.
+ * @returns The client.
+ */
+function createClassifier(responseText: string | Error): GoogleGenAI {
+    return {
+        models: {
+            async generateContent() {
+                if (responseText instanceof Error) throw responseText;
+                return { text: responseText };
+            },
+        },
+    } as unknown as GoogleGenAI;
+}
+
+describe('routeMessage', () => {
+    test('follows a confident classification and remembers it', async () => {
+        await setLastIntent('intent-confident', 'task');
+        assert.equal(await routeMessage(createClassifier('{"intent":"chat","confidence":0.9}'), 'intent-confident', 'What is the capital of Peru?'), 'chat');
+        assert.equal(await getLastIntent('intent-confident'), 'chat');
+    });
+
+    test('routes an unsure follow-up like the message before it', async () => {
+        await setLastIntent('intent-follow-up', 'task');
+        assert.equal(await routeMessage(createClassifier('{"intent":"chat","confidence":0.4}'), 'intent-follow-up', 'make it Friday'), 'task');
+    });
+
+    test('takes an unsure classification when there is no previous message', async () => {
+        assert.equal(await routeMessage(createClassifier('{"intent":"chat","confidence":0.4}'), 'intent-unsure', 'hmm'), 'chat');
+    });
+
+    test('falls back to task mode when the classification is missing or invalid', async () => {
+        assert.equal(await routeMessage(createClassifier(new Error('unavailable')), 'intent-error', 'Buy milk'), 'task');
+        assert.equal(await routeMessage(createClassifier('not json'), 'intent-not-json', 'Buy milk'), 'task');
+        assert.equal(await routeMessage(createClassifier('{"intent":"shopping","confidence":1}'), 'intent-unknown', 'Buy milk'), 'task');
+    });
+
+    test('falls back to the previous message when the classifier fails', async () => {
+        await setLastIntent('intent-error-follow-up', 'chat');
+        assert.equal(await routeMessage(createClassifier(new Error('unavailable')), 'intent-error-follow-up', 'and in French?'), 'chat');
+    });
+});
@@ -0,0 +1,203 @@
+/**
+ * @file jobs.test.ts
+ * @description Unit tests for `jobs.ts`: messages are processed in the background and in order per
+ * user, the user is told when one is slow or fails, and a durable job abandoned by its instance is
+ * taken over, or given up on if it keeps failing.
+ */
+
+process.env.STORAGE_BACKEND = 'memory';
+process.env.SLOW_JOB_NOTICE_SECONDS = '0.1';
+process.env.JOB_LEASE_SECONDS = '0.3';
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { IncomingMessage, MessageJobHandlers, SenderLine, StoredMessageJob } from '../src/types/jobs';
+import { createDurableJobQueue, createInProcessJobQueue } from '../src/components/jobs';
+import { getDocument, setDocument } from '../src/components/storage';
+
+/**
+ * Creates a message with no media.
+ * @param messageSid The message's identifier.
+ * @param senderId The sender's unique identifier.
+ * @returns The message.
+ */
+function createMessage(messageSid: string, senderId: string): IncomingMessage {
+    return { messageSid, senderId, body: messageSid, media: [] };
+}
+
+/**
+ * Creates queue handlers that take some time to process each message and log what happens to it.
+ * @param log Where the events are logged, as "start:<sid>", "end:<sid>", "slow:<sid>" and "failed:<sid>".
+ * @param durationMs How long processing a message takes.
+ * @param failing The identifiers of the messages whose processing fails.
+ * @returns The handlers.
+ */
+function createRecordingHandlers(log: string[], durationMs: number, failing: string[] = []): MessageJobHandlers {
+    return {
+        async process(message) {
+            log.push(`start:${message.messageSid}`);
+            await new Promise(resolve => setTimeout(resolve, durationMs));
+            if (failing.includes(message.messageSid)) {
+                throw new Error('Processing failed.');
+            }
+            log.push(`end:${message.messageSid}`);
+        },
+        async onSlow(message) {
+            log.push(`slow:${message.messageSid}`);
+        },
+        async onFailure(message) {
+            log.push(`failed:${message.messageSid}`);
+        },
+    };
+}
+
+/**
+ * Waits until a condition holds, checking it every few milliseconds.
+ * @param condition The condition.
+ * @param timeoutMs How long to wait before failing.
+ */
+async function waitUntil(condition: () => boolean, timeoutMs: number = 10000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+        assert.ok(Date.now() < deadline, 'Timed out waiting for the jobs to finish.');
+        await new Promise(resolve => setTimeout(resolve, 20));
+    }
+}
+
+/**
+ * Stores a durable job as an instance would have left it.
+ * @param messageSid The message's identifier.
+ * @param changes The fields that differ from a job waiting to be processed.
+ */
+async function storeJob(messageSid: string, changes: Partial<StoredMessageJob>): Promise<void> {
+    await setDocument<StoredMessageJob>('message-jobs', messageSid, {
+        message: createMessage(messageSid, `user-${messageSid}`),
+        enqueuedAt: Date.now(),
+        attempts: 0,
+        leaseOwner: null,
+        leaseExpiresAt: 0,
+        ...changes,
+    });
+}
+
+describe('in-process queue', () => {
+    test('processes messages in the background and tells the user when one fails', async () => {
+        const log: string[] = [];
+        const queue = createInProcessJobQueue(createRecordingHandlers(log, 10, ['SM-broken']));
+
+        await queue.enqueue(createMessage('SM-fine', 'user-in-process'));
+        await queue.enqueue(createMessage('SM-broken', 'user-in-process'));
+        assert.ok(!log.includes('end:SM-fine'), 'Enqueuing must not wait for the message to be processed.');
+        await waitUntil(() => log.includes('end:SM-fine') && log.includes('failed:SM-broken'));
+    });
+
+    test('tells the user once when a message takes a while', async () => {
+        const log: string[] = [];
+        const queue = createInProcessJobQueue(createRecordingHandlers(log, 300));
+
+        await queue.enqueue(createMessage('SM-slow', 'user-slow'));
+        await waitUntil(() => log.includes('end:SM-slow'));
+
+        assert.deepEqual(log, ['start:SM-slow', 'slow:SM-slow', 'end:SM-slow']);
+    });
+});
+
+describe('per-sender ordering', () => {
+    test("processes a user's messages one at a time, in the order they arrived", async () => {
+        const log: string[] = [];
+        const queue = createInProcessJobQueue(createRecordingHandlers(log, 50));
+
+        await queue.enqueue(createMessage('SM-photo', 'user-ordered'));
+        await queue.enqueue(createMessage('SM-caption', 'user-ordered'));
+        await waitUntil(() => log.includes('end:SM-caption'));
+
+        assert.deepEqual(log.filter(event => !event.startsWith('slow:')), ['start:SM-photo', 'end:SM-photo', 'start:SM-caption', 'end:SM-caption']);
+    });
+
+    test('keeps the place of a message that waits longer than a lease', async () => {
+        const log: string[] = [];
+        const firstInstance = createInProcessJobQueue(createRecordingHandlers(log, 1200));
+        const secondInstance = createInProcessJobQueue(createRecordingHandlers(log, 10));
+
+        await firstInstance.enqueue(createMessage('SM-video', 'user-waiting'));
+        await firstInstance.enqueue(createMessage('SM-question', 'user-waiting'));
+        // Well past the lease of the waiting message, a later message arrives on another instance.
+        await new Promise(resolve => setTimeout(resolve, 800));
+        await secondInstance.enqueue(createMessage('SM-follow-up', 'user-waiting'));
+
+        const line = await getDocument<SenderLine>('sender-lines', 'user-waiting');
+        assert.deepEqual(line!.entries.map(entry => entry.messageSid), ['SM-video', 'SM-question', 'SM-follow-up']);
+        await waitUntil(() => log.includes('end:SM-follow-up') && log.includes('end:SM-question'));
+        assert.ok(log.indexOf('end:SM-question') < log.indexOf('start:SM-follow-up'));
+    });
+
+    test('goes ahead when the messages before it take longer than the turn timeout', async () => {
+        process.env.SENDER_TURN_TIMEOUT_SECONDS = '0.5';
+        try {
+            // A message held by an instance that keeps renewing it but never finishes.
+            await setDocument<SenderLine>('sender-lines', 'user-stuck', { entries: [{ messageSid: 'SM-stuck', expiresAt: Date.now() + 60000 }] });
+            const log: string[] = [];
+            const queue = createInProcessJobQueue(createRecordingHandlers(log, 10));
+
+            const enqueuedAt = Date.now();
+            await queue.enqueue(createMessage('SM-next', 'user-stuck'));
+            await new Promise(resolve => setTimeout(resolve, 250));
+            assert.ok(!log.includes('start:SM-next'), 'The message must wait for its turn first.');
+            await waitUntil(() => log.includes('end:SM-next'));
+
+            assert.ok(Date.now() - enqueuedAt >= 500);
+            const line = await getDocument<SenderLine>('sender-lines', 'user-stuck');
+            assert.deepEqual(line!.entries.map(entry => entry.messageSid), ['SM-stuck']);
+        } finally {
+            delete process.env.SENDER_TURN_TIMEOUT_SECONDS;
+        }
+    });
+});
+
+describe('durable queue', () => {
+    test('persists a message before processing it, and forgets it once processed', async () => {
+        const log: string[] = [];
+        const queue = createDurableJobQueue(createRecordingHandlers(log, 50));
+
+        await queue.enqueue(createMessage('SM-durable', 'user-durable'));
+        assert.ok(await getDocument('message-jobs', 'SM-durable'));
+        await waitUntil(() => log.includes('end:SM-durable'));
+
+        await new Promise(resolve => setTimeout(resolve, 50));
+        assert.equal(await getDocument('message-jobs', 'SM-durable'), null);
+    });
+
+    test('takes over a job whose instance went away', async () => {
+        await storeJob('SM-abandoned', { attempts: 1, leaseOwner: 'stopped-instance', leaseExpiresAt: Date.now() - 1 });
+        const log: string[] = [];
+
+        createDurableJobQueue(createRecordingHandlers(log, 10));
+        await waitUntil(() => log.includes('end:SM-abandoned'));
+
+        await new Promise(resolve => setTimeout(resolve, 50));
+        assert.equal(await getDocument('message-jobs', 'SM-abandoned'), null);
+    });
+
+    test('leaves a job alone while its instance holds the lease', async () => {
+        await storeJob('SM-leased', { attempts: 1, leaseOwner: 'running-instance', leaseExpiresAt: Date.now() + 60000 });
+        const log: string[] = [];
+
+        createDurableJobQueue(createRecordingHandlers(log, 10));
+        await new Promise(resolve => setTimeout(resolve, 200));
+
+        assert.deepEqual(log, []);
+        assert.equal((await getDocument<StoredMessageJob>('message-jobs', 'SM-leased'))!.leaseOwner, 'running-instance');
+    });
+
+    test('gives up on a job that every instance abandoned, telling the user', async () => {
+        await storeJob('SM-poison', { attempts: 2, leaseOwner: 'crashed-instance', leaseExpiresAt: Date.now() - 1 });
+        const log: string[] = [];
+
+        createDurableJobQueue(createRecordingHandlers(log, 10));
+        await waitUntil(() => log.includes('failed:SM-poison'));
+
+        assert.ok(!log.includes('start:SM-poison'));
+        await new Promise(resolve => setTimeout(resolve, 50));
+        assert.equal(await getDocument('message-jobs', 'SM-poison'), null);
+    });
+});
@@ -0,0 +1,147 @@
+/**
+ * @file matching.test.ts
+ * @description Unit tests for `matching.ts`: scoring task titles against a user's reference,
+ * matching a reference without Gemini, and reading replies that pick tasks by position or confirm
+ * a batch of deletions.
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TaskRef } from '../src/types/chat';
+import { describeTask, findAllMatchingTasks, isConfirmation, matchTask, parsePositions, scoreTaskTitle } from '../src/components/matching';
+
+const TASKS: TaskRef[] = ['Buy milk', 'Prepare demo slides', 'Review demo script', 'Write quarterly report']
+    .map((title, i) => ({ id: `task-${i + 1}`, title }));
+
+// Two steps sharing a title, under different tasks.
+const REVIEW_STEPS: TaskRef[] = [
+    { id: 'launch-review', title: 'Review', parentTitle: 'Launch blog post' },
+    { id: 'talk-review', title: 'Review', parentTitle: 'Prepare conference talk' },
+];
+
+describe('scoreTaskTitle', () => {
+    test('scores an identical reference as a perfect match', () => {
+        assert.equal(scoreTaskTitle('buy milk', 'Buy milk'), 1);
+    });
+
+    test('ignores filler words, accents and punctuation', () => {
+        assert.equal(scoreTaskTitle('the milk one', 'Buy milk!'), scoreTaskTitle('milk', 'Buy milk'));
+        assert.equal(scoreTaskTitle('relatório', 'Relatorio'), 1);
+    });
+
+    test('tolerates plurals and small typos', () => {
+        assert.ok(scoreTaskTitle('slide', 'Slides') >= 0.8);
+        assert.ok(scoreTaskTitle('reprot', 'Report') >= 0.8);
+        assert.ok(scoreTaskTitle('demo slide', 'Prepare demo slides') >= 0.8);
+    });
+
+    test('prefers the title with fewer extra words', () => {
+        assert.ok(scoreTaskTitle('demo', 'Demo') > scoreTaskTitle('demo', 'Prepare demo slides'));
+    });
+
+    test('scores unrelated or empty references as 0', () => {
+        assert.equal(scoreTaskTitle('car', 'Buy milk'), 0);
+        assert.equal(scoreTaskTitle('the one', 'Buy milk'), 0);
+    });
+});
+
+describe('matchTask', () => {
+    test('matches an exact title, ignoring case', async () => {
+        assert.deepEqual(await matchTask(null, 'test', 'buy MILK', TASKS), { kind: 'confident', task: TASKS[0] });
+    });
+
+    test('matches a position in the list', async () => {
+        assert.deepEqual(await matchTask(null, 'test', '#3', TASKS), { kind: 'confident', task: TASKS[2] });
+        assert.deepEqual(await matchTask(null, 'test', 'the 2nd one', TASKS), { kind: 'confident', task: TASKS[1] });
+        assert.deepEqual(await matchTask(null, 'test', '9', TASKS), { kind: 'none' });
+    });
+
+    test('matches a clear winner by its words', async () => {
+        assert.deepEqual(await matchTask(null, 'test', 'the report', TASKS), { kind: 'confident', task: TASKS[3] });
+    });
+
+    test('offers the close candidates when the reference is ambiguous', async () => {
+        const match = await matchTask(null, 'test', 'demo', TASKS);
+        assert.equal(match.kind, 'ambiguous');
+        assert.deepEqual(match.kind === 'ambiguous' && match.candidates.map(task => task.id).sort(), ['task-2', 'task-3']);
+    });
+
+    test('finds nothing when no title is alike', async () => {
+        assert.deepEqual(await matchTask(null, 'test', 'walk the dog', TASKS), { kind: 'none' });
+    });
+
+    test('offers every task sharing a title instead of picking one', async () => {
+        assert.deepEqual(await matchTask(null, 'test', 'Review', REVIEW_STEPS), { kind: 'ambiguous', candidates: REVIEW_STEPS });
+    });
+
+    test('tells tasks sharing a title apart by their position', async () => {
+        assert.deepEqual(await matchTask(null, 'test', '2', REVIEW_STEPS), { kind: 'confident', task: REVIEW_STEPS[1] });
+    });
+});
+
+describe('parsePositions', () => {
+    test('reads lists of positions', () => {
+        assert.deepEqual(parsePositions('1, 3 and 5', 5), [1, 3, 5]);
+        assert.deepEqual(parsePositions('1 e 3', 5), [1, 3]);
+        assert.deepEqual(parsePositions('4 2', 5), [4, 2]);
+    });
+
+    test('reads ranges', () => {
+        assert.deepEqual(parsePositions('2-4', 5), [2, 3, 4]);
+        assert.deepEqual(parsePositions('1, 3 - 5', 5), [1, 3, 4, 5]);
+        assert.deepEqual(parsePositions('2 to 3', 5), [2, 3]);
+    });
+
+    test('reads "all" as every position', () => {
+        assert.deepEqual(parsePositions('all', 3), [1, 2, 3]);
+        assert.deepEqual(parsePositions('Todas', 2), [1, 2]);
+    });
+
+    test('drops repeated positions', () => {
+        assert.deepEqual(parsePositions('1, 1-2', 3), [1, 2]);
+    });
+
+    test('rejects positions that are not listed', () => {
+        assert.equal(parsePositions('0', 3), null);
+        assert.equal(parsePositions('2-4', 3), null);
+        assert.equal(parsePositions('3-1', 3), null);
+    });
+
+    test('rejects replies that are not only positions', () => {
+        assert.equal(parsePositions('the milk one', 3), null);
+        assert.equal(parsePositions('1 and the milk', 3), null);
+        assert.equal(parsePositions('', 3), null);
+    });
+});
+
+describe('findAllMatchingTasks', () => {
+    test('finds every task a description applies to, in list order', () => {
+        assert.deepEqual(findAllMatchingTasks('demo', TASKS), [TASKS[1], TASKS[2]]);
+        assert.deepEqual(findAllMatchingTasks('dog', TASKS), []);
+    });
+
+    test('keeps every task sharing a title', () => {
+        assert.deepEqual(findAllMatchingTasks('review', REVIEW_STEPS), REVIEW_STEPS);
+    });
+});
+
+describe('describeTask', () => {
+    test('names the task a step belongs to', () => {
+        assert.equal(describeTask(TASKS[0]), 'Buy milk');
+        assert.equal(describeTask(REVIEW_STEPS[0]), 'Review (step of "Launch blog post")');
+    });
+});
+
+describe('isConfirmation', () => {
+    test('accepts a plain yes, in any language the bot speaks', () => {
+        for (const reply of ['yes', 'Yes!', ' ok ', 'sim', 'Sí', 'confirm']) {
+            assert.equal(isConfirmation(reply), true, reply);
+        }
+    });
+
+    test('treats anything else as no confirmation', () => {
+        for (const reply of ['no', 'cancel', 'yes but only the first', 'add milk', '']) {
+            assert.equal(isConfirmation(reply), false, reply);
+        }
+    });
+});
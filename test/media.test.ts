@@ -0,0 +1,123 @@
+/**
+ * @file media.test.ts
+ * @description Unit tests for `media.ts`: attachments are refused by type before any download and
+ * by size as soon as it is known, and the janitor removes leftover local files and media that was
+ * never given instructions.
+ */
+
+process.env.STORAGE_BACKEND = 'memory';
+process.env.MAX_MEDIA_SIZE_MB = '1';
+
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import path from 'path';
+import { GoogleGenAI } from '@google/genai';
+import { downloadMedia, MediaRejectedError, MediaRejectionReason, runMediaJanitor } from '../src/components/media';
+import { consumePendingMedia, setPendingMedia } from '../src/components/chatstate';
+import { setDocument } from '../src/components/storage';
+
+const MB_IN_BYTES = 1024 * 1024;
+const MEDIA_DIR = path.join('/tmp', 'media');
+
+let server: http.Server;
+let baseUrl: string;
+const requestedPaths: string[] = [];
+
+before(async () => {
+    // '/small' announces its size; '/large' announces too much; '/chunked' sends too much without announcing it.
+    server = http.createServer((req, res) => {
+        requestedPaths.push(req.url!);
+        if (req.url === '/small') {
+            res.setHeader('Content-Length', 5);
+            res.end('hello');
+        } else if (req.url === '/large') {
+            res.setHeader('Content-Length', 2 * MB_IN_BYTES);
+            res.end(Buffer.alloc(2 * MB_IN_BYTES));
+        } else {
+            for (let i = 0; i < 3; i++) res.write(Buffer.alloc(MB_IN_BYTES / 2));
+            res.end();
+        }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+    server.close();
+});
+
+/**
+ * Asserts that a download is refused for the given reason.
+ * @param promise The download.
+ * @param reason The expected reason.
+ */
+async function assertRejectedMedia(promise: Promise<unknown>, reason: MediaRejectionReason): Promise<void> {
+    await assert.rejects(promise, (error: unknown) => error instanceof MediaRejectedError && error.reason === reason);
+}
+
+/**
+ * Lists the local media files of a user.
+ * @param senderId The user's unique identifier.
+ * @returns The file names.
+ */
+function listLocalFiles(senderId: string): string[] {
+    return fs.existsSync(MEDIA_DIR) ? fs.readdirSync(MEDIA_DIR).filter(fileName => fileName.startsWith(senderId)) : [];
+}
+
+describe('downloadMedia', () => {
+    test('saves an attachment within the size limit', async () => {
+        const filePath = await downloadMedia(`${baseUrl}/small`, 'image/jpeg', 'download-small');
+        assert.equal(fs.readFileSync(filePath, 'utf8'), 'hello');
+        assert.ok(filePath.endsWith('.jpeg'));
+        fs.unlinkSync(filePath);
+    });
+
+    test('refuses an unsupported type without downloading it', async () => {
+        await assertRejectedMedia(downloadMedia(`${baseUrl}/unsupported`, 'application/zip', 'download-unsupported'), 'unsupported');
+        assert.ok(!requestedPaths.includes('/unsupported'));
+    });
+
+    test('refuses an attachment announced as too large', async () => {
+        await assertRejectedMedia(downloadMedia(`${baseUrl}/large`, 'video/mp4', 'download-large'), 'too_large');
+        assert.deepEqual(listLocalFiles('download-large'), []);
+    });
+
+    test('stops a download that grows past the limit and deletes what was received', async () => {
+        await assertRejectedMedia(downloadMedia(`${baseUrl}/chunked`, 'video/mp4', 'download-chunked'), 'too_large');
+        assert.deepEqual(listLocalFiles('download-chunked'), []);
+    });
+});
+
+describe('runMediaJanitor', () => {
+    test('deletes local files left behind, and keeps the ones still being uploaded', async () => {
+        fs.mkdirSync(MEDIA_DIR, { recursive: true });
+        const leftBehind = path.join(MEDIA_DIR, 'janitor-local-old.jpeg');
+        const recent = path.join(MEDIA_DIR, 'janitor-local-new.jpeg');
+        fs.writeFileSync(leftBehind, 'old');
+        fs.writeFileSync(recent, 'new');
+        const anHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+        fs.utimesSync(leftBehind, anHourAgo, anHourAgo);
+
+        await runMediaJanitor({ files: { delete: async () => undefined } } as unknown as GoogleGenAI);
+
+        assert.deepEqual(listLocalFiles('janitor-local'), ['janitor-local-new.jpeg']);
+        fs.unlinkSync(recent);
+    });
+
+    test('deletes the uploaded copies of media that never got instructions', async () => {
+        const deletedFiles: string[] = [];
+        const aiClient = { files: { delete: async ({ name }: { name: string }) => { deletedFiles.push(name); } } } as unknown as GoogleGenAI;
+        const file = { fileUri: 'https://files.example.com/forgotten', mimeType: 'image/jpeg' };
+        await setDocument('pending-media', 'janitor-expired', { value: [file], expiresAt: Date.now() - 1 });
+        await setPendingMedia('janitor-waiting', [{ fileUri: 'https://files.example.com/waiting', mimeType: 'image/jpeg' }]);
+
+        const summary = await runMediaJanitor(aiClient);
+
+        assert.deepEqual(deletedFiles, [file.fileUri]);
+        assert.equal(summary.pendingMediaExpired, 1);
+        assert.ok(await consumePendingMedia('janitor-waiting'), 'Media still waiting for instructions is kept.');
+    });
+});
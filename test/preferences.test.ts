@@ -0,0 +1,61 @@
+/**
+ * @file preferences.test.ts
+ * @description Unit tests for `preferences.ts`: every `/settings` value is validated and normalized
+ * before it is stored, and anything invalid is explained back to the user.
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { UserPreferences } from '../src/types/chat';
+import { parsePreferenceChange } from '../src/components/preferences';
+
+describe('parsePreferenceChange', () => {
+    const validChanges: [string, string, Partial<UserPreferences>][] = [
+        ['timezone', 'America/Sao_Paulo', { timeZone: 'America/Sao_Paulo' }],
+        ['tz', 'europe/lisbon', { timeZone: 'Europe/Lisbon' }],
+        ['language', 'pt-br', { locale: 'pt-BR' }],
+        ['lang', 'es', { locale: 'es' }],
+        ['locale', 'auto', { locale: null }],
+        ['due', 'next business day', { defaultDueDate: 'next_business_day' }],
+        ['due', 'Tomorrow', { defaultDueDate: 'tomorrow' }],
+        ['due', 'none', { defaultDueDate: 'none' }],
+        ['search', 'off', { googleSearchEnabled: false }],
+        ['search', 'Yes', { googleSearchEnabled: true }],
+        ['reminders', 'false', { remindersEnabled: false }],
+        ['digest', '7', { digestHour: 7 }],
+        ['digest', '07:00', { digestHour: 7 }],
+        ['digest', 'on', { digestHour: 8 }],
+        ['digest', 'off', { digestHour: null }],
+        ['quiet', '22-8', { quietHours: { start: 22, end: 8 } }],
+        ['quiet', '13:00 - 15:00', { quietHours: { start: 13, end: 15 } }],
+        ['quiet', 'off', { quietHours: null }],
+        ['TIMEZONE', ' UTC ', { timeZone: 'UTC' }],
+    ];
+    for (const [name, value, expected] of validChanges) {
+        test(`accepts "${name} ${value}"`, () => {
+            assert.deepEqual(parsePreferenceChange(name, value), expected);
+        });
+    }
+
+    const invalidChanges: [string, string, RegExp][] = [
+        ['colour', 'blue', /Unknown setting "colour"/],
+        ['timezone', '', /tell me the new value/],
+        ['timezone', 'Mars/Olympus_Mons', /not a time zone I know/],
+        ['language', 'not a language!', /not a language code I know/],
+        ['due', 'someday', /must be one of: next_business_day, today, tomorrow, none/],
+        ['search', 'maybe', /only be turned "on" or "off"/],
+        ['reminders', '1', /only be turned "on" or "off"/],
+        ['digest', '24', /hour of your morning digest/],
+        ['digest', '8:30', /hour of your morning digest/],
+        ['quiet', '22', /quiet hours as "<start>-<end>"/],
+        ['quiet', '8-8', /quiet hours as "<start>-<end>"/],
+        ['quiet', 'on', /quiet hours as "<start>-<end>"/],
+    ];
+    for (const [name, value, expected] of invalidChanges) {
+        test(`rejects "${name} ${value}"`, () => {
+            const result = parsePreferenceChange(name, value);
+            assert.equal(typeof result, 'string');
+            assert.match(result as string, expected);
+        });
+    }
+});
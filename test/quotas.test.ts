@@ -0,0 +1,107 @@
+/**
+ * @file quotas.test.ts
+ * @description Unit tests for `quotas.ts`: usage is counted per window against each user's limits
+ * and the service's, and a user flooding the bot is only told once per minute.
+ */
+
+process.env.STORAGE_BACKEND = 'memory';
+
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkQuota, recordUsage } from '../src/components/quotas';
+
+const NOW = Date.parse('2026-10-18T12:00:10Z');
+const LIMIT_VARIABLES = [
+    'USER_MESSAGES_PER_MINUTE', 'GLOBAL_MESSAGES_PER_MINUTE', 'USER_MEDIA_MB_PER_DAY', 'GLOBAL_MEDIA_MB_PER_DAY',
+    'USER_TOKENS_PER_DAY', 'GLOBAL_TOKENS_PER_DAY',
+];
+
+/**
+ * Sets the limits for a test; every limit not given is turned off, and they are removed after each test.
+ * @param limits The environment variables of the limits.
+ */
+function setLimits(limits: Record<string, string>): void {
+    LIMIT_VARIABLES.forEach(name => process.env[name] = '0');
+    Object.assign(process.env, limits);
+}
+
+beforeEach(() => mock.timers.enable({ apis: ['Date'], now: NOW }));
+
+afterEach(() => {
+    mock.timers.reset();
+    LIMIT_VARIABLES.forEach(name => delete process.env[name]);
+});
+
+describe('checkQuota', () => {
+    test('allows usage up to the limit, and refuses past it', async () => {
+        setLimits({ USER_TOKENS_PER_DAY: '1000' });
+        await recordUsage('user-tokens', 'tokens', 900);
+
+        assert.deepEqual(await checkQuota('user-tokens', 'tokens', 100), { allowed: true });
+        assert.deepEqual(await checkQuota('user-tokens', 'tokens', 101), { allowed: false, scope: 'user', shouldNotify: true });
+    });
+
+    test('starts counting again in a new window', async () => {
+        setLimits({ USER_MESSAGES_PER_MINUTE: '1', USER_MEDIA_MB_PER_DAY: '1' });
+        await recordUsage('user-rollover', 'messages', 1);
+        await recordUsage('user-rollover', 'mediaBytes', 1024 * 1024);
+        assert.equal((await checkQuota('user-rollover', 'messages')).allowed, false);
+        assert.equal((await checkQuota('user-rollover', 'mediaBytes')).allowed, false);
+
+        mock.timers.setTime(Date.parse('2026-10-18T12:01:00Z'));
+        assert.equal((await checkQuota('user-rollover', 'messages')).allowed, true);
+        assert.equal((await checkQuota('user-rollover', 'mediaBytes')).allowed, false);
+
+        mock.timers.setTime(Date.parse('2026-10-19T00:00:00Z'));
+        assert.equal((await checkQuota('user-rollover', 'mediaBytes')).allowed, true);
+    });
+
+    test('tells a user over the message rate only once per minute', async () => {
+        setLimits({ USER_MESSAGES_PER_MINUTE: '2' });
+        await recordUsage('user-flood', 'messages', 2);
+
+        assert.deepEqual(await checkQuota('user-flood', 'messages'), { allowed: false, scope: 'user', shouldNotify: true });
+        assert.deepEqual(await checkQuota('user-flood', 'messages'), { allowed: false, scope: 'user', shouldNotify: false });
+        await recordUsage('user-flood', 'messages', 1);
+        assert.deepEqual(await checkQuota('user-flood', 'messages'), { allowed: false, scope: 'user', shouldNotify: false });
+
+        mock.timers.setTime(Date.parse('2026-10-18T12:01:00Z'));
+        await recordUsage('user-flood', 'messages', 2);
+        assert.deepEqual(await checkQuota('user-flood', 'messages'), { allowed: false, scope: 'user', shouldNotify: true });
+    });
+
+    test('tells a user over a daily quota every time', async () => {
+        setLimits({ USER_TOKENS_PER_DAY: '10' });
+        await recordUsage('user-daily', 'tokens', 10);
+
+        assert.deepEqual(await checkQuota('user-daily', 'tokens'), { allowed: false, scope: 'user', shouldNotify: true });
+        assert.deepEqual(await checkQuota('user-daily', 'tokens'), { allowed: false, scope: 'user', shouldNotify: true });
+    });
+
+    test("counts every user's usage against the service's limit", async () => {
+        setLimits({ USER_MEDIA_MB_PER_DAY: '5', GLOBAL_MEDIA_MB_PER_DAY: '3' });
+        await recordUsage('user-first', 'mediaBytes', 2 * 1024 * 1024);
+        await recordUsage('user-second', 'mediaBytes', 1024 * 1024);
+
+        assert.deepEqual(await checkQuota('user-third', 'mediaBytes'), { allowed: false, scope: 'global', shouldNotify: true });
+        assert.deepEqual(await checkQuota('user-first', 'mediaBytes', 4 * 1024 * 1024), { allowed: false, scope: 'user', shouldNotify: true });
+    });
+
+    test('ignores a limit of 0', async () => {
+        setLimits({});
+        await recordUsage('user-unlimited', 'tokens', 1e9);
+
+        assert.deepEqual(await checkQuota('user-unlimited', 'tokens', 1e9), { allowed: true });
+        assert.deepEqual(await checkQuota('user-unlimited', 'messages', 1e9), { allowed: true });
+    });
+});
+
+describe('recordUsage', () => {
+    test('ignores usage that is zero or not a number', async () => {
+        setLimits({ USER_TOKENS_PER_DAY: '1' });
+        await recordUsage('user-nothing', 'tokens', 0);
+        await recordUsage('user-nothing', 'tokens', NaN);
+
+        assert.deepEqual(await checkQuota('user-nothing', 'tokens'), { allowed: true });
+    });
+});
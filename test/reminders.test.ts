@@ -0,0 +1,127 @@
+/**
+ * @file reminders.test.ts
+ * @description Unit tests for `reminders.ts`: quiet hours, one reminder per due date, the morning
+ * digest standing in for reminders, WhatsApp's 24-hour messaging window, and users who may no
+ * longer use the bot.
+ */
+
+process.env.STORAGE_BACKEND = 'memory';
+
+import { afterEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { tasks_v1 } from 'googleapis';
+import * as GTasks from '../src/components/gtasks';
+import * as Storage from '../src/components/storage';
+import { recordUserMessage, runReminderSweep } from '../src/components/reminders';
+import { updateUserPreferences } from '../src/components/preferences';
+import { setAccessStatus } from '../src/components/access';
+
+const AT_NOON = new Date('2026-10-19T12:00:00Z');
+
+/**
+ * Stubs the connected users and their tasks, all held in a single list.
+ * @param users The connected users.
+ * @param tasks The open tasks of every user.
+ */
+function stubTasks(users: string[], tasks: tasks_v1.Schema$Task[]): void {
+    mock.method(Storage, 'listConnectedUsers', async () => users);
+    mock.method(GTasks, 'listTaskLists', async () => [{ id: 'list-work', title: 'Work' }]);
+    mock.method(GTasks, 'getTasksInList', async () => tasks);
+}
+
+/**
+ * Creates a user who wrote to the bot recently, with reminders in UTC and quiet hours from 22:00 to 08:00.
+ * @param senderId The user's unique identifier.
+ * @param digestHour The hour of the morning digest, or null for none.
+ */
+async function createUser(senderId: string, digestHour: number | null = null): Promise<void> {
+    await updateUserPreferences(senderId, { timeZone: 'UTC', quietHours: { start: 22, end: 8 }, digestHour });
+    await recordUserMessage(senderId, new Date('2026-10-19T07:00:00Z'));
+}
+
+/**
+ * Runs a sweep, recording the messages it sends.
+ * @param now The instant of the sweep.
+ * @returns The messages sent, with their recipient.
+ */
+async function sweep(now: Date): Promise<{ to: string; body: string }[]> {
+    const sent: { to: string; body: string }[] = [];
+    await runReminderSweep(async (to, body) => { sent.push({ to, body }); }, now);
+    return sent;
+}
+
+afterEach(() => {
+    mock.restoreAll();
+    delete process.env.ACCESS_MODE;
+});
+
+describe('runReminderSweep', () => {
+    test('sends nothing during quiet hours that wrap past midnight', async () => {
+        await createUser('user-quiet');
+        stubTasks(['user-quiet'], [{ id: 'slides', title: 'Prepare slides', due: '2026-10-19T00:00:00.000Z' }]);
+
+        assert.deepEqual(await sweep(new Date('2026-10-18T23:00:00Z')), []);
+        assert.deepEqual(await sweep(new Date('2026-10-19T07:59:00Z')), []);
+        assert.equal((await sweep(new Date('2026-10-19T08:00:00Z'))).length, 1);
+    });
+
+    test('reminds a due task once per due date', async () => {
+        await createUser('user-once');
+        const tasks = [{ id: 'slides', title: 'Prepare slides', due: '2026-10-19T00:00:00.000Z' }];
+        stubTasks(['user-once'], tasks);
+
+        const first = await sweep(AT_NOON);
+        assert.equal(first.length, 1);
+        assert.match(first[0].body, /Prepare slides/);
+        assert.deepEqual(await sweep(new Date('2026-10-19T12:15:00Z')), []);
+
+        // A new due date is a new reminder.
+        tasks[0].due = '2026-10-20T00:00:00.000Z';
+        await recordUserMessage('user-once', new Date('2026-10-20T07:00:00Z'));
+        assert.equal((await sweep(new Date('2026-10-20T12:00:00Z'))).length, 1);
+        assert.deepEqual(await sweep(new Date('2026-10-20T12:15:00Z')), []);
+    });
+
+    test('sends the digest once a day, in place of the reminders', async () => {
+        await createUser('user-digest', 9);
+        stubTasks(['user-digest'], [{ id: 'slides', title: 'Prepare slides', due: '2026-10-19T00:00:00.000Z' }]);
+
+        // Before the digest hour, the due task is reminded as usual.
+        assert.equal((await sweep(new Date('2026-10-19T08:30:00Z'))).length, 1);
+
+        const digest = await sweep(new Date('2026-10-19T09:00:00Z'));
+        assert.equal(digest.length, 1);
+        assert.match(digest[0].body, /Good morning/);
+        assert.match(digest[0].body, /Prepare slides/);
+        assert.deepEqual(await sweep(AT_NOON), []);
+
+        await recordUserMessage('user-digest', new Date('2026-10-20T07:00:00Z'));
+        assert.match((await sweep(new Date('2026-10-20T09:00:00Z')))[0].body, /Good morning/);
+    });
+
+    test('waits until the user writes again once the messaging window has closed', async () => {
+        await createUser('user-away');
+        stubTasks(['user-away'], [{ id: 'slides', title: 'Prepare slides', due: '2026-10-19T00:00:00.000Z' }]);
+
+        // The user last wrote 25 hours before this sweep.
+        assert.deepEqual(await sweep(new Date('2026-10-20T08:00:00Z')), []);
+
+        await recordUserMessage('user-away', new Date('2026-10-20T09:00:00Z'));
+        assert.equal((await sweep(new Date('2026-10-20T09:15:00Z'))).length, 1);
+    });
+
+    test('skips blocked and unknown senders', async () => {
+        await createUser('whatsapp:+5511900000002');
+        await createUser('whatsapp:+5511900000003');
+        await setAccessStatus('whatsapp:+5511900000002', 'blocked', 'whatsapp:+5511900000001');
+        process.env.ACCESS_MODE = 'restricted';
+        stubTasks(['whatsapp:+5511900000002', 'whatsapp:+5511900000003'], [
+            { id: 'slides', title: 'Prepare slides', due: '2026-10-19T00:00:00.000Z' },
+        ]);
+
+        const sent: string[] = [];
+        const summary = await runReminderSweep(async (to) => { sent.push(to); }, AT_NOON);
+        assert.deepEqual(sent, []);
+        assert.equal(summary.skippedNoAccess, 2);
+    });
+});
@@ -0,0 +1,114 @@
+/**
+ * @file storage.test.ts
+ * @description Unit tests for the local storage backends in `localstore.ts`: the in-memory and
+ * JSON-file backends must keep the same contract as the Firestore backend, so code tested against
+ * them behaves the same in production. The Firestore backend's own clean-up of undefined values is
+ * tested directly, since it needs no database.
+ */
+
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StorageBackend } from '../src/types/storage';
+import { createFileBackend, createMemoryBackend } from '../src/components/localstore';
+import { removeUndefinedProperties } from '../src/components/firestore';
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'voicetasks-storage-'));
+const storageFilePath = path.join(tempDir, 'storage.json');
+
+after(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+const BACKENDS: [string, () => StorageBackend][] = [
+    ['memory', () => createMemoryBackend()],
+    ['file', () => createFileBackend(storageFilePath)],
+];
+
+for (const [name, createBackend] of BACKENDS) {
+    describe(`${name} backend`, () => {
+        const backend = createBackend();
+
+        test('reads a missing document as null', async () => {
+            assert.equal(await backend.getDocument('notes', 'missing'), null);
+        });
+
+        test('reads back a copy of what was written', async () => {
+            const doc = { title: 'Buy milk', tags: ['home'], due: { date: '2026-10-19' } };
+            await backend.setDocument('notes', 'copy', doc);
+            doc.tags.push('changed');
+
+            const stored = await backend.getDocument<typeof doc>('notes', 'copy');
+            assert.deepEqual(stored, { title: 'Buy milk', tags: ['home'], due: { date: '2026-10-19' } });
+
+            stored!.title = 'changed';
+            assert.equal((await backend.getDocument<typeof doc>('notes', 'copy'))!.title, 'Buy milk');
+        });
+
+        test('drops properties with undefined values', async () => {
+            await backend.setDocument('notes', 'undefined', { title: 'Buy milk', notes: undefined });
+            assert.deepEqual(await backend.getDocument('notes', 'undefined'), { title: 'Buy milk' });
+        });
+
+        test('drops nested properties with undefined values', async () => {
+            await backend.setDocument('notes', 'nested-undefined', { value: { action: 'delete', taskListId: undefined }, expiresAt: 1 });
+            assert.deepEqual(await backend.getDocument('notes', 'nested-undefined'), { value: { action: 'delete' }, expiresAt: 1 });
+        });
+
+        test('deletes documents, and ignores missing ones', async () => {
+            await backend.setDocument('notes', 'deleted', { title: 'Buy milk' });
+            await backend.deleteDocument('notes', 'deleted');
+            await backend.deleteDocument('notes', 'never-written');
+            assert.equal(await backend.getDocument('notes', 'deleted'), null);
+        });
+
+        test('updates a document and returns what it was before', async () => {
+            assert.equal(await backend.updateDocument<{ count: number }>('counters', 'updated', (current) => ({ count: (current?.count ?? 0) + 1 })), null);
+            assert.deepEqual(await backend.updateDocument<{ count: number }>('counters', 'updated', (current) => ({ count: current!.count + 1 })), { count: 1 });
+            assert.deepEqual(await backend.getDocument('counters', 'updated'), { count: 2 });
+        });
+
+        test('deletes a document when the update returns null', async () => {
+            await backend.setDocument('counters', 'removed', { count: 1 });
+            assert.deepEqual(await backend.updateDocument('counters', 'removed', () => null), { count: 1 });
+            assert.equal(await backend.getDocument('counters', 'removed'), null);
+        });
+
+        test('never loses a concurrent update', async () => {
+            await Promise.all(Array.from({ length: 20 }, () =>
+                backend.updateDocument<{ count: number }>('counters', 'concurrent', (current) => ({ count: (current?.count ?? 0) + 1 }))));
+            assert.deepEqual(await backend.getDocument('counters', 'concurrent'), { count: 20 });
+        });
+    });
+}
+
+describe('firestore backend', () => {
+    test('removes undefined properties at every level, like the local backends', () => {
+        const doc = {
+            value: { action: 'delete', taskListId: undefined, items: [{ id: 'a', notes: undefined }, undefined] },
+            expiresAt: 1,
+            skipped: undefined,
+        };
+        assert.deepEqual(removeUndefinedProperties(doc), JSON.parse(JSON.stringify(doc)));
+        assert.deepEqual(removeUndefinedProperties(doc), { value: { action: 'delete', items: [{ id: 'a' }, null] }, expiresAt: 1 });
+    });
+
+    test('keeps values that are not plain objects as they are', () => {
+        const createdAt = new Date('2026-10-18T12:00:00Z');
+        assert.equal(removeUndefinedProperties({ createdAt }).createdAt, createdAt);
+    });
+});
+
+describe('file backend persistence', () => {
+    test('loads what an earlier backend wrote to the same file', async () => {
+        const filePath = path.join(tempDir, 'reloaded.json');
+        await createFileBackend(filePath).setDocument('notes', 'kept', { title: 'Buy milk' });
+        assert.deepEqual(await createFileBackend(filePath).getDocument('notes', 'kept'), { title: 'Buy milk' });
+    });
+
+    test('refuses to start from a corrupted file', () => {
+        const filePath = path.join(tempDir, 'corrupted.json');
+        fs.writeFileSync(filePath, '{ not json');
+        assert.throws(() => createFileBackend(filePath), /corrupted/);
+    });
+});
@@ -0,0 +1,87 @@
+/**
+ * @file tools.test.ts
+ * @description Unit tests for `tools.ts`: the arguments of Gemini's task function calls are
+ * validated and converted into the actions the rest of the application performs.
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseTaskToolCall, TASK_TOOL_DECLARATIONS } from '../src/components/tools';
+
+describe('parseTaskToolCall', () => {
+    test('converts a task creation, trimming its fields and filling in the optional ones', () => {
+        assert.deepEqual(parseTaskToolCall('create_task', { objective: '  Buy milk ', dueDate: '2026-10-20', listName: 'Groceries' }), {
+            isTask: true,
+            details: { objective: 'Buy milk', description: '', final_result: '', user_experience: '' },
+            dueDate: '2026-10-20',
+            steps: [],
+            listName: 'Groceries',
+        });
+    });
+
+    test('keeps the non-empty steps of a bigger idea', () => {
+        const request = parseTaskToolCall('create_task', { objective: 'Plan the trip', steps: ['Book flights', ' ', 'Book hotel'] });
+        assert.ok(typeof request !== 'string' && request.isTask);
+        assert.deepEqual(request.steps, ['Book flights', 'Book hotel']);
+    });
+
+    test('converts listings, with completed tasks only when asked', () => {
+        assert.deepEqual(parseTaskToolCall('list_tasks', {}), { isTaskListRequest: true, includeCompleted: false, listName: null });
+        assert.deepEqual(parseTaskToolCall('list_tasks', { includeCompleted: true }), { isTaskListRequest: true, includeCompleted: true, listName: null });
+    });
+
+    test('converts the ways of referring to the target tasks', () => {
+        assert.deepEqual(parseTaskToolCall('delete_tasks', { taskTitles: ['1', '3'], listName: 'Work' }), {
+            isTaskDeletionRequest: true, taskTitle: null, taskTitles: ['1', '3'], allMatching: null, listName: 'Work',
+        });
+        assert.deepEqual(parseTaskToolCall('complete_tasks', { allMatching: 'demo' }), {
+            isTaskCompletionRequest: true, taskTitle: null, taskTitles: null, allMatching: 'demo', listName: null,
+        });
+        assert.deepEqual(parseTaskToolCall('reopen_tasks', { taskTitle: 'the milk one' }), {
+            isTaskReopenRequest: true, taskTitle: 'the milk one', taskTitles: null, allMatching: null, listName: null,
+        });
+    });
+
+    test('converts updates, leaving out the fields the user did not change', () => {
+        assert.deepEqual(parseTaskToolCall('update_task', { taskTitle: 'report', dueDate: '2026-10-23' }), {
+            isTaskUpdateRequest: true,
+            taskTitle: 'report',
+            updates: { newTitle: null, newNotes: null, notesToAppend: null, dueDate: '2026-10-23' },
+            listName: null,
+        });
+    });
+
+    test('converts moves and task list management', () => {
+        assert.deepEqual(parseTaskToolCall('move_tasks', { taskTitle: 'report', destinationListName: 'Work' }), {
+            isTaskMoveRequest: true, taskTitle: 'report', taskTitles: null, allMatching: null, listName: null, destinationListName: 'Work',
+        });
+        assert.deepEqual(parseTaskToolCall('manage_task_lists', { operation: 'rename', listName: 'Work', newListName: 'Office' }), {
+            isListManagementRequest: true, operation: 'rename', listName: 'Work', newListName: 'Office',
+        });
+    });
+
+    test('explains what is wrong with invalid arguments', () => {
+        assert.equal(parseTaskToolCall('create_task', { objective: '  ' }), 'Invalid arguments for create_task: "objective" is required.');
+        assert.equal(parseTaskToolCall('create_task', { objective: 42 }), 'Invalid arguments for create_task: "objective" must be a string.');
+        assert.equal(parseTaskToolCall('delete_tasks', { taskTitles: 'report' }), 'Invalid arguments for delete_tasks: "taskTitles" must be a list of strings.');
+        assert.equal(parseTaskToolCall('list_tasks', { includeCompleted: 'yes' }), 'Invalid arguments for list_tasks: "includeCompleted" must be true or false.');
+        assert.equal(parseTaskToolCall('move_tasks', { taskTitle: 'report' }), 'Invalid arguments for move_tasks: "destinationListName" is required.');
+        assert.match(parseTaskToolCall('manage_task_lists', { operation: 'delete' }) as string, /"operation" must be one of: show, create, rename/);
+    });
+
+    test('rejects functions that are not declared', () => {
+        assert.equal(parseTaskToolCall('delete_everything', {}), 'Unknown function "delete_everything".');
+    });
+
+    test('accepts a call to every declared function', () => {
+        const validArguments: Record<string, Record<string, unknown>> = {
+            create_task: { objective: 'Buy milk' },
+            move_tasks: { destinationListName: 'Work' },
+            manage_task_lists: { operation: 'show' },
+        };
+        for (const declaration of TASK_TOOL_DECLARATIONS) {
+            const request = parseTaskToolCall(declaration.name!, validArguments[declaration.name!] || {});
+            assert.equal(typeof request, 'object', `${declaration.name}: ${request}`);
+        }
+    });
+});
@@ -0,0 +1,76 @@
+/**
+ * @file webhook.test.ts
+ * @description Unit tests for `webhook.ts`: only requests signed by Twilio over the public URL of
+ * the webhook reach the handler.
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, Response } from 'express';
+import twilio from 'twilio';
+import { createTwilioSignatureValidator } from '../src/components/webhook';
+
+const AUTH_TOKEN = 'test-auth-token';
+const BASE_URL = 'https://voicetasks.example.com';
+const BODY = { From: 'whatsapp:+5511999999999', Body: 'Buy milk' };
+
+/**
+ * Runs the validator on a webhook request.
+ * @param signature The X-Twilio-Signature header, or undefined to send none.
+ * @param body The form parameters of the request.
+ * @param skipValidation Whether validation is disabled.
+ * @returns The status the request was rejected with, or 'next' if it was let through.
+ */
+function runValidator(signature: string | undefined, body: Record<string, string> = BODY, skipValidation: boolean = false): number | 'next' {
+    let outcome: number | 'next' | null = null;
+    const req = {
+        originalUrl: '/webhook/twilio',
+        body,
+        header: (name: string) => (name.toLowerCase() === 'x-twilio-signature' ? signature : undefined),
+    } as unknown as Request;
+    const res = {
+        status(code: number) {
+            outcome = code;
+            return this;
+        },
+        send() {
+            return this;
+        },
+    } as unknown as Response;
+
+    createTwilioSignatureValidator(AUTH_TOKEN, BASE_URL, skipValidation)(req, res, () => {
+        outcome = 'next';
+    });
+    assert.notEqual(outcome, null, 'The validator neither rejected the request nor let it through.');
+    return outcome!;
+}
+
+describe('createTwilioSignatureValidator', () => {
+    test('lets through a request signed over the public URL', () => {
+        const signature = twilio.getExpectedTwilioSignature(AUTH_TOKEN, `${BASE_URL}/webhook/twilio`, BODY);
+        assert.equal(runValidator(signature), 'next');
+    });
+
+    test('rejects a request without a signature', () => {
+        assert.equal(runValidator(undefined), 403);
+    });
+
+    test('rejects a request signed with another auth token', () => {
+        const signature = twilio.getExpectedTwilioSignature('another-token', `${BASE_URL}/webhook/twilio`, BODY);
+        assert.equal(runValidator(signature), 403);
+    });
+
+    test('rejects a request whose parameters were changed after signing', () => {
+        const signature = twilio.getExpectedTwilioSignature(AUTH_TOKEN, `${BASE_URL}/webhook/twilio`, BODY);
+        assert.equal(runValidator(signature, { ...BODY, From: 'whatsapp:+5511888888888' }), 403);
+    });
+
+    test('rejects a request signed over the internal URL behind the proxy', () => {
+        const signature = twilio.getExpectedTwilioSignature(AUTH_TOKEN, 'http://localhost:8080/webhook/twilio', BODY);
+        assert.equal(runValidator(signature), 403);
+    });
+
+    test('lets every request through when validation is disabled', () => {
+        assert.equal(runValidator(undefined, BODY, true), 'next');
+    });
+});